@@ -143,8 +143,97 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
 							maximum: 10,
 							default: 3,
 						},
+						filter: {
+							$ref: "#/$defs/filter",
+							description:
+								"Optional metadata filter to restrict the search. Fields of the same object are " +
+								"combined with AND; a list of values matches any of them. Use 'and', 'or' and 'not' " +
+								"to combine nested filters. Examples: { \"type\": \"pdf\" }, " +
+								"{ \"tags\": [\"architecture\"], \"publishedAt\": { \"from\": \"2024-01-01\" } }, " +
+								"{ \"or\": [{ \"fileName\": \"clean-code.pdf\" }, { \"type\": \"url\" }] }",
+						},
+						mode: {
+							type: "string",
+							enum: ["dense", "sparse", "hybrid", "mmr"],
+							description:
+								"Retrieval mode: 'dense' (semantic similarity), 'sparse' (keyword/BM25, best for exact " +
+								"identifiers, error codes and names), 'hybrid' (both, merged by rank) or 'mmr' " +
+								"(semantic, skipping results that repeat each other). " +
+								"Default: the server's RETRIEVAL_MODE (hybrid)",
+						},
+						rerank: {
+							type: "boolean",
+							description:
+								"Rescore a larger pool of candidates with a local cross-encoder and keep the best topK. " +
+								"Slower but more precise. Default: the server's RERANK setting (off)",
+						},
+						collapseAdjacent: {
+							type: "boolean",
+							description:
+								"Merge hits that are neighbouring chunks of the same document into a single passage. " +
+								"Default: the server's RETRIEVAL_COLLAPSE_ADJACENT setting (off)",
+						},
+						contextWindow: {
+							type: "number",
+							description:
+								"Number of neighbouring chunks (0-5) to include on each side of every hit, stitched " +
+								"into one passage so the answer sees the surrounding text. Default: the server's " +
+								"RETRIEVAL_CONTEXT_WINDOW setting (0)",
+							minimum: 0,
+							maximum: 5,
+						},
 					},
 					required: ["question"],
+					$defs: {
+						filter: {
+							type: "object",
+							additionalProperties: false,
+							properties: {
+								documentIds: {
+									$ref: "#/$defs/stringList",
+									description: "Document IDs (from GET /documents)",
+								},
+								fileName: {
+									$ref: "#/$defs/stringList",
+									description: "File names or URLs of the indexed documents",
+								},
+								type: {
+									oneOf: [
+										{ $ref: "#/$defs/documentType" },
+										{ type: "array", items: { $ref: "#/$defs/documentType" } },
+									],
+									description: "Document types",
+								},
+								tags: {
+									$ref: "#/$defs/stringList",
+									description: "Chunks with at least one of these tags",
+								},
+								uploadAt: { $ref: "#/$defs/dateRange" },
+								scrapedAt: { $ref: "#/$defs/dateRange" },
+								publishedAt: { $ref: "#/$defs/dateRange" },
+								and: { type: "array", items: { $ref: "#/$defs/filter" } },
+								or: { type: "array", items: { $ref: "#/$defs/filter" } },
+								not: { type: "array", items: { $ref: "#/$defs/filter" } },
+							},
+						},
+						// A single value or a list, like the server's filter schema
+						stringList: {
+							oneOf: [{ type: "string" }, { type: "array", items: { type: "string" } }],
+						},
+						documentType: {
+							type: "string",
+							enum: ["pdf", "epub", "url", "csv", "markdown", "html", "text", "docx", "odt"],
+						},
+						dateRange: {
+							type: "object",
+							additionalProperties: false,
+							description: "ISO 8601 dates (e.g. 2024-01-31), inclusive; a date-only 'to' includes that whole day",
+							properties: {
+								from: { type: "string" },
+								to: { type: "string" },
+							},
+						},
+					},
 				},
 			},
 			{
@@ -27,6 +27,7 @@ import {
 	type QueryRagInput,
 	type RAGApiResponse,
 	type RAGResponse,
+	type RAGSource,
 	queryRagSchema,
 } from "../types.js";
 
@@ -38,7 +39,7 @@ import {
  * 2. Makes an HTTP POST request to the RAG server's /rag endpoint
  * 3. Returns the RAG response with answer and sources
  *
- * @param args - Raw arguments from Claude Code (must contain question, optional topK)
+ * @param args - Raw arguments from Claude Code (must contain question, optional topK, filter, mode, rerank, collapseAdjacent and contextWindow)
  * @returns RAGResponse with answer, sources, and token usage
  * @throws Error if validation fails, server is unreachable, or request fails
  */
@@ -57,7 +58,7 @@ export async function executeQueryRag(args: unknown): Promise<RAGResponse> {
 		);
 	}
 
-	const { question, topK } = validatedInput;
+	const { question, topK, filter, mode, rerank, collapseAdjacent, contextWindow } = validatedInput;
 
 	// Step 2: Make HTTP request to RAG server
 	const url = `${config.ragServer.url}${config.ragServer.endpoints.rag}`;
@@ -66,7 +67,15 @@ export async function executeQueryRag(args: unknown): Promise<RAGResponse> {
 	try {
 		const response = await axios.post<RAGApiResponse>(
 			url,
-			{ question, topK },
+			{
+				question,
+				topK,
+				...(filter && { filter }),
+				...(mode && { mode }),
+				...(rerank !== undefined && { rerank }),
+				...(collapseAdjacent !== undefined && { collapseAdjacent }),
+				...(contextWindow !== undefined && { contextWindow }),
+			},
 			{
 				timeout: config.ragServer.timeout,
 				headers: { "Content-Type": "application/json" },
@@ -149,8 +158,13 @@ export function formatRagResponse(response: RAGResponse): string {
 	if (response.sources.length > 0) {
 		parts.push("## Sources");
 		response.sources.forEach((source, index) => {
+			const chunks =
+				source.chunkIndices && source.chunkIndices.length > 1
+					? `chunks ${source.chunkIndices.join(", ")}`
+					: `chunk ${source.chunkIndex}`;
+			const location = source.page !== undefined ? `page ${source.page}, ${chunks}` : chunks;
 			parts.push(
-				`${index + 1}. ${source.fileName} (chunk ${source.chunkIndex}, relevance: ${(source.score * 100).toFixed(1)}%)`,
+				`${index + 1}. ${source.citation} — ${source.fileName} (${location}, ${formatScores(source)})`,
 			);
 		});
 		parts.push("");
@@ -163,3 +177,26 @@ export function formatRagResponse(response: RAGResponse): string {
 
 	return parts.join("\n");
 }
+
+/**
+ * Describe the retrieval scores of a source
+ * Hybrid results carry a fusion score, which is not a percentage, so each retriever is listed instead
+ * Reranked results use the cross-encoder score, which is a 0-1 relevance; MMR results show the
+ * similarity, since the MMR score also penalizes redundancy
+ */
+function formatScores(source: RAGSource): string {
+	const scores = source.scores;
+	if (scores?.rerank !== undefined) {
+		return `relevance: ${(scores.rerank * 100).toFixed(1)}% (reranked)`;
+	}
+	if (scores?.mmr !== undefined && typeof scores.dense === "number") {
+		return `relevance: ${(scores.dense * 100).toFixed(1)}% (diversified)`;
+	}
+	if (scores?.fused === undefined) {
+		return `relevance: ${(source.score * 100).toFixed(1)}%`;
+	}
+
+	const dense = typeof scores.dense === "number" ? `${(scores.dense * 100).toFixed(1)}%` : "-";
+	const sparse = typeof scores.sparse === "number" ? scores.sparse.toFixed(2) : "-";
+	return `semantic: ${dense}, keyword: ${sparse}`;
+}
@@ -12,6 +12,58 @@
 
 import { z } from "zod";
 
+/**
+ * Date range filter (ISO 8601 dates, inclusive bounds)
+ */
+const dateRangeSchema = z
+	.object({
+		from: z.string().optional(),
+		to: z.string().optional(),
+	})
+	.strict();
+
+/**
+ * Metadata filter (mirrors SearchFilter in /src/types.ts)
+ * Fields of the same object are combined with AND; and/or/not nest other filters.
+ * Full validation (dates, document types) happens on the RAG server.
+ */
+interface DateRange {
+	from?: string | undefined;
+	to?: string | undefined;
+}
+
+export interface SearchFilter {
+	documentIds?: string | string[] | undefined;
+	fileName?: string | string[] | undefined;
+	type?: string | string[] | undefined;
+	tags?: string | string[] | undefined;
+	uploadAt?: DateRange | undefined;
+	scrapedAt?: DateRange | undefined;
+	publishedAt?: DateRange | undefined;
+	and?: SearchFilter[] | undefined;
+	or?: SearchFilter[] | undefined;
+	not?: SearchFilter[] | undefined;
+}
+
+const stringOrListSchema = z.union([z.string(), z.array(z.string())]);
+
+export const searchFilterSchema: z.ZodType<SearchFilter> = z.lazy(() =>
+	z
+		.object({
+			documentIds: stringOrListSchema.optional(),
+			fileName: stringOrListSchema.optional(),
+			type: stringOrListSchema.optional(),
+			tags: stringOrListSchema.optional(),
+			uploadAt: dateRangeSchema.optional(),
+			scrapedAt: dateRangeSchema.optional(),
+			publishedAt: dateRangeSchema.optional(),
+			and: z.array(searchFilterSchema).optional(),
+			or: z.array(searchFilterSchema).optional(),
+			not: z.array(searchFilterSchema).optional(),
+		})
+		.strict(),
+);
+
 /**
  * Zod schema for validating query_rag tool inputs
  * Matches the querySchema from the main RAG server (/src/schemas/index.ts:4-22)
@@ -34,6 +86,20 @@ export const queryRagSchema = z.object({
 		.max(10, "topK cannot exceed 10")
 		.optional()
 		.default(3),
+	filter: searchFilterSchema.optional(),
+	mode: z
+		.enum(["dense", "sparse", "hybrid", "mmr"], {
+			errorMap: () => ({ message: "mode must be 'dense', 'sparse', 'hybrid' or 'mmr'" }),
+		})
+		.optional(),
+	rerank: z.boolean({ invalid_type_error: "rerank must be a boolean" }).optional(),
+	collapseAdjacent: z.boolean({ invalid_type_error: "collapseAdjacent must be a boolean" }).optional(),
+	contextWindow: z
+		.number({ invalid_type_error: "contextWindow must be a number" })
+		.int("contextWindow must be an integer")
+		.min(0, "contextWindow cannot be negative")
+		.max(5, "contextWindow cannot exceed 5")
+		.optional(),
 });
 
 export type QueryRagInput = z.infer<typeof queryRagSchema>;
@@ -44,7 +110,36 @@ export type QueryRagInput = z.infer<typeof queryRagSchema>;
 export interface RAGSource {
 	fileName: string;
 	chunkIndex: number;
+	/** Page number the chunk came from (PDF documents only) */
+	page?: number;
+	/** Document title (from PDF/EPUB/DOCX properties) */
+	title?: string;
+	/** Document author */
+	author?: string;
+	/** Chapter title (EPUB documents only) */
+	chapter?: string;
+	/** 1-based position in the EPUB reading order; cover, TOC and part dividers count too, so it is not the printed chapter number */
+	sectionIndex?: number;
+	/** Heading breadcrumb of the chunk (Markdown/HTML documents only) */
+	breadcrumb?: string;
+	/** Ready-to-use citation label, e.g. "Clean Architecture, sec. 24 (The Clean Architecture)" */
+	citation: string;
+	/** Chunks merged into this passage (adjacent hits collapsed or neighbours added by contextWindow) */
+	chunkIndices?: number[];
+	/** Ranking score: similarity (dense), BM25 (sparse), reciprocal rank fusion (hybrid) or MMR (mmr) */
 	score: number;
+	/** Score from each retriever that ran; null when the chunk was not among its candidates */
+	scores?: {
+		dense?: number | null;
+		sparse?: number | null;
+		fused?: number;
+		/** MMR score when the chunk was picked (mmr mode) */
+		mmr?: number;
+		/** Retrieval score before reranking */
+		original?: number;
+		/** Cross-encoder score (0-1) */
+		rerank?: number;
+	};
 }
 
 /**
@@ -6,15 +6,42 @@
  *   npm run add-doc caminho/para/documento.pdf
  *   npm run add-doc caminho/para/livro.epub
  *   npm run add-doc caminho/para/dados.csv
+ *   npm run add-doc caminho/para/notas.md
+ *   npm run add-doc caminho/para/especificacao.docx
+ *   npm run add-doc caminho/para/documento.pdf -- --on-duplicate=replace
+ *   npm run add-doc caminho/para/dados.csv -- --content-columns=nome,descricao --metadata-columns=categoria --rows-per-chunk=5
+ *   npm run add-doc caminho/para/livro.pdf -- --chunking=sentence --sentences-per-chunk=6 --sentence-overlap=1
+ *   npm run add-doc caminho/para/livro.pdf -- --chunking=token --chunk-size=256 --chunk-overlap=32
+ *   npm run add-doc caminho/para/livro.pdf -- --chunking=semantic --breakpoint-percentile=90
+ *   npm run add-doc caminho/para/livro.pdf -- --tags=arquitetura,livros
  */
 
 import path from "node:path";
 import fs from "node:fs";
 import { processDocument } from "../src/services/document.js";
+import { resolveChunkingOptions } from "../src/services/chunking.js";
+import { detectDocumentType, type CSVLoaderOptions } from "../src/loaders/index.js";
+import { chunkingSchema } from "../src/schemas/index.js";
+import type { ChunkingOptions, DuplicateStrategy } from "../src/types.js";
 import { initQdrantCollection } from "../src/services/qdrant.js";
 
+/**
+ * Lê uma flag no formato --nome=valor
+ */
+function getFlag(flags: string[], name: string): string | undefined {
+  const prefix = `--${name}=`;
+  return flags.find((flag) => flag.startsWith(prefix))?.slice(prefix.length);
+}
+
+function parseColumnList(value: string | undefined): string[] | undefined {
+  if (!value) return undefined;
+  return value.split(",").map((col) => col.trim()).filter((col) => col.length > 0);
+}
+
 async function main() {
-  const args = process.argv.slice(2);
+  const argv = process.argv.slice(2);
+  const args = argv.filter((arg) => !arg.startsWith("--"));
+  const flags = argv.filter((arg) => arg.startsWith("--"));
 
   if (args.length === 0) {
     console.error(`
@@ -24,6 +51,12 @@ Exemplos:
   npm run add-doc ./uploads/meu-livro.pdf
   npm run add-doc ./uploads/artigo.epub
   npm run add-doc ./uploads/dados.csv
+  npm run add-doc ./uploads/dados.csv -- --content-columns=nome,descricao --metadata-columns=categoria
+  npm run add-doc ./uploads/meu-livro.pdf -- --on-duplicate=replace
+  npm run add-doc ./uploads/meu-livro.pdf -- --chunking=semantic --breakpoint-percentile=90
+
+Estratégias de chunking (--chunking): character, token, sentence, markdown, semantic
+Parâmetros: --chunk-size, --chunk-overlap, --sentences-per-chunk, --sentence-overlap, --breakpoint-percentile
 
 Ou usando tsx diretamente:
   npx tsx scripts/add-document.ts ./uploads/arquivo.pdf
@@ -41,7 +74,7 @@ Ou usando tsx diretamente:
   }
 
   // Validar extensão
-  const validExtensions = [".pdf", ".epub", ".csv"];
+  const validExtensions = [".pdf", ".epub", ".csv", ".md", ".markdown", ".html", ".htm", ".txt", ".docx", ".odt"];
   const ext = path.extname(fileName).toLowerCase();
   if (!validExtensions.includes(ext)) {
     console.error(`❌ Formato não suportado: ${ext}`);
@@ -49,9 +82,47 @@ Ou usando tsx diretamente:
     process.exit(1);
   }
 
+  const rowsPerChunk = getFlag(flags, "rows-per-chunk");
+  const csvOptions: CSVLoaderOptions = {
+    contentColumns: parseColumnList(getFlag(flags, "content-columns")),
+    metadataColumns: parseColumnList(getFlag(flags, "metadata-columns")),
+    rowsPerChunk: rowsPerChunk ? Number(rowsPerChunk) : undefined,
+  };
+
+  const onDuplicate = (getFlag(flags, "on-duplicate") || "skip") as DuplicateStrategy;
+  if (onDuplicate !== "skip" && onDuplicate !== "replace") {
+    console.error(`❌ --on-duplicate inválido: ${onDuplicate}. Use "skip" ou "replace"`);
+    process.exit(1);
+  }
+
+  const chunkingInput = chunkingSchema.safeParse({
+    strategy: getFlag(flags, "chunking"),
+    chunkSize: getFlag(flags, "chunk-size"),
+    chunkOverlap: getFlag(flags, "chunk-overlap"),
+    sentencesPerChunk: getFlag(flags, "sentences-per-chunk"),
+    sentenceOverlap: getFlag(flags, "sentence-overlap"),
+    breakpointPercentile: getFlag(flags, "breakpoint-percentile"),
+  });
+  if (!chunkingInput.success) {
+    console.error(`❌ Opções de chunking inválidas: ${chunkingInput.error.errors.map((err) => err.message).join("; ")}`);
+    process.exit(1);
+  }
+
+  // Tags usadas nos filtros de busca
+  const tags = parseColumnList(getFlag(flags, "tags"));
+
+  let chunking: ChunkingOptions;
+  try {
+    chunking = resolveChunkingOptions(chunkingInput.data, detectDocumentType(fileName));
+  } catch (error) {
+    console.error(`❌ Opções de chunking inválidas: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+
   console.log(`\n🚀 Processando documento...`);
   console.log(`📄 Arquivo: ${fileName}`);
-  console.log(`📁 Caminho: ${filePath}\n`);
+  console.log(`📁 Caminho: ${filePath}`);
+  console.log(`✂️  Chunking: ${JSON.stringify(chunking)}\n`);
 
   try {
     // Inicializar coleção Qdrant
@@ -63,11 +134,19 @@ Ou usando tsx diretamente:
     const result = await processDocument({
       fileName,
       filePath,
+      loaderOptions: { csv: csvOptions },
+      chunking,
+      onDuplicate,
+      ...(tags && tags.length > 0 && { metadata: { tags } }),
     });
 
     const duration = ((Date.now() - startTime) / 1000).toFixed(2);
 
-    console.log(`\n✅ Documento processado com sucesso!`);
+    if (result.duplicate) {
+      console.log(`\n⏭️  Documento já indexado com conteúdo idêntico (use --on-duplicate=replace para reprocessar)`);
+    } else {
+      console.log(`\n✅ Documento processado com sucesso!`);
+    }
     console.log(`📝 ID do Documento: ${result.documentId}`);
     console.log(`📊 Chunks criados: ${result.chunksCount}`);
     console.log(`⏱️  Tempo: ${duration}s\n`);
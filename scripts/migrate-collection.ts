@@ -0,0 +1,167 @@
+#!/usr/bin/env tsx
+/**
+ * Script para migrar os documentos para uma nova collection (blue-green com alias do Qdrant)
+ * Reindexa todos os documentos a partir da fonte original, valida e move o alias
+ *
+ * Rode com o servidor parado (o registro de documentos é um arquivo JSON compartilhado);
+ * com o servidor no ar, use POST /migrations
+ *
+ * Uso:
+ *   npm run migrate -- --model=Xenova/multilingual-e5-small
+ *   npm run migrate -- --model=text-embedding-3-small --provider=openai --dimensions=512
+ *   npm run migrate -- --chunking=sentence --sentences-per-chunk=6
+ *   npm run migrate -- --model=Xenova/bge-m3 --query="como funciona o reembolso?" --min-score=0.4
+ *   npm run migrate -- --model=Xenova/bge-m3 --no-swap
+ *   npm run migrate -- --swap=<id> [--force]
+ *   npm run migrate -- --rollback=<id>
+ *   npm run migrate -- --list
+ */
+
+import { migrationSchema } from "../src/schemas/index.js";
+import {
+  listMigrations,
+  rollbackMigration,
+  startMigration,
+  swapMigration,
+  waitForMigration,
+} from "../src/services/migrations.js";
+import { initQdrantCollection } from "../src/services/qdrant.js";
+import type { CollectionMigration } from "../src/types.js";
+
+/**
+ * Lê uma flag no formato --nome=valor
+ */
+function getFlag(flags: string[], name: string): string | undefined {
+  const prefix = `--${name}=`;
+  return flags.find((flag) => flag.startsWith(prefix))?.slice(prefix.length);
+}
+
+// Flags repetíveis (ex: --query=a --query=b)
+function getFlags(flags: string[], name: string): string[] {
+  const prefix = `--${name}=`;
+  return flags.filter((flag) => flag.startsWith(prefix)).map((flag) => flag.slice(prefix.length));
+}
+
+function printMigration(migration: CollectionMigration): void {
+  const { validation } = migration;
+
+  console.log(`\n📦 Migração ${migration.id} (${migration.status})`);
+  console.log(`   ${migration.sourceCollection} (${migration.sourceEmbedding.model}) → ${migration.targetCollection} (${migration.targetEmbedding.model})`);
+  console.log(`   Documentos: ${migration.documentsDone}/${migration.documentsTotal} (${migration.documentsFailed} com erro)`);
+
+  for (const error of migration.errors) {
+    console.log(`   ❌ ${error.fileName || "migração"}: ${error.message}`);
+  }
+
+  if (validation) {
+    console.log(`   Pontos: ${validation.pointsCount}/${validation.expectedPoints}`);
+    console.log(`   Amostras que recuperam o próprio documento: ${validation.selfRetrieval.hits}/${validation.selfRetrieval.samples}`);
+    for (const query of validation.queries) {
+      console.log(`   ${query.passed ? "✅" : "❌"} "${query.query}" → score ${query.topScore?.toFixed(3) ?? "-"}`);
+    }
+  }
+}
+
+async function main() {
+  const flags = process.argv.slice(2);
+
+  try {
+    // Listagem, swap e rollback não dependem do modelo configurado (só do registro e do alias)
+    if (flags.includes("--list")) {
+      for (const migration of listMigrations()) printMigration(migration);
+      return;
+    }
+
+    const swapId = getFlag(flags, "swap");
+    if (swapId) {
+      const migration = await swapMigration(swapId, flags.includes("--force"));
+      if (!migration) throw new Error(`Migração não encontrada: ${swapId}`);
+      printMigration(migration);
+      return;
+    }
+
+    const rollbackId = getFlag(flags, "rollback");
+    if (rollbackId) {
+      const result = await rollbackMigration(rollbackId);
+      if (!result) throw new Error(`Migração não encontrada: ${rollbackId}`);
+      printMigration(result.migration);
+      if (result.changedDocuments.length > 0) {
+        console.log(`\n⚠️  Reindexe os documentos alterados depois do swap: ${result.changedDocuments.join(", ")}`);
+      }
+      return;
+    }
+
+    // Nova migração: o modelo configurado precisa corresponder à collection atual (como no startup)
+    await initQdrantCollection();
+
+    const model = getFlag(flags, "model");
+    const dimensions = getFlag(flags, "dimensions");
+    const strategy = getFlag(flags, "chunking");
+    const minScore = getFlag(flags, "min-score");
+    const queries = getFlags(flags, "query");
+
+    const input = migrationSchema.safeParse({
+      embedding: model
+        ? {
+            model,
+            provider: getFlag(flags, "provider"),
+            dimensions: dimensions ? Number(dimensions) : undefined,
+            pooling: getFlag(flags, "pooling"),
+          }
+        : undefined,
+      chunking: strategy
+        ? {
+            strategy,
+            chunkSize: getFlag(flags, "chunk-size"),
+            chunkOverlap: getFlag(flags, "chunk-overlap"),
+            sentencesPerChunk: getFlag(flags, "sentences-per-chunk"),
+            sentenceOverlap: getFlag(flags, "sentence-overlap"),
+            breakpointPercentile: getFlag(flags, "breakpoint-percentile"),
+          }
+        : undefined,
+      validationQueries: queries.length > 0 ? queries : undefined,
+      minScore: minScore ? Number(minScore) : undefined,
+      allowFailures: flags.includes("--allow-failures"),
+      autoSwap: !flags.includes("--no-swap"),
+    });
+    if (!input.success) {
+      console.error(`❌ Opções inválidas: ${input.error.errors.map((err) => err.message).join("; ")}`);
+      process.exit(1);
+    }
+
+    if (!input.data.embedding && !input.data.chunking) {
+      console.error(`
+❌ Informe o novo modelo (--model) e/ou o novo chunking (--chunking)
+
+Exemplos:
+  npm run migrate -- --model=Xenova/multilingual-e5-small
+  npm run migrate -- --model=Xenova/bge-m3 --query="pergunta de validação" --no-swap
+  npm run migrate -- --swap=<id>
+  npm run migrate -- --rollback=<id>
+      `);
+      process.exit(1);
+    }
+
+    const startTime = Date.now();
+    const started = await startMigration(input.data);
+    const migration = (await waitForMigration(started.id))!;
+    const duration = ((Date.now() - startTime) / 1000).toFixed(2);
+
+    printMigration(migration);
+    console.log(`⏱️  Tempo: ${duration}s`);
+
+    if (migration.status === "ready") {
+      console.log(`\n💡 Validação aprovada. Para ativar: npm run migrate -- --swap=${migration.id}`);
+    } else if (migration.status === "invalid") {
+      console.log(`\n⚠️  Validação reprovada. Para ativar mesmo assim: npm run migrate -- --swap=${migration.id} --force`);
+      process.exitCode = 1;
+    } else if (migration.status === "failed") {
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error(`\n❌ Erro na migração:`, error);
+    process.exit(1);
+  }
+}
+
+main();
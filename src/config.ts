@@ -12,6 +12,67 @@ export const config = {
 		url: process.env.QDRANT_URL || "http://localhost:6333",
 		collectionName: process.env.QDRANT_COLLECTION_NAME || "documents",
 	},
+	embeddings: {
+		// Provider: "transformers" (local, transformers.js) ou "openai" (API compatível com OpenAI); padrão: o do modelo
+		provider: process.env.EMBEDDING_PROVIDER || undefined,
+		model: process.env.EMBEDDING_MODEL || "Xenova/bge-small-en-v1.5",
+		// Obrigatória para modelos fora do registro; nos text-embedding-3 reduz a dimensão nativa
+		dimensions: Number(process.env.EMBEDDING_DIMENSIONS) || undefined,
+		// Prefixos de pergunta e de chunk (padrão: os recomendados para o modelo, ex: "query: "/"passage: " no E5)
+		queryPrefix: process.env.EMBEDDING_QUERY_PREFIX,
+		passagePrefix: process.env.EMBEDDING_PASSAGE_PREFIX,
+		pooling: (process.env.EMBEDDING_POOLING === "cls" || process.env.EMBEDDING_POOLING === "mean"
+			? process.env.EMBEDDING_POOLING
+			: undefined) as "mean" | "cls" | undefined,
+		// No startup, usa o modelo gravado na collection do alias em vez de falhar quando EMBEDDING_* é outro
+		// (ex: depois do swap ou do rollback de uma migração, sem editar o .env)
+		followCollectionModel: process.env.EMBEDDING_FOLLOW_COLLECTION_MODEL === "true",
+		openai: {
+			baseUrl: process.env.EMBEDDING_API_URL || "https://api.openai.com/v1",
+			apiKey: process.env.EMBEDDING_API_KEY,
+			batchSize: Number(process.env.EMBEDDING_BATCH_SIZE) || 64,
+		},
+		// Cache persistente de vetores (data/embedding-cache): re-index e perguntas repetidas pulam a inferência
+		cache: {
+			enabled: process.env.EMBEDDING_CACHE !== "false",
+			// Tamanho máximo em disco; acima dele os vetores usados há mais tempo são removidos
+			maxSizeMb: Number(process.env.EMBEDDING_CACHE_MAX_MB) || 512,
+		},
+	},
+	retrieval: {
+		// Modo padrão da busca: "dense" (embeddings), "sparse" (BM25), "hybrid" (os dois, fundidos com RRF)
+		// ou "mmr" (embeddings com diversidade)
+		mode: (["dense", "sparse", "hybrid", "mmr"].includes(process.env.RETRIEVAL_MODE ?? "")
+			? process.env.RETRIEVAL_MODE
+			: "hybrid") as "dense" | "sparse" | "hybrid" | "mmr",
+		// Pesos de cada busca na fusão (reciprocal rank fusion) e constante k do RRF
+		denseWeight: Number(process.env.RETRIEVAL_DENSE_WEIGHT ?? 1),
+		sparseWeight: Number(process.env.RETRIEVAL_SPARSE_WEIGHT ?? 1),
+		rrfK: Number(process.env.RETRIEVAL_RRF_K) || 60,
+		// Candidatos buscados por cada retriever antes da fusão (no mínimo o topK)
+		hybridCandidates: Number(process.env.RETRIEVAL_HYBRID_CANDIDATES) || 20,
+		// Tamanho médio de um chunk em termos, usado pelo BM25 para normalizar pelo tamanho
+		// (o chunking padrão de 1000 caracteres gera ~150 termos; ajuste junto com o chunkSize)
+		bm25AverageChunkTerms: Number(process.env.BM25_AVERAGE_CHUNK_TERMS) || 150,
+		// MMR: equilíbrio entre relevância (1) e diversidade (0), e candidatos considerados na seleção
+		mmrLambda: Number(process.env.MMR_LAMBDA ?? 0.5),
+		mmrCandidates: Number(process.env.MMR_CANDIDATES) || 20,
+		// Junta resultados que são chunks vizinhos do mesmo documento em uma passagem
+		collapseAdjacent: process.env.RETRIEVAL_COLLAPSE_ADJACENT === "true",
+		// Candidatos buscados antes de juntar os vizinhos (para ainda sobrarem topK passagens)
+		collapseCandidates: Number(process.env.RETRIEVAL_COLLAPSE_CANDIDATES) || 20,
+		// Chunks vizinhos (de cada lado) incluídos em cada resultado
+		contextWindow: Number(process.env.RETRIEVAL_CONTEXT_WINDOW) || 0,
+	},
+	reranking: {
+		// Reordena os candidatos com um cross-encoder local (padrão de cada busca; "rerank" na requisição sobrepõe)
+		enabled: process.env.RERANK === "true",
+		model: process.env.RERANK_MODEL || "Xenova/bge-reranker-base",
+		// Candidatos buscados no Qdrant para o reranker escolher os topK melhores
+		candidates: Number(process.env.RERANK_CANDIDATES) || 20,
+		// Pares pergunta/chunk por inferência
+		batchSize: Number(process.env.RERANK_BATCH_SIZE) || 8,
+	},
 	server: {
 		port: process.env.SERVER_PORT || "3000",
 	},
@@ -19,8 +80,35 @@ export const config = {
 		directory: process.env.UPLOADS_DIRECTORY || "./uploads",
 		maxFileSize: Number(MAX_FILE_SIZE_10MB),
 	},
+	storage: {
+		// Registros persistidos em JSON (documentos indexados, etc.)
+		directory: process.env.DATA_DIRECTORY || "./data",
+	},
+	jobs: {
+		// Jobs concluídos ou falhos são removidos de data/jobs.json depois deste prazo (horas)
+		retentionHours: Number(process.env.JOB_RETENTION_HOURS) || 168,
+	},
+	feeds: {
+		// Intervalo padrão entre verificações de cada feed (minutos)
+		defaultIntervalMinutes: Number(process.env.FEED_POLL_INTERVAL_MINUTES) || 60,
+	},
+	trackedUrls: {
+		// Intervalo padrão entre verificações de cada URL acompanhada (minutos)
+		defaultIntervalMinutes: Number(process.env.TRACKED_URL_INTERVAL_MINUTES) || 1440,
+	},
 	scraping: {
 		defaultEngine: (process.env.SCRAPER_ENGINE || "cheerio") as "cheerio" | "playwright",
+		// Formato do conteúdo extraído: "text" (texto corrido) ou "markdown" (código, tabelas, headings e links)
+		format: (process.env.SCRAPER_FORMAT === "markdown" ? "markdown" : "text") as "text" | "markdown",
+		// Politeness: requisições simultâneas e intervalo mínimo (ms) entre requisições ao mesmo host
+		hostConcurrency: Number(process.env.SCRAPER_HOST_CONCURRENCY) || 2,
+		minDelayMs: Number(process.env.SCRAPER_MIN_DELAY_MS ?? 1000),
+		// Retry de falhas transitórias (timeout, rede, 5xx, 429) com backoff exponencial
+		maxRetries: Number(process.env.SCRAPER_MAX_RETRIES ?? 3),
+		retryBaseDelayMs: Number(process.env.SCRAPER_RETRY_BASE_DELAY_MS) || 1000,
+		maxRetryDelayMs: Number(process.env.SCRAPER_MAX_RETRY_DELAY_MS) || 60000,
+		// Cheerio com conteúdo muito curto (página renderizada via JavaScript): tenta com Playwright
+		playwrightFallback: process.env.SCRAPER_PLAYWRIGHT_FALLBACK !== "false",
 		playwright: {
 			headless: process.env.PLAYWRIGHT_HEADLESS !== "false",
 			timeout: Number(process.env.PLAYWRIGHT_TIMEOUT) || 30000,
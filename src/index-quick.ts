@@ -12,25 +12,21 @@ async function main() {
   const pdfPath = path.resolve(__dirname, "./uploads/Arquitetura-Limpa.pdf");
 
   // Importa e modifica temporariamente para limitar chunks
-  const { RecursiveCharacterTextSplitter } = await import("@langchain/textsplitters");
-  const { DocumentLoaderFactory } = await import("./loaders/index.js");
+  const { DocumentLoaderFactory, detectDocumentType } = await import("./loaders/index.js");
+  const { resolveChunkingOptions, splitIntoChunks } = await import("./services/chunking.js");
   const { HuggingFaceTransformersEmbeddings } = await import("@langchain/community/embeddings/huggingface_transformers");
   const { config } = await import("./config.js");
   const { qdrantClient } = await import("./services/qdrant.js");
   const { v4: uuidv4 } = await import("uuid");
 
-  const textSplitter = new RecursiveCharacterTextSplitter({
-    chunkSize: 1000,
-    chunkOverlap: 200,
-  });
-
   const embeddings = new HuggingFaceTransformersEmbeddings({
     model: "Xenova/bge-small-en-v1.5",
   });
 
   const loader = DocumentLoaderFactory.createLoaderFromFileName(fileName);
   const documents = await loader.load(pdfPath);
-  const chunks = await textSplitter.splitDocuments(documents);
+  // Mesmo chunking padrão do pipeline completo (processDocument)
+  const chunks = await splitIntoChunks(documents, resolveChunkingOptions({}, detectDocumentType(fileName)));
 
   // LIMITA a 20 chunks
   const limitedChunks = chunks.slice(0, 20);
@@ -6,6 +6,15 @@ import { errorHandler } from "./middleware/errorHandler.js";
 import { queryRouter } from "./routes/query.js";
 import { ragRouter } from "./routes/rag.js";
 import { documentsRouter } from "./routes/document.js";
+import { crawlsRouter } from "./routes/crawl.js";
+import { feedsRouter } from "./routes/feed.js";
+import { trackedUrlsRouter } from "./routes/tracked-url.js";
+import { migrationsRouter } from "./routes/migration.js";
+import { failInterruptedCrawls } from "./services/crawl.js";
+import { startFeedScheduler } from "./services/feeds.js";
+import { startTrackedUrlScheduler } from "./services/tracked-urls.js";
+import { pruneFinishedJobs, resumeIngestionJobs } from "./services/jobs.js";
+import { failInterruptedMigrations } from "./services/migrations.js";
 import { initQdrantCollection } from "./services/qdrant.js";
 
 const app = express();
@@ -22,6 +31,10 @@ app.get("/health", (req, res) => {
 });
 
 app.use("/documents", documentsRouter);
+app.use("/crawls", crawlsRouter);
+app.use("/feeds", feedsRouter);
+app.use("/tracked-urls", trackedUrlsRouter);
+app.use("/migrations", migrationsRouter);
 app.use("/query", queryRouter);
 app.use("/rag", ragRouter);
 app.use(errorHandler);
@@ -35,6 +48,29 @@ async function start() {
 	try {
 		await initQdrantCollection();
 
+		const prunedJobs = pruneFinishedJobs();
+		if (prunedJobs > 0) {
+			console.log(`🧹 ${prunedJobs} job(s) de ingestão antigo(s) removido(s)`);
+		}
+
+		const resumedJobs = resumeIngestionJobs();
+		if (resumedJobs > 0) {
+			console.log(`⏩ ${resumedJobs} job(s) de ingestão retomado(s)`);
+		}
+
+		const interruptedCrawls = failInterruptedCrawls();
+		if (interruptedCrawls > 0) {
+			console.log(`⚠️ ${interruptedCrawls} crawl(s) interrompido(s) marcado(s) como falho(s)`);
+		}
+
+		const interruptedMigrations = failInterruptedMigrations();
+		if (interruptedMigrations > 0) {
+			console.log(`⚠️ ${interruptedMigrations} migração(ões) interrompida(s) marcada(s) como falha(s)`);
+		}
+
+		startFeedScheduler();
+		startTrackedUrlScheduler();
+
 		app.listen(config.server.port, () => {
 			console.log(`✔︎ Server is running on port ${config.server.port}`);
 		});
@@ -0,0 +1,70 @@
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { after, describe, it } from "node:test";
+import { CSVDocumentLoader } from "./csv.loader.js";
+
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), "csv-loader-"));
+after(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+function writeCsv(content: string): string {
+  const filePath = path.join(directory, `${Math.random().toString(36).slice(2)}.csv`);
+  fs.writeFileSync(filePath, content);
+  return filePath;
+}
+
+describe("CSVDocumentLoader", () => {
+  it("agrupa as linhas por rowsPerChunk repetindo o cabeçalho em cada grupo", async () => {
+    const filePath = writeCsv("nome,cidade\nAna,Recife\nBruno,Natal\nCarla,Belém\n");
+
+    const documents = await new CSVDocumentLoader({ rowsPerChunk: 2 }).load(filePath);
+
+    assert.equal(documents.length, 2);
+    assert.equal(documents[0]!.pageContent, "Colunas: nome, cidade\nnome: Ana | cidade: Recife\nnome: Bruno | cidade: Natal");
+    assert.equal(documents[1]!.pageContent, "Colunas: nome, cidade\nnome: Carla | cidade: Belém");
+    assert.deepEqual([documents[1]!.metadata.rowStart, documents[1]!.metadata.rowEnd], [3, 3]);
+  });
+
+  it("fecha o grupo antes de passar de maxChunkSize", async () => {
+    const filePath = writeCsv("texto\naaaaaaaaaaaaaaaaaaaa\nbbbbbbbbbbbbbbbbbbbb\n");
+
+    const documents = await new CSVDocumentLoader({ maxChunkSize: 50 }).load(filePath);
+
+    assert.equal(documents.length, 2);
+    assert.deepEqual(
+      documents.map((doc) => [doc.metadata.rowStart, doc.metadata.rowEnd]),
+      [[1, 1], [2, 2]]
+    );
+  });
+
+  it("mantém as colunas de metadata fora do texto, com valores distintos por grupo", async () => {
+    const filePath = writeCsv("produto,categoria\nCaneta,papelaria\nLápis,papelaria\nCaderno,\n");
+
+    const [document] = await new CSVDocumentLoader({
+      contentColumns: ["produto"],
+      metadataColumns: ["categoria"],
+    }).load(filePath);
+
+    assert.equal(document!.pageContent, "Colunas: produto\nproduto: Caneta\nproduto: Lápis\nproduto: Caderno");
+    assert.deepEqual(document!.metadata.fields, { categoria: ["papelaria"] });
+  });
+
+  it("pula linhas sem conteúdo nas colunas embedadas sem perder a numeração", async () => {
+    const filePath = writeCsv("nome,nota\nAna,1\n,2\nCarla,3\n");
+
+    const [document] = await new CSVDocumentLoader({ contentColumns: ["nome"] }).load(filePath);
+
+    assert.equal(document!.pageContent, "Colunas: nome\nnome: Ana\nnome: Carla");
+    assert.deepEqual([document!.metadata.rowStart, document!.metadata.rowEnd], [1, 3]);
+  });
+
+  it("rejeita colunas que não existem no cabeçalho", async () => {
+    const filePath = writeCsv("nome\nAna\n");
+
+    await assert.rejects(
+      new CSVDocumentLoader({ contentColumns: ["idade"] }).load(filePath),
+      /Colunas não encontradas no CSV: idade/
+    );
+  });
+});
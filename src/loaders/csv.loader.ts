@@ -0,0 +1,149 @@
+import { Document } from "@langchain/core/documents";
+import * as fs from "fs";
+import Papa from "papaparse";
+import { CSVLoaderOptions, IDocumentLoader } from "./types.js";
+
+const DEFAULT_ROWS_PER_CHUNK = 10;
+const DEFAULT_MAX_CHUNK_SIZE = 1000;
+
+type CSVRowGroup = Array<{ rowNumber: number; row: Record<string, string>; line: string }>;
+
+/**
+ * Loader especializado para arquivos CSV
+ * Agrupa linhas em documentos mantendo o contexto do cabeçalho em cada grupo
+ * Colunas podem ser embedadas (texto) ou mantidas apenas como metadata filtrável
+ */
+export class CSVDocumentLoader implements IDocumentLoader {
+  constructor(private readonly options: CSVLoaderOptions = {}) {}
+
+  async load(filePath: string): Promise<Document[]> {
+    try {
+      const raw = fs.readFileSync(filePath, "utf-8");
+
+      const parsed = Papa.parse<Record<string, string>>(raw, {
+        header: true,
+        skipEmptyLines: "greedy",
+        transformHeader: (header) => header.trim(),
+      });
+
+      const columns = (parsed.meta.fields || []).filter((col) => col.length > 0);
+
+      if (columns.length === 0) {
+        throw new Error("Nenhum cabeçalho encontrado no CSV.");
+      }
+
+      if (parsed.data.length === 0) {
+        throw new Error("Nenhuma linha encontrada no CSV.");
+      }
+
+      const contentColumns = this.resolveColumns(columns, this.options.contentColumns, columns);
+      const metadataColumns = this.resolveColumns(columns, this.options.metadataColumns, []);
+
+      if (contentColumns.length === 0) {
+        throw new Error("Nenhuma coluna selecionada para embedding.");
+      }
+
+      const rowsPerChunk = this.options.rowsPerChunk || DEFAULT_ROWS_PER_CHUNK;
+      const maxChunkSize = this.options.maxChunkSize || DEFAULT_MAX_CHUNK_SIZE;
+      const header = `Colunas: ${contentColumns.join(", ")}`;
+
+      const documents: Document[] = [];
+      let group: CSVRowGroup = [];
+      let groupSize = header.length;
+
+      const flush = () => {
+        if (group.length === 0) return;
+
+        documents.push(
+          this.buildDocument(filePath, header, group, columns, contentColumns, metadataColumns)
+        );
+        group = [];
+        groupSize = header.length;
+      };
+
+      parsed.data.forEach((row, index) => {
+        const line = this.formatRow(row, contentColumns);
+        if (line.length === 0) return;
+
+        // Linhas de dados numeradas a partir de 1 (sem contar o cabeçalho)
+        const rowNumber = index + 1;
+
+        if (group.length >= rowsPerChunk || (group.length > 0 && groupSize + line.length + 1 > maxChunkSize)) {
+          flush();
+        }
+
+        group.push({ rowNumber, row, line });
+        groupSize += line.length + 1;
+      });
+
+      flush();
+
+      if (documents.length === 0) {
+        throw new Error("Nenhum conteúdo encontrado nas colunas selecionadas do CSV.");
+      }
+
+      return documents;
+    } catch (error) {
+      throw new Error(
+        `Erro ao carregar CSV: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Valida as colunas solicitadas contra o cabeçalho do arquivo
+   */
+  private resolveColumns(columns: string[], requested: string[] | undefined, fallback: string[]): string[] {
+    if (!requested || requested.length === 0) return fallback;
+
+    const missing = requested.filter((col) => !columns.includes(col));
+    if (missing.length > 0) {
+      throw new Error(
+        `Colunas não encontradas no CSV: ${missing.join(", ")}. Disponíveis: ${columns.join(", ")}`
+      );
+    }
+
+    return requested;
+  }
+
+  private formatRow(row: Record<string, string>, contentColumns: string[]): string {
+    return contentColumns
+      .map((col) => {
+        const value = (row[col] ?? "").trim();
+        return value.length > 0 ? `${col}: ${value}` : null;
+      })
+      .filter((part): part is string => part !== null)
+      .join(" | ");
+  }
+
+  private buildDocument(
+    filePath: string,
+    header: string,
+    group: CSVRowGroup,
+    columns: string[],
+    contentColumns: string[],
+    metadataColumns: string[]
+  ): Document {
+    // Valores distintos das colunas de metadata, para filtros no Qdrant
+    const fields: Record<string, string[]> = {};
+    for (const col of metadataColumns) {
+      const values = new Set(
+        group.map(({ row }) => (row[col] ?? "").trim()).filter((value) => value.length > 0)
+      );
+      fields[col] = Array.from(values);
+    }
+
+    return new Document({
+      pageContent: [header, ...group.map(({ line }) => line)].join("\n"),
+      metadata: {
+        source: filePath,
+        type: "csv",
+        columns,
+        contentColumns,
+        rowStart: group[0]!.rowNumber,
+        rowEnd: group[group.length - 1]!.rowNumber,
+        fields,
+      },
+    });
+  }
+}
@@ -0,0 +1,84 @@
+import assert from "node:assert/strict";
+import AdmZip from "adm-zip";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { after, describe, it } from "node:test";
+import { DOCXDocumentLoader } from "./docx.loader.js";
+
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), "docx-loader-"));
+after(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+const W = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+
+function writeDocx(body: string, files: Record<string, string> = {}): string {
+  const zip = new AdmZip();
+  zip.addFile("word/document.xml", Buffer.from(`<w:document ${W}><w:body>${body}</w:body></w:document>`));
+  for (const [name, content] of Object.entries(files)) zip.addFile(name, Buffer.from(content));
+
+  const filePath = path.join(directory, `${Math.random().toString(36).slice(2)}.docx`);
+  zip.writeZip(filePath);
+  return filePath;
+}
+
+const paragraph = (text: string, properties = "") => `<w:p><w:pPr>${properties}</w:pPr><w:r><w:t>${text}</w:t></w:r></w:p>`;
+
+describe("DOCXDocumentLoader", () => {
+  it("usa o nome do estilo para o nível do heading, independente do styleId traduzido", async () => {
+    const styles = `<w:styles ${W}>
+      <w:style w:styleId="Ttulo1"><w:name w:val="heading 1"/></w:style>
+      <w:style w:styleId="Ttulo2"><w:name w:val="heading 2"/></w:style>
+    </w:styles>`;
+    const filePath = writeDocx(
+      paragraph("Manual", '<w:pStyle w:val="Ttulo1"/>') +
+        paragraph("Introdução do manual.") +
+        paragraph("Instalação", '<w:pStyle w:val="Ttulo2"/>') +
+        paragraph("Passos de instalação."),
+      { "word/styles.xml": styles }
+    );
+
+    const documents = await new DOCXDocumentLoader().load(filePath);
+
+    assert.deepEqual(documents.map((doc) => doc.metadata.breadcrumb), ["Manual", "Manual > Instalação"]);
+    assert.equal(documents[1]!.pageContent, "## Instalação\n\nPassos de instalação.");
+  });
+
+  it("converte listas numeradas com a profundidade e tabelas em Markdown", async () => {
+    const item = (text: string, level: number) =>
+      paragraph(text, `<w:numPr><w:ilvl w:val="${level}"/><w:numId w:val="1"/></w:numPr>`);
+    const cell = (text: string) => `<w:tc>${paragraph(text)}</w:tc>`;
+    const filePath = writeDocx(
+      item("Primeiro", 0) +
+        item("Detalhe", 1) +
+        `<w:tbl><w:tr>${cell("Nome")}${cell("Valor")}</w:tr><w:tr>${cell("a|b")}${cell("1")}</w:tr></w:tbl>`
+    );
+
+    const [document] = await new DOCXDocumentLoader().load(filePath);
+
+    assert.equal(
+      document!.pageContent,
+      "- Primeiro\n\n  - Detalhe\n\n| Nome | Valor |\n| --- | --- |\n| a\\|b | 1 |"
+    );
+  });
+
+  it("lê título e autor de docProps/core.xml", async () => {
+    const core = `<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/">
+      <dc:title>Relatório</dc:title><dc:creator>Ana</dc:creator>
+    </cp:coreProperties>`;
+    const filePath = writeDocx(paragraph("Conteúdo do relatório."), { "docProps/core.xml": core });
+
+    const [document] = await new DOCXDocumentLoader().load(filePath);
+
+    assert.equal(document!.metadata.title, "Relatório");
+    assert.equal(document!.metadata.author, "Ana");
+  });
+
+  it("rejeita pacotes sem word/document.xml", async () => {
+    const zip = new AdmZip();
+    zip.addFile("outro.xml", Buffer.from("<x/>"));
+    const filePath = path.join(directory, "invalido.docx");
+    zip.writeZip(filePath);
+
+    await assert.rejects(new DOCXDocumentLoader().load(filePath), /word\/document\.xml não encontrado/);
+  });
+});
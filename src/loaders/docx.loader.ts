@@ -0,0 +1,192 @@
+import { Document } from "@langchain/core/documents";
+import AdmZip from "adm-zip";
+import * as cheerio from "cheerio";
+import type { AnyNode, Element } from "domhandler";
+import { IDocumentLoader } from "./types.js";
+import { markdownToDocuments } from "./markdown.loader.js";
+import { formatMarkdownTable } from "../utils/markdown.js";
+
+/**
+ * Loader especializado para arquivos DOCX (Word)
+ * Lê o XML do pacote diretamente e converte o corpo em Markdown na ordem de leitura:
+ * headings viram #, listas viram -, tabelas viram tabelas Markdown
+ */
+export class DOCXDocumentLoader implements IDocumentLoader {
+  async load(filePath: string): Promise<Document[]> {
+    try {
+      const zip = new AdmZip(filePath);
+
+      const documentXml = zip.readAsText("word/document.xml");
+      if (!documentXml) {
+        throw new Error("Arquivo DOCX inválido: word/document.xml não encontrado.");
+      }
+
+      const headingLevels = this.readHeadingStyles(zip.readAsText("word/styles.xml"));
+      const $ = cheerio.load(documentXml, { xml: true });
+
+      const blocks: string[] = [];
+      const body = $("w\\:body").get(0);
+      if (body) {
+        this.walkBlocks($, body.children, headingLevels, blocks);
+      }
+
+      const properties = this.readCoreProperties(zip.readAsText("docProps/core.xml"));
+
+      return markdownToDocuments(blocks.join("\n\n"), {
+        source: filePath,
+        type: "docx",
+        ...properties,
+      });
+    } catch (error) {
+      throw new Error(
+        `Erro ao carregar DOCX: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Mapeia styleId → nível de heading a partir de styles.xml
+   * Usa o nome do estilo ("heading 1", "Title") ou o outlineLvl, já que o
+   * styleId muda conforme o idioma do Word (ex: "Ttulo1")
+   */
+  private readHeadingStyles(stylesXml: string): Map<string, number> {
+    const levels = new Map<string, number>();
+    if (!stylesXml) return levels;
+
+    const $ = cheerio.load(stylesXml, { xml: true });
+    $("w\\:style").each((_, style) => {
+      const styleId = $(style).attr("w:styleId");
+      if (!styleId) return;
+
+      const name = ($(style).children("w\\:name").attr("w:val") || "").toLowerCase();
+      const outlineLevel = $(style).find("w\\:pPr > w\\:outlineLvl").attr("w:val");
+      const headingMatch = name.match(/^heading\s*(\d)$/);
+
+      if (name === "title") {
+        levels.set(styleId, 1);
+      } else if (headingMatch) {
+        levels.set(styleId, Number(headingMatch[1]));
+      } else if (outlineLevel !== undefined && Number(outlineLevel) < 6) {
+        levels.set(styleId, Number(outlineLevel) + 1);
+      }
+    });
+
+    return levels;
+  }
+
+  private readCoreProperties(coreXml: string): Record<string, string> {
+    const $ = cheerio.load(coreXml || "<cp:coreProperties/>", { xml: true });
+    const read = (selector: string) => $(selector).first().text().trim();
+
+    return {
+      title: read("dc\\:title"),
+      author: read("dc\\:creator"),
+      subject: read("dc\\:subject"),
+      keywords: read("cp\\:keywords"),
+      lastModifiedBy: read("cp\\:lastModifiedBy"),
+      createdAt: read("dcterms\\:created"),
+      modifiedAt: read("dcterms\\:modified"),
+    };
+  }
+
+  /**
+   * Percorre os blocos do corpo (parágrafos, tabelas e content controls)
+   */
+  private walkBlocks(
+    $: cheerio.CheerioAPI,
+    nodes: AnyNode[],
+    headingLevels: Map<string, number>,
+    blocks: string[]
+  ): void {
+    for (const node of nodes) {
+      if (node.type !== "tag") continue;
+
+      switch (node.name) {
+        case "w:p": {
+          const block = this.formatParagraph($, node, headingLevels);
+          if (block) blocks.push(block);
+          break;
+        }
+        case "w:tbl": {
+          const table = this.formatTable($, node);
+          if (table) blocks.push(table);
+          break;
+        }
+        case "w:sdt":
+        case "w:sdtContent":
+        case "w:customXml":
+          this.walkBlocks($, node.children, headingLevels, blocks);
+          break;
+      }
+    }
+  }
+
+  private formatParagraph(
+    $: cheerio.CheerioAPI,
+    paragraph: Element,
+    headingLevels: Map<string, number>
+  ): string | null {
+    const text = this.paragraphText($, paragraph).trim();
+    if (text.length === 0) return null;
+
+    const properties = $(paragraph).children("w\\:pPr");
+    const styleId = properties.children("w\\:pStyle").attr("w:val");
+    const outlineLevel = properties.children("w\\:outlineLvl").attr("w:val");
+
+    const headingLevel =
+      (styleId && headingLevels.get(styleId)) ||
+      (outlineLevel !== undefined && Number(outlineLevel) < 6 ? Number(outlineLevel) + 1 : undefined);
+
+    if (headingLevel) {
+      return `${"#".repeat(headingLevel)} ${text.replace(/\s+/g, " ")}`;
+    }
+
+    const numbering = properties.children("w\\:numPr");
+    if (numbering.length > 0) {
+      const depth = Number(numbering.children("w\\:ilvl").attr("w:val") || 0);
+      return `${"  ".repeat(depth)}- ${text}`;
+    }
+
+    return text;
+  }
+
+  /**
+   * Extrai o texto dos runs de um parágrafo (inclui hyperlinks e campos)
+   */
+  private paragraphText($: cheerio.CheerioAPI, paragraph: Element): string {
+    return $(paragraph)
+      .find("w\\:t, w\\:tab, w\\:br, w\\:cr")
+      .map((_, el) => {
+        switch (el.name) {
+          case "w:t":
+            return $(el).text();
+          case "w:tab":
+            return "\t";
+          default:
+            return "\n";
+        }
+      })
+      .get()
+      .join("");
+  }
+
+  private formatTable($: cheerio.CheerioAPI, table: Element): string {
+    const rows = $(table)
+      .children("w\\:tr")
+      .map((_, row) => [
+        $(row)
+          .children("w\\:tc")
+          .map((_, cell) =>
+            $(cell)
+              .find("w\\:p")
+              .map((_, paragraph) => this.paragraphText($, paragraph))
+              .get()
+              .join(" ")
+          )
+          .get(),
+      ])
+      .get() as string[][];
+
+    return formatMarkdownTable(rows);
+  }
+}
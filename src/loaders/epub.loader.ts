@@ -1,7 +1,27 @@
 import { Document } from "@langchain/core/documents";
 import { EPubLoader } from "@langchain/community/document_loaders/fs/epub";
+import type { EPub } from "epub2";
 import { IDocumentLoader } from "./types.js";
 
+/**
+ * EPubLoader do Langchain que também captura a metadata do livro
+ * (o loader nativo só preserva source e o título do capítulo)
+ */
+class EPubWithMetadataLoader extends EPubLoader {
+  bookMetadata: Record<string, string> = {};
+
+  protected override async parse(epub: EPub) {
+    this.bookMetadata = {
+      title: epub.metadata.title || "",
+      author: epub.metadata.creator || "",
+      publisher: epub.metadata.publisher || "",
+      language: epub.metadata.language || "",
+    };
+
+    return super.parse(epub);
+  }
+}
+
 /**
  * Loader especializado para arquivos EPUB
  * Usa o EPubLoader nativo do Langchain
@@ -11,7 +31,7 @@ export class EPUBDocumentLoader implements IDocumentLoader {
   async load(filePath: string): Promise<Document[]> {
     try {
       // Usa o loader nativo do Langchain
-      const loader = new EPubLoader(filePath, {
+      const loader = new EPubWithMetadataLoader(filePath, {
         splitChapters: true
       });
 
@@ -21,7 +41,21 @@ export class EPUBDocumentLoader implements IDocumentLoader {
         throw new Error("Nenhum conteúdo encontrado no EPUB.");
       }
 
-      return documents.filter((doc) => doc.pageContent.trim().length > 0);
+      // Posição (1, 2, 3...) na ordem de leitura, ignorando os itens vazios; capa, sumário e divisórias
+      // de partes também contam, então não é o número do capítulo impresso no livro
+      return documents
+        .filter((doc) => doc.pageContent.trim().length > 0)
+        .map(
+          (doc, index) =>
+            new Document({
+              pageContent: doc.pageContent,
+              metadata: {
+                ...doc.metadata,
+                ...loader.bookMetadata,
+                sectionIndex: index + 1,
+              },
+            })
+        );
     } catch (error) {
       throw new Error(
         `Erro ao carregar EPUB: ${error instanceof Error ? error.message : String(error)}`
@@ -1,7 +1,13 @@
+import { CSVDocumentLoader } from "./csv.loader.js";
+import { DOCXDocumentLoader } from "./docx.loader.js";
 import { EPUBDocumentLoader } from "./epub.loader.js";
+import { HTMLDocumentLoader } from "./html.loader.js";
+import { MarkdownDocumentLoader } from "./markdown.loader.js";
+import { ODTDocumentLoader } from "./odt.loader.js";
 import { PDFDocumentLoader } from "./pdf.loader.js";
+import { TextDocumentLoader } from "./text.loader.js";
 import { URLDocumentLoader } from "./url.loader.js";
-import { DocumentType, IDocumentLoader, detectDocumentType } from "./types.js";
+import { DocumentType, IDocumentLoader, LoaderOptions, detectDocumentType } from "./types.js";
 
 /**
  * Factory para criar o loader apropriado baseado no tipo de documento
@@ -9,17 +15,30 @@ import { DocumentType, IDocumentLoader, detectDocumentType } from "./types.js";
 export class DocumentLoaderFactory {
   /**
    * Cria um loader apropriado para o tipo de documento
-   * @param type Tipo do documento (PDF, EPUB, URL)
+   * @param type Tipo do documento (PDF, EPUB, CSV, Markdown, HTML, TXT, DOCX, ODT, URL)
+   * @param options Opções específicas do loader
    * @returns Instância do loader especializado
    */
-  static createLoader(type: DocumentType): IDocumentLoader {
+  static createLoader(type: DocumentType, options: LoaderOptions = {}): IDocumentLoader {
     switch (type) {
       case DocumentType.PDF:
         return new PDFDocumentLoader();
       case DocumentType.EPUB:
         return new EPUBDocumentLoader();
       case DocumentType.URL:
-        return new URLDocumentLoader();
+        return new URLDocumentLoader(options.url);
+      case DocumentType.CSV:
+        return new CSVDocumentLoader(options.csv);
+      case DocumentType.MARKDOWN:
+        return new MarkdownDocumentLoader();
+      case DocumentType.HTML:
+        return new HTMLDocumentLoader();
+      case DocumentType.TEXT:
+        return new TextDocumentLoader();
+      case DocumentType.DOCX:
+        return new DOCXDocumentLoader();
+      case DocumentType.ODT:
+        return new ODTDocumentLoader();
       default:
         throw new Error(`Tipo de documento não suportado: ${type}`);
     }
@@ -28,10 +47,11 @@ export class DocumentLoaderFactory {
   /**
    * Cria um loader baseado no nome do arquivo
    * @param fileName Nome do arquivo (com extensão)
+   * @param options Opções específicas do loader
    * @returns Instância do loader especializado
    */
-  static createLoaderFromFileName(fileName: string): IDocumentLoader {
+  static createLoaderFromFileName(fileName: string, options: LoaderOptions = {}): IDocumentLoader {
     const type = detectDocumentType(fileName);
-    return this.createLoader(type);
+    return this.createLoader(type, options);
   }
 }
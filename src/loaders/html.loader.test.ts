@@ -0,0 +1,52 @@
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { after, describe, it } from "node:test";
+import { HTMLDocumentLoader } from "./html.loader.js";
+
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), "html-loader-"));
+after(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+async function loadHtml(body: string) {
+  const filePath = path.join(directory, `${Math.random().toString(36).slice(2)}.html`);
+  fs.writeFileSync(filePath, `<html><head><title>Página</title></head><body>${body}</body></html>`);
+  return new HTMLDocumentLoader().load(filePath);
+}
+
+describe("HTMLDocumentLoader", () => {
+  it("remove o cabeçalho do site mas mantém o do artigo", async () => {
+    const documents = await loadHtml(
+      "<header><h1>Meu Blog</h1></header><article><header><h1>Título do post</h1></header><p>Corpo do post.</p></article>"
+    );
+
+    assert.equal(documents.length, 1);
+    assert.deepEqual(documents[0]!.metadata.headings, ["Título do post"]);
+    assert.doesNotMatch(documents[0]!.pageContent, /Meu Blog/);
+  });
+
+  it("mantém links, código e ênfase no mesmo parágrafo", async () => {
+    const [document] = await loadHtml(
+      '<h2>Uso</h2><p>Chame <code>run()</code> como no <a href="https://example.com/guia">guia</a>, <em>sempre</em> antes.</p>'
+    );
+
+    assert.equal(document!.pageContent, "## Uso\n\nChame `run()` como no [guia](https://example.com/guia), *sempre* antes.");
+  });
+
+  it("converte tabelas em tabelas Markdown", async () => {
+    const [document] = await loadHtml(
+      "<h2>Preços</h2><table><tr><th>Plano</th><th>Valor</th></tr><tr><td>Básico</td><td>10</td></tr></table>"
+    );
+
+    assert.equal(document!.pageContent, "## Preços\n\n| Plano | Valor |\n| --- | --- |\n| Básico | 10 |");
+  });
+
+  it("usa o <title> como título e o breadcrumb dos headings", async () => {
+    const documents = await loadHtml("<h1>Guia</h1><p>Intro.</p><h2>Instalação</h2><p>Passos.</p>");
+
+    assert.deepEqual(
+      documents.map((doc) => [doc.metadata.title, doc.metadata.breadcrumb]),
+      [["Página", "Guia"], ["Página", "Guia > Instalação"]]
+    );
+  });
+});
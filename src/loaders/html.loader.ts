@@ -0,0 +1,45 @@
+import { Document } from "@langchain/core/documents";
+import * as cheerio from "cheerio";
+import * as fs from "fs";
+import { IDocumentLoader } from "./types.js";
+import { markdownToDocuments } from "./markdown.loader.js";
+import { htmlToMarkdown } from "../utils/html-to-markdown.js";
+
+/**
+ * Elementos que não fazem parte do conteúdo do documento
+ */
+const UNWANTED_SELECTORS = ["script", "style", "noscript", "template", "nav", "footer"];
+
+/**
+ * Loader especializado para arquivos HTML exportados
+ * Converte o DOM em Markdown (headings, listas, tabelas, código e links) e divide pela hierarquia de headings
+ */
+export class HTMLDocumentLoader implements IDocumentLoader {
+  async load(filePath: string): Promise<Document[]> {
+    try {
+      const html = fs.readFileSync(filePath, "utf-8");
+      const $ = cheerio.load(html);
+
+      const title = $("title").first().text().trim();
+
+      UNWANTED_SELECTORS.forEach((selector) => {
+        $(selector).remove();
+      });
+
+      // Cabeçalho do site sai; o de um artigo (<article><header><h1>) traz o título e fica
+      $("header")
+        .filter((_, element) => $(element).parents("article, main").length === 0)
+        .remove();
+
+      return markdownToDocuments(htmlToMarkdown($.html()), {
+        source: filePath,
+        type: "html",
+        title,
+      });
+    } catch (error) {
+      throw new Error(
+        `Erro ao carregar HTML: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+}
@@ -1,11 +1,17 @@
 /**
  * Módulo de Document Loaders
- * Suporta PDF, EPUB e URLs com parsing especializado
+ * Suporta PDF, EPUB, CSV, Markdown, HTML, texto puro, DOCX, ODT e URLs com parsing especializado
  */
 
 export { DocumentLoaderFactory } from "./factory.js";
 export { PDFDocumentLoader } from "./pdf.loader.js";
 export { EPUBDocumentLoader } from "./epub.loader.js";
-export { URLDocumentLoader } from "./url.loader.js";
+export { URLDocumentLoader, scrapedContentToDocuments } from "./url.loader.js";
+export { CSVDocumentLoader } from "./csv.loader.js";
+export { MarkdownDocumentLoader } from "./markdown.loader.js";
+export { HTMLDocumentLoader } from "./html.loader.js";
+export { TextDocumentLoader } from "./text.loader.js";
+export { DOCXDocumentLoader } from "./docx.loader.js";
+export { ODTDocumentLoader } from "./odt.loader.js";
 export { DocumentType, detectDocumentType } from "./types.js";
-export type { IDocumentLoader, ParsedDocument } from "./types.js";
+export type { IDocumentLoader, ParsedDocument, CSVLoaderOptions, URLLoaderOptions, LoaderOptions } from "./types.js";
@@ -0,0 +1,55 @@
+import { Document } from "@langchain/core/documents";
+import * as fs from "fs";
+import { IDocumentLoader } from "./types.js";
+import { buildBreadcrumb, splitMarkdownByHeadings } from "../utils/markdown.js";
+
+/**
+ * Loader especializado para arquivos Markdown
+ * Retorna um documento por seção, seguindo a hierarquia de headings
+ */
+export class MarkdownDocumentLoader implements IDocumentLoader {
+  async load(filePath: string): Promise<Document[]> {
+    try {
+      const markdown = fs.readFileSync(filePath, "utf-8");
+      return markdownToDocuments(markdown, { source: filePath, type: "markdown" });
+    } catch (error) {
+      throw new Error(
+        `Erro ao carregar Markdown: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+}
+
+/**
+ * Converte Markdown em documentos LangChain, um por seção de heading
+ * Compartilhado com o loader de HTML, que gera Markdown a partir do DOM
+ *
+ * @param markdown - Texto Markdown
+ * @param metadata - Metadata base aplicada a todos os documentos
+ */
+export function markdownToDocuments(
+  markdown: string,
+  metadata: Record<string, any>
+): Document[] {
+  const sections = splitMarkdownByHeadings(markdown);
+
+  if (sections.length === 0) {
+    throw new Error("Nenhum conteúdo encontrado no documento.");
+  }
+
+  // Primeiro heading de nível mais alto como título, se não houver outro
+  const title = metadata.title || sections[0]?.headings[0] || "";
+
+  return sections.map(
+    (section) =>
+      new Document({
+        pageContent: section.content,
+        metadata: {
+          ...metadata,
+          title,
+          headings: section.headings,
+          breadcrumb: buildBreadcrumb(section.headings),
+        },
+      })
+  );
+}
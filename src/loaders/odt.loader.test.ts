@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import AdmZip from "adm-zip";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { after, describe, it } from "node:test";
+import { ODTDocumentLoader } from "./odt.loader.js";
+
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), "odt-loader-"));
+after(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+const NAMESPACES = [
+  'xmlns:office="urn:oasis:names:tc:opendocument:xmlns:office:1.0"',
+  'xmlns:text="urn:oasis:names:tc:opendocument:xmlns:text:1.0"',
+  'xmlns:table="urn:oasis:names:tc:opendocument:xmlns:table:1.0"',
+].join(" ");
+
+function writeOdt(body: string, meta?: string): string {
+  const zip = new AdmZip();
+  zip.addFile(
+    "content.xml",
+    Buffer.from(`<office:document-content ${NAMESPACES}><office:body><office:text>${body}</office:text></office:body></office:document-content>`)
+  );
+  if (meta) zip.addFile("meta.xml", Buffer.from(meta));
+
+  const filePath = path.join(directory, `${Math.random().toString(36).slice(2)}.odt`);
+  zip.writeZip(filePath);
+  return filePath;
+}
+
+describe("ODTDocumentLoader", () => {
+  it("divide pelos headings com o nível do outline", async () => {
+    const filePath = writeOdt(
+      '<text:h text:outline-level="1">Guia</text:h><text:p>Visão geral.</text:p>' +
+        '<text:section><text:h text:outline-level="2">Uso</text:h><text:p>Detalhes de uso.</text:p></text:section>'
+    );
+
+    const documents = await new ODTDocumentLoader().load(filePath);
+
+    assert.deepEqual(documents.map((doc) => doc.metadata.breadcrumb), ["Guia", "Guia > Uso"]);
+  });
+
+  it("trata espaços repetidos, notas e listas aninhadas", async () => {
+    const filePath = writeOdt(
+      "<text:p>a<text:s text:c=\"3\"/>b<text:note><text:note-body><text:p>nota</text:p></text:note-body></text:note></text:p>" +
+        "<text:list><text:list-item><text:p>Item</text:p><text:list><text:list-item><text:p>Subitem</text:p></text:list-item></text:list></text:list-item></text:list>"
+    );
+
+    const [document] = await new ODTDocumentLoader().load(filePath);
+
+    assert.equal(document!.pageContent, "a   b\n\n- Item\n\n  - Subitem");
+  });
+
+  it("converte tabelas em Markdown", async () => {
+    const cell = (text: string) => `<table:table-cell><text:p>${text}</text:p></table:table-cell>`;
+    const filePath = writeOdt(
+      `<table:table><table:table-row>${cell("Nome")}${cell("Valor")}</table:table-row><table:table-row>${cell("x")}${cell("2")}</table:table-row></table:table>`
+    );
+
+    const [document] = await new ODTDocumentLoader().load(filePath);
+
+    assert.equal(document!.pageContent, "| Nome | Valor |\n| --- | --- |\n| x | 2 |");
+  });
+
+  it("lê título e autor de meta.xml", async () => {
+    const meta = `<office:document-meta ${NAMESPACES} xmlns:meta="urn:oasis:names:tc:opendocument:xmlns:meta:1.0" xmlns:dc="http://purl.org/dc/elements/1.1/">
+      <office:meta><dc:title>Ata</dc:title><meta:initial-creator>Bruno</meta:initial-creator></office:meta>
+    </office:document-meta>`;
+    const filePath = writeOdt("<text:p>Conteúdo da ata.</text:p>", meta);
+
+    const [document] = await new ODTDocumentLoader().load(filePath);
+
+    assert.equal(document!.metadata.title, "Ata");
+    assert.equal(document!.metadata.author, "Bruno");
+  });
+});
@@ -0,0 +1,153 @@
+import { Document } from "@langchain/core/documents";
+import AdmZip from "adm-zip";
+import * as cheerio from "cheerio";
+import type { AnyNode, Element } from "domhandler";
+import { IDocumentLoader } from "./types.js";
+import { markdownToDocuments } from "./markdown.loader.js";
+import { formatMarkdownTable } from "../utils/markdown.js";
+
+/**
+ * Loader especializado para arquivos ODT (OpenDocument Text)
+ * Lê content.xml e meta.xml do pacote e converte o corpo em Markdown na ordem de leitura
+ */
+export class ODTDocumentLoader implements IDocumentLoader {
+  async load(filePath: string): Promise<Document[]> {
+    try {
+      const zip = new AdmZip(filePath);
+
+      const contentXml = zip.readAsText("content.xml");
+      if (!contentXml) {
+        throw new Error("Arquivo ODT inválido: content.xml não encontrado.");
+      }
+
+      const $ = cheerio.load(contentXml, { xml: true });
+
+      const blocks: string[] = [];
+      const body = $("office\\:body > office\\:text").get(0);
+      if (body) {
+        this.walkBlocks($, body.children, blocks, 0);
+      }
+
+      const properties = this.readMetadata(zip.readAsText("meta.xml"));
+
+      return markdownToDocuments(blocks.join("\n\n"), {
+        source: filePath,
+        type: "odt",
+        ...properties,
+      });
+    } catch (error) {
+      throw new Error(
+        `Erro ao carregar ODT: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  private readMetadata(metaXml: string): Record<string, string> {
+    const $ = cheerio.load(metaXml || "<office:document-meta/>", { xml: true });
+    const read = (selector: string) => $(selector).first().text().trim();
+
+    return {
+      title: read("dc\\:title"),
+      author: read("meta\\:initial-creator") || read("dc\\:creator"),
+      subject: read("dc\\:subject"),
+      keywords: read("meta\\:keyword"),
+      lastModifiedBy: read("dc\\:creator"),
+      createdAt: read("meta\\:creation-date"),
+      modifiedAt: read("dc\\:date"),
+    };
+  }
+
+  /**
+   * Percorre os blocos do corpo (headings, parágrafos, listas, tabelas e seções)
+   */
+  private walkBlocks($: cheerio.CheerioAPI, nodes: AnyNode[], blocks: string[], listDepth: number): void {
+    for (const node of nodes) {
+      if (node.type !== "tag") continue;
+
+      switch (node.name) {
+        case "text:h": {
+          const text = this.inlineText(node).replace(/\s+/g, " ").trim();
+          const level = Math.min(Number($(node).attr("text:outline-level") || 1), 6);
+          if (text) blocks.push(`${"#".repeat(level)} ${text}`);
+          break;
+        }
+        case "text:p": {
+          const text = this.inlineText(node).trim();
+          if (text) blocks.push(text);
+          break;
+        }
+        case "text:list":
+          this.walkList($, node, blocks, listDepth);
+          break;
+        case "table:table": {
+          const table = this.formatTable($, node);
+          if (table) blocks.push(table);
+          break;
+        }
+        case "text:section":
+          this.walkBlocks($, node.children, blocks, listDepth);
+          break;
+      }
+    }
+  }
+
+  private walkList($: cheerio.CheerioAPI, list: Element, blocks: string[], depth: number): void {
+    $(list)
+      .children("text\\:list-item, text\\:list-header")
+      .each((_, item) => {
+        for (const child of item.children) {
+          if (child.type !== "tag") continue;
+
+          if (child.name === "text:list") {
+            this.walkList($, child, blocks, depth + 1);
+          } else if (child.name === "text:p" || child.name === "text:h") {
+            const text = this.inlineText(child).trim();
+            if (text) blocks.push(`${"  ".repeat(depth)}- ${text}`);
+          }
+        }
+      });
+  }
+
+  /**
+   * Extrai texto inline tratando os elementos de espaçamento do ODF
+   * (text:s = espaços repetidos, text:tab, text:line-break) e ignorando notas/anotações
+   */
+  private inlineText(node: AnyNode): string {
+    if (node.type === "text") return node.data;
+    if (node.type !== "tag") return "";
+
+    switch (node.name) {
+      case "text:s":
+        return " ".repeat(Number(node.attribs["text:c"] || 1));
+      case "text:tab":
+        return "\t";
+      case "text:line-break":
+        return "\n";
+      case "office:annotation":
+      case "text:note":
+        return "";
+      default:
+        return node.children.map((child) => this.inlineText(child)).join("");
+    }
+  }
+
+  private formatTable($: cheerio.CheerioAPI, table: Element): string {
+    const rows = $(table)
+      .find("table\\:table-row")
+      .map((_, row) => [
+        $(row)
+          .children("table\\:table-cell")
+          .map((_, cell) =>
+            $(cell)
+              .children("text\\:p, text\\:h")
+              .map((_, paragraph) => this.inlineText(paragraph))
+              .get()
+              .join(" ")
+          )
+          .get(),
+      ])
+      .get() as string[][];
+
+    return formatMarkdownTable(rows);
+  }
+}
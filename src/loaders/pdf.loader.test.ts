@@ -0,0 +1,82 @@
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { after, describe, it } from "node:test";
+
+// O config exige a chave do LLM, mas estes testes não chamam o modelo
+process.env.DEEPSEEK_API_KEY ??= "test";
+const { PDFDocumentLoader } = await import("./pdf.loader.js");
+const { resolveChunkingOptions, splitIntoChunks } = await import("../services/chunking.js");
+const { DocumentType } = await import("./types.js");
+
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), "pdf-loader-"));
+after(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+/**
+ * PDF mínimo com uma linha de texto (Helvetica, ASCII) por página
+ */
+function writePdf(pages: string[]): string {
+  const pageIds = pages.map((_, i) => 3 + i * 2);
+  const fontId = 3 + pages.length * 2;
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`,
+  ];
+
+  pages.forEach((text, i) => {
+    const stream = `BT /F1 12 Tf 72 720 Td (${text}) Tj ET`;
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents ${pageIds[i]! + 1} 0 R /Resources << /Font << /F1 ${fontId} 0 R >> >> >>`
+    );
+    objects.push(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+  });
+  objects.push("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>");
+
+  let pdf = "%PDF-1.4\n";
+  const offsets = objects.map((body, i) => {
+    const offset = pdf.length;
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  const filePath = path.join(directory, `${pages.length}-pages.pdf`);
+  fs.writeFileSync(filePath, pdf, "latin1");
+  return filePath;
+}
+
+describe("PDFDocumentLoader", () => {
+  const pages = [
+    "Primeira pagina: o capitulo comeca com uma frase longa que continua",
+    "na segunda pagina, onde o texto termina depois da quebra de pagina",
+  ];
+
+  it("gera um documento por página com o número da página", async () => {
+    const documents = await new PDFDocumentLoader().load(writePdf(pages));
+
+    assert.deepEqual(
+      documents.map((doc) => [doc.pageContent, doc.metadata.loc.pageNumber]),
+      [[pages[0], 1], [pages[1], 2]]
+    );
+    assert.equal(documents[0]!.metadata.totalPages, 2);
+  });
+
+  it("nenhum chunk atravessa a quebra de página, então a página citada é exata", async () => {
+    const documents = await new PDFDocumentLoader().load(writePdf(pages));
+
+    for (const strategy of ["character", "sentence", "markdown"] as const) {
+      const options = resolveChunkingOptions({ strategy, chunkSize: 1000 }, DocumentType.PDF);
+      const chunks = await splitIntoChunks(documents, options);
+
+      assert.deepEqual(
+        chunks.map((chunk) => [chunk.pageContent, chunk.metadata.loc.pageNumber]),
+        [[pages[0], 1], [pages[1], 2]],
+        strategy
+      );
+    }
+  });
+});
@@ -5,6 +5,7 @@ import { IDocumentLoader } from "./types.js";
 /**
  * Loader especializado para arquivos PDF
  * Usa pdf-parse v2 diretamente (contorna bug do LangChain)
+ * Retorna um documento por página, preservando o número da página
  */
 export class PDFDocumentLoader implements IDocumentLoader {
   async load(filePath: string): Promise<Document[]> {
@@ -25,27 +26,34 @@ export class PDFDocumentLoader implements IDocumentLoader {
         parser.getInfo()
       ]);
 
-      const textContent = textResult.text || "";
+      // Uma página por documento para que cada chunk carregue o número da página de origem
+      const pages = textResult.pages.filter((page) => page.text && page.text.trim().length > 0);
 
-      if (!textContent || textContent.trim().length === 0) {
+      if (pages.length === 0) {
         throw new Error("Nenhum texto encontrado no PDF.");
       }
 
-      // Retorna no formato LangChain Document
-      return [
-        new Document({
-          pageContent: textContent,
-          metadata: {
-            source: filePath,
-            totalPages: infoResult.total || 0,
-            title: infoResult.info?.Title || "",
-            author: infoResult.info?.Author || "",
-            subject: infoResult.info?.Subject || "",
-            creator: infoResult.info?.Creator || "",
-            pdfVersion: infoResult.info?.PDFFormatVersion || "",
-          },
-        }),
-      ];
+      const metadata = {
+        source: filePath,
+        totalPages: infoResult.total || 0,
+        title: infoResult.info?.Title || "",
+        author: infoResult.info?.Author || "",
+        subject: infoResult.info?.Subject || "",
+        creator: infoResult.info?.Creator || "",
+        pdfVersion: infoResult.info?.PDFFormatVersion || "",
+      };
+
+      // Retorna no formato LangChain Document (loc.pageNumber segue a convenção do PDFLoader)
+      return pages.map(
+        (page) =>
+          new Document({
+            pageContent: page.text,
+            metadata: {
+              ...metadata,
+              loc: { pageNumber: page.num },
+            },
+          })
+      );
     } catch (error) {
       throw new Error(
         `Erro ao carregar PDF: ${error instanceof Error ? error.message : String(error)}`
@@ -0,0 +1,33 @@
+import { Document } from "@langchain/core/documents";
+import * as fs from "fs";
+import { IDocumentLoader } from "./types.js";
+
+/**
+ * Loader especializado para arquivos de texto puro (.txt)
+ * Sem estrutura para preservar: o texto inteiro vai para o splitter genérico
+ */
+export class TextDocumentLoader implements IDocumentLoader {
+  async load(filePath: string): Promise<Document[]> {
+    try {
+      const text = fs.readFileSync(filePath, "utf-8");
+
+      if (text.trim().length === 0) {
+        throw new Error("Nenhum texto encontrado no arquivo.");
+      }
+
+      return [
+        new Document({
+          pageContent: text,
+          metadata: {
+            source: filePath,
+            type: "text",
+          },
+        }),
+      ];
+    } catch (error) {
+      throw new Error(
+        `Erro ao carregar texto: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+}
@@ -1,4 +1,5 @@
 import { Document } from "@langchain/core/documents";
+import type { ExtractionFormat, PlaywrightOptions, ScraperEngine } from "../utils/scraper.js";
 
 /**
  * Tipos de documentos suportados pelo sistema
@@ -7,6 +8,12 @@ export enum DocumentType {
   PDF = "pdf",
   EPUB = "epub",
   URL = "url",
+  CSV = "csv",
+  MARKDOWN = "markdown",
+  HTML = "html",
+  TEXT = "text",
+  DOCX = "docx",
+  ODT = "odt",
 }
 
 /**
@@ -17,6 +24,40 @@ export interface ParsedDocument {
   metadata: Record<string, any>;
 }
 
+/**
+ * Opções do loader de CSV
+ */
+export interface CSVLoaderOptions {
+  /** Colunas incluídas no texto embedado (padrão: todas) */
+  contentColumns?: string[] | undefined;
+  /** Colunas mantidas apenas como metadata filtrável no payload */
+  metadataColumns?: string[] | undefined;
+  /** Número máximo de linhas por documento (padrão: 10) */
+  rowsPerChunk?: number | undefined;
+  /** Tamanho máximo em caracteres de cada documento (padrão: 1000) */
+  maxChunkSize?: number | undefined;
+}
+
+/**
+ * Opções do loader de URL
+ */
+export interface URLLoaderOptions {
+  /** Engine de scraping (auto-detecta pela URL se não especificado) */
+  engine?: ScraperEngine | undefined;
+  /** Texto corrido ou Markdown (padrão: config.scraping.format) */
+  format?: ExtractionFormat | undefined;
+  /** Opções de renderização do Playwright (wait selector, autoscroll, cookies...) */
+  playwright?: PlaywrightOptions | undefined;
+}
+
+/**
+ * Opções específicas por tipo de loader
+ */
+export interface LoaderOptions {
+  csv?: CSVLoaderOptions;
+  url?: URLLoaderOptions;
+}
+
 /**
  * Interface base para todos os document loaders
  */
@@ -47,9 +88,23 @@ export function detectDocumentType(fileName: string): DocumentType {
       return DocumentType.PDF;
     case "epub":
       return DocumentType.EPUB;
+    case "csv":
+      return DocumentType.CSV;
+    case "md":
+    case "markdown":
+      return DocumentType.MARKDOWN;
+    case "html":
+    case "htm":
+      return DocumentType.HTML;
+    case "txt":
+      return DocumentType.TEXT;
+    case "docx":
+      return DocumentType.DOCX;
+    case "odt":
+      return DocumentType.ODT;
     default:
       throw new Error(
-        `Tipo de arquivo não suportado: ${extension}. Suportados: PDF, EPUB, URL`
+        `Tipo de arquivo não suportado: ${extension}. Suportados: PDF, EPUB, CSV, Markdown, HTML, TXT, DOCX, ODT, URL`
       );
   }
 }
@@ -1,35 +1,60 @@
 import { Document } from "@langchain/core/documents";
-import { IDocumentLoader } from "./types.js";
-import { scrapeUrl } from "../utils/scraper.js";
+import { IDocumentLoader, URLLoaderOptions } from "./types.js";
+import { markdownToDocuments } from "./markdown.loader.js";
+import { ScrapeError, scrapeUrl, type ScrapedContent } from "../utils/scraper.js";
+
+/**
+ * Converte o conteúdo extraído de uma página em Document do LangChain
+ * (usado pelo loader e pelo crawl, que já faz o scraping para descobrir links)
+ * Conteúdo em Markdown vira um documento por seção de heading, com breadcrumb
+ */
+export function scrapedContentToDocuments(scraped: ScrapedContent): Document[] {
+  const metadata = {
+    source: scraped.url,
+    title: scraped.title,
+    ogImage: scraped.ogImage,
+    author: scraped.byline,
+    publishedAt: scraped.publishedAt,
+    siteName: scraped.siteName,
+    language: scraped.language,
+    scrapedAt: scraped.scrapedAt,
+    scraperEngine: scraped.engine,
+    contentFormat: scraped.format,
+    type: "url",
+    contentLength: scraped.content.length,
+  };
+
+  if (scraped.format === "markdown") {
+    return markdownToDocuments(scraped.content, metadata);
+  }
+
+  return [new Document({ pageContent: scraped.content, metadata })];
+}
 
 /**
  * Loader especializado para URLs web
  * Faz scraping do conteúdo HTML e extrai texto principal
  */
 export class URLDocumentLoader implements IDocumentLoader {
+  constructor(private readonly options: URLLoaderOptions = {}) {}
+
   async load(filePath: string): Promise<Document[]> {
     try {
       // filePath é na verdade uma URL neste contexto
       const url = filePath;
 
       // Fazer scraping da URL
-      const scraped = await scrapeUrl(url);
+      const scraped = await scrapeUrl(url, this.options.engine, {
+        ...(this.options.format && { format: this.options.format }),
+        ...(this.options.playwright && { playwright: this.options.playwright }),
+      });
 
       // Retornar no formato LangChain Document
-      return [
-        new Document({
-          pageContent: scraped.content,
-          metadata: {
-            source: url,
-            title: scraped.title,
-            ogImage: scraped.ogImage,
-            scrapedAt: scraped.scrapedAt,
-            type: "url",
-            contentLength: scraped.content.length,
-          },
-        }),
-      ];
+      return scrapedContentToDocuments(scraped);
     } catch (error) {
+      // Erros tipados do scraping chegam intactos a quem chamou (retry, status HTTP, etc.)
+      if (error instanceof ScrapeError) throw error;
+
       throw new Error(
         `Erro ao carregar URL: ${error instanceof Error ? error.message : String(error)}`
       );
@@ -18,7 +18,7 @@ const storage = multer.diskStorage({
 
 // Filtro de arquivos permitidos
 const fileFilter = (req: any, file: any, cb: any) => {
-	const allowedTypes = [".pdf", ".epub"];
+	const allowedTypes = [".pdf", ".epub", ".csv", ".md", ".markdown", ".html", ".htm", ".txt", ".docx", ".odt"];
 	const ext = path.extname(file.originalname).toLowerCase();
 
 	if (allowedTypes.includes(ext)) {
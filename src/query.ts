@@ -17,11 +17,11 @@ async function demo() {
   const response = await queryRAG(request);
 
   console.log(`📚 Fontes encontradas (${response.sources.length}):\n`);
-  response.sources.forEach((source: any, i: number) => {
+  response.sources.forEach((source, i) => {
     console.log(
-      `${i + 1}. ${source.metadata.fileName} ` +
-      `(página ${source.metadata.page || "N/A"}, ` +
-      `chunk ${source.metadata.chunkIndex}, ` +
+      `${i + 1}. ${source.fileName} ` +
+      `(página ${source.page || "N/A"}, ` +
+      `chunk ${source.chunkIndex}, ` +
       `score: ${source.score.toFixed(3)})`
     );
   });
@@ -0,0 +1,112 @@
+import { Router } from "express";
+import { validateSchema } from "../middleware/validation.js";
+import { type CrawlInput, crawlSchema } from "../schemas/index.js";
+import { deleteCrawl, getCrawl, listCrawls, startCrawl } from "../services/crawl.js";
+import { listDocumentRecordsByCrawl } from "../services/registry.js";
+
+export const crawlsRouter = Router();
+
+/**
+ * POST /crawls
+ * Inicia o crawl de um site (URL inicial ou sitemap.xml) em background
+ * Body: { url, sitemap?, maxDepth?, maxPages?, include?, exclude?, sameOrigin?, concurrency?, scraperEngine?, chunking?, onDuplicate? }
+ */
+crawlsRouter.post("/", validateSchema(crawlSchema), (req, res) => {
+	const options = req.body as CrawlInput;
+	const crawl = startCrawl(options);
+
+	console.log(`🕸️  Crawl ${crawl.id} iniciado: ${options.url}`);
+
+	res.status(202).json({
+		success: true,
+		data: {
+			crawlId: crawl.id,
+			status: crawl.status,
+			statusUrl: `/crawls/${crawl.id}`,
+		},
+	});
+});
+
+/**
+ * GET /crawls
+ * Lista os crawls (mais recentes primeiro)
+ */
+crawlsRouter.get("/", (req, res) => {
+	const crawls = listCrawls();
+
+	res.json({
+		success: true,
+		data: {
+			total: crawls.length,
+			crawls,
+		},
+	});
+});
+
+/**
+ * GET /crawls/:id
+ * Status do crawl e páginas indexadas
+ */
+crawlsRouter.get("/:id", (req, res) => {
+	const crawl = getCrawl(req.params.id);
+
+	if (!crawl) {
+		return res.status(404).json({
+			success: false,
+			message: `Crawl não encontrado: ${req.params.id}`,
+		});
+	}
+
+	res.json({
+		success: true,
+		data: {
+			...crawl,
+			documents: listDocumentRecordsByCrawl(crawl.id).map(({ id, sourceUrl, chunksCount, metadata }) => ({
+				id,
+				url: sourceUrl,
+				title: metadata.title ?? null,
+				chunksCount,
+			})),
+		},
+	});
+});
+
+/**
+ * DELETE /crawls/:id
+ * Remove o crawl e todos os documentos indexados por ele
+ */
+crawlsRouter.delete("/:id", async (req, res) => {
+	const crawl = getCrawl(req.params.id);
+
+	if (!crawl) {
+		return res.status(404).json({
+			success: false,
+			message: `Crawl não encontrado: ${req.params.id}`,
+		});
+	}
+
+	if (crawl.status === "running") {
+		return res.status(409).json({
+			success: false,
+			message: "Crawl ainda em execução. Aguarde a conclusão para removê-lo.",
+		});
+	}
+
+	try {
+		const documents = await deleteCrawl(crawl.id);
+
+		res.json({
+			success: true,
+			data: {
+				id: crawl.id,
+				documentsDeleted: documents?.length ?? 0,
+			},
+		});
+	} catch (error) {
+		console.error("Erro ao remover crawl:", error);
+		res.status(500).json({
+			success: false,
+			message: error instanceof Error ? error.message : "Erro ao remover crawl",
+		});
+	}
+});
@@ -1,15 +1,35 @@
 import { Router } from "express";
 import { upload } from "../middleware/upload.js";
+import { detectDocumentType } from "../loaders/index.js";
 import { validateSchema } from "../middleware/validation.js";
-import { processDocument } from "../services/document.js";
+import { resolveChunkingOptions } from "../services/chunking.js";
+import { deleteDocument, reindexDocument } from "../services/document.js";
+import { createIngestionJob, getIngestionJob, subscribeToJob } from "../services/jobs.js";
+import { getDocumentRecord, listDocumentRecords, redactDocumentRecord } from "../services/registry.js";
 import { processUrl } from "../services/url.js";
-import { urlSchema } from "../schemas/index.js";
+import {
+	chunkingSchema,
+	type UrlExtractionDebugInput,
+	type UrlInput,
+	uploadOptionsSchema,
+	urlExtractionDebugSchema,
+	urlSchema,
+} from "../schemas/index.js";
+import type { ChunkingOptions } from "../types.js";
+import { HttpStatusError, ScrapeError, scrapeUrl } from "../utils/scraper.js";
+
+// Caracteres do conteúdo extraído devolvidos pelo endpoint de depuração
+const DEBUG_CONTENT_PREVIEW = 2000;
 
 export const documentsRouter = Router();
 
 /**
  * POST /documents/upload
- * Upload e processamento de documento (PDF/EPUB)
+ * Upload de documento e criação de um job de processamento em background
+ * Responde 202 com o jobId; acompanhe em GET /documents/jobs/:id ou /documents/jobs/:id/events
+ * Campos opcionais: onDuplicate ("skip" | "replace"), tags (separadas por vírgula)
+ * Campos opcionais (CSV): contentColumns, metadataColumns, rowsPerChunk
+ * Campos opcionais (chunking): strategy, chunkSize, chunkOverlap, sentencesPerChunk, sentenceOverlap, breakpointPercentile
  */
 documentsRouter.post("/upload", upload.single("file"), async (req, res) => {
 	try {
@@ -20,17 +40,59 @@ documentsRouter.post("/upload", upload.single("file"), async (req, res) => {
 			});
 		}
 
-		console.log(`📄 Processando: ${req.file.originalname}`);
+		const options = uploadOptionsSchema.safeParse(req.body ?? {});
+		const chunkingInput = chunkingSchema.safeParse(req.body ?? {});
+		if (!options.success || !chunkingInput.success) {
+			const errors = [
+				...(options.error?.errors ?? []),
+				...(chunkingInput.error?.errors ?? []),
+			];
+			return res.status(400).json({
+				success: false,
+				message: "Erro de validação",
+				details: errors.map((err) => ({
+					field: err.path.join("."),
+					message: err.message,
+				})),
+			});
+		}
 
-		const result = await processDocument({
+		// Resolve os padrões agora: parâmetros incompatíveis (ex: overlap >= chunkSize) viram 400
+		let chunking: ChunkingOptions;
+		try {
+			chunking = resolveChunkingOptions(
+				chunkingInput.data,
+				detectDocumentType(req.file.originalname),
+			);
+		} catch (error) {
+			return res.status(400).json({
+				success: false,
+				message: error instanceof Error ? error.message : "Opções de chunking inválidas",
+			});
+		}
+
+		const { onDuplicate, tags, ...csvOptions } = options.data;
+
+		const job = createIngestionJob({
 			fileName: req.file.originalname,
 			filePath: req.file.path,
 			fileSize: req.file.size,
+			loaderOptions: { csv: csvOptions },
+			chunking,
+			...(onDuplicate && { onDuplicate }),
+			...(tags && tags.length > 0 && { metadata: { tags } }),
 		});
 
-		res.json({
+		console.log(`📄 Job ${job.id} criado: ${req.file.originalname}`);
+
+		res.status(202).json({
 			success: true,
-			data: result,
+			data: {
+				jobId: job.id,
+				status: job.status,
+				statusUrl: `/documents/jobs/${job.id}`,
+				eventsUrl: `/documents/jobs/${job.id}/events`,
+			},
 		});
 	} catch (error) {
 		console.error("Erro ao processar upload:", error);
@@ -44,14 +106,21 @@ documentsRouter.post("/upload", upload.single("file"), async (req, res) => {
 /**
  * POST /documents/from-url
  * Scraping e processamento de URL
- * Body: { url: string, scraperEngine?: "cheerio" | "playwright" }
+ * Body: { url: string, scraperEngine?: "cheerio" | "playwright", format?: "text" | "markdown", playwright?: {...}, onDuplicate?: "skip" | "replace", chunking?: {...}, tags?: string[] }
  */
 documentsRouter.post("/from-url", validateSchema(urlSchema), async (req, res) => {
 	try {
-		const { url, scraperEngine } = req.body;
+		const { url, scraperEngine, format, playwright, onDuplicate, chunking, tags } = req.body as UrlInput;
 		console.log(`🌐 Processando URL: ${url}${scraperEngine ? ` (engine: ${scraperEngine})` : ""}`);
 
-		const result = await processUrl(url, scraperEngine);
+		const result = await processUrl(url, {
+			scraperEngine,
+			format,
+			playwright,
+			onDuplicate,
+			chunking,
+			...(tags && tags.length > 0 && { metadata: { tags } }),
+		});
 
 		res.json({
 			success: true,
@@ -59,6 +128,17 @@ documentsRouter.post("/from-url", validateSchema(urlSchema), async (req, res) =>
 		});
 	} catch (error) {
 		console.error("Erro ao processar URL:", error);
+
+		// Falha ao acessar/extrair a página de origem (após os retries)
+		if (error instanceof ScrapeError) {
+			return res.status(502).json({
+				success: false,
+				message: error.message,
+				error: error.name,
+				...(error instanceof HttpStatusError && { status: error.status }),
+			});
+		}
+
 		res.status(500).json({
 			success: false,
 			message: error instanceof Error ? error.message : "Erro ao processar URL",
@@ -66,23 +146,76 @@ documentsRouter.post("/from-url", validateSchema(urlSchema), async (req, res) =>
 	}
 });
 
+/**
+ * POST /documents/from-url/debug
+ * Mostra como o conteúdo principal da página foi escolhido, sem indexar
+ * (nó escolhido, candidatos com score/densidade de links, nós removidos) e a metadata do artigo
+ * Body: { url: string, scraperEngine?: "cheerio" | "playwright", format?: "text" | "markdown", playwright?: {...} }
+ */
+documentsRouter.post("/from-url/debug", validateSchema(urlExtractionDebugSchema), async (req, res) => {
+	try {
+		const { url, scraperEngine, format, playwright } = req.body as UrlExtractionDebugInput;
+
+		const { content, links, extraction, ...scraped } = await scrapeUrl(url, scraperEngine, {
+			format,
+			playwright,
+			debug: true,
+		});
+
+		res.json({
+			success: true,
+			data: {
+				...scraped,
+				linksCount: links.length,
+				extraction,
+				contentLength: content.length,
+				contentPreview: content.slice(0, DEBUG_CONTENT_PREVIEW),
+			},
+		});
+	} catch (error) {
+		console.error("Erro ao depurar extração:", error);
+
+		if (error instanceof ScrapeError) {
+			return res.status(502).json({
+				success: false,
+				message: error.message,
+				error: error.name,
+				...(error instanceof HttpStatusError && { status: error.status }),
+			});
+		}
+
+		res.status(500).json({
+			success: false,
+			message: error instanceof Error ? error.message : "Erro ao depurar extração",
+		});
+	}
+});
+
 /**
  * GET /documents/stats
  * Estatísticas da base vetorial
  */
 documentsRouter.get("/stats", async (req, res) => {
 	try {
-		const { qdrantClient } = await import("../services/qdrant.js");
+		const { getCollectionEmbedding, qdrantClient, resolveCollectionName } = await import("../services/qdrant.js");
 		const { config } = await import("../config.js");
+		const { getEmbeddingCacheStats } = await import("../services/embedding-cache.js");
 
-		const collection = await qdrantClient.getCollection(config.qdrant.collectionName);
+		// O nome configurado é um alias para a collection versionada atual
+		const activeCollection = await resolveCollectionName(config.qdrant.collectionName);
+		const collection = await qdrantClient.getCollection(activeCollection);
 
 		res.json({
 			success: true,
 			data: {
 				collectionName: config.qdrant.collectionName,
+				activeCollection,
 				pointsCount: collection.points_count,
 				vectorSize: collection.config?.params?.vectors?.size || 0,
+				// Modelo com que a collection foi criada
+				embedding: await getCollectionEmbedding(config.qdrant.collectionName),
+				// Hits/misses desde o início do processo, entradas e tamanho em disco
+				embeddingCache: await getEmbeddingCacheStats(),
 			},
 		});
 	} catch (error) {
@@ -93,3 +226,153 @@ documentsRouter.get("/stats", async (req, res) => {
 		});
 	}
 });
+
+/**
+ * GET /documents
+ * Lista os documentos indexados
+ */
+documentsRouter.get("/", (req, res) => {
+	// Cookies e headers do Playwright são credenciais: não saem na listagem
+	const documents = listDocumentRecords().map(redactDocumentRecord);
+
+	res.json({
+		success: true,
+		data: {
+			documents,
+			total: documents.length,
+		},
+	});
+});
+
+/**
+ * GET /documents/jobs/:id
+ * Status de um job de ingestão: etapa, batches concluídos/total, erros e resultado final
+ */
+documentsRouter.get("/jobs/:id", (req, res) => {
+	const job = getIngestionJob(req.params.id);
+
+	if (!job) {
+		return res.status(404).json({
+			success: false,
+			message: `Job não encontrado: ${req.params.id}`,
+		});
+	}
+
+	res.json({
+		success: true,
+		data: job,
+	});
+});
+
+/**
+ * GET /documents/jobs/:id/events
+ * Progresso do job via SSE (progress → done | error)
+ */
+documentsRouter.get("/jobs/:id/events", (req, res) => {
+	const job = getIngestionJob(req.params.id);
+
+	if (!job) {
+		return res.status(404).json({
+			success: false,
+			message: `Job não encontrado: ${req.params.id}`,
+		});
+	}
+
+	res.setHeader("Content-Type", "text/event-stream");
+	res.setHeader("Cache-Control", "no-cache");
+	res.setHeader("Connection", "keep-alive");
+
+	const send = (current: typeof job) => {
+		const type =
+			current.status === "completed" ? "done" : current.status === "failed" ? "error" : "progress";
+		res.write(`data: ${JSON.stringify({ type, content: current })}\n\n`);
+
+		if (type !== "progress") {
+			unsubscribe();
+			res.end();
+		}
+	};
+
+	const unsubscribe = subscribeToJob(job.id, send);
+	req.on("close", unsubscribe);
+
+	send(job);
+});
+
+/**
+ * GET /documents/:id
+ * Detalhes de um documento indexado
+ */
+documentsRouter.get("/:id", (req, res) => {
+	const document = getDocumentRecord(req.params.id);
+
+	if (!document) {
+		return res.status(404).json({
+			success: false,
+			message: `Documento não encontrado: ${req.params.id}`,
+		});
+	}
+
+	res.json({
+		success: true,
+		data: redactDocumentRecord(document),
+	});
+});
+
+/**
+ * DELETE /documents/:id
+ * Remove o documento e todos os seus chunks do Qdrant
+ */
+documentsRouter.delete("/:id", async (req, res) => {
+	try {
+		const document = await deleteDocument(req.params.id);
+
+		if (!document) {
+			return res.status(404).json({
+				success: false,
+				message: `Documento não encontrado: ${req.params.id}`,
+			});
+		}
+
+		res.json({
+			success: true,
+			data: redactDocumentRecord(document),
+		});
+	} catch (error) {
+		console.error("Erro ao remover documento:", error);
+		res.status(500).json({
+			success: false,
+			message: error instanceof Error ? error.message : "Erro ao remover documento",
+		});
+	}
+});
+
+/**
+ * POST /documents/:id/reindex
+ * Reprocessa o documento a partir da fonte original, substituindo os chunks
+ */
+documentsRouter.post("/:id/reindex", async (req, res) => {
+	try {
+		console.log(`🔄 Re-index do documento: ${req.params.id}`);
+
+		const result = await reindexDocument(req.params.id);
+
+		if (!result) {
+			return res.status(404).json({
+				success: false,
+				message: `Documento não encontrado: ${req.params.id}`,
+			});
+		}
+
+		res.json({
+			success: true,
+			data: result,
+		});
+	} catch (error) {
+		console.error("Erro ao reindexar documento:", error);
+		res.status(500).json({
+			success: false,
+			message: error instanceof Error ? error.message : "Erro ao reindexar documento",
+		});
+	}
+});
@@ -0,0 +1,165 @@
+import { Router } from "express";
+import { validateSchema } from "../middleware/validation.js";
+import { type FeedInput, type FeedUpdateInput, feedSchema, feedUpdateSchema } from "../schemas/index.js";
+import {
+	createFeed,
+	deleteFeed,
+	getFeed,
+	listFeedDocuments,
+	listFeeds,
+	pollFeed,
+	updateFeed,
+} from "../services/feeds.js";
+
+export const feedsRouter = Router();
+
+/**
+ * POST /feeds
+ * Registra um feed RSS/Atom; as entradas novas são indexadas a cada intervalMinutes
+ * Body: { url, name?, intervalMinutes?, enabled?, scraperEngine?, chunking? }
+ */
+feedsRouter.post("/", validateSchema(feedSchema), async (req, res) => {
+	try {
+		const feed = await createFeed(req.body as FeedInput);
+
+		console.log(`📰 Feed registrado: ${feed.name} (${feed.url})`);
+
+		res.status(201).json({
+			success: true,
+			data: feed,
+		});
+	} catch (error) {
+		console.error("Erro ao registrar feed:", error);
+		res.status(400).json({
+			success: false,
+			message: `Não foi possível ler o feed: ${error instanceof Error ? error.message : String(error)}`,
+		});
+	}
+});
+
+/**
+ * GET /feeds
+ * Lista os feeds registrados
+ */
+feedsRouter.get("/", (req, res) => {
+	const feeds = listFeeds();
+
+	res.json({
+		success: true,
+		data: {
+			total: feeds.length,
+			feeds,
+		},
+	});
+});
+
+/**
+ * GET /feeds/:id
+ * Detalhes do feed e documentos indexados a partir dele
+ */
+feedsRouter.get("/:id", (req, res) => {
+	const feed = getFeed(req.params.id);
+
+	if (!feed) {
+		return res.status(404).json({
+			success: false,
+			message: `Feed não encontrado: ${req.params.id}`,
+		});
+	}
+
+	res.json({
+		success: true,
+		data: {
+			...feed,
+			documents: listFeedDocuments(feed.id).map(({ id, sourceUrl, chunksCount, metadata }) => ({
+				id,
+				url: sourceUrl,
+				title: metadata.title ?? null,
+				publishedAt: metadata.publishedAt ?? null,
+				chunksCount,
+			})),
+		},
+	});
+});
+
+/**
+ * PATCH /feeds/:id
+ * Atualiza nome, URL, intervalo, engine, chunking ou habilita/desabilita o feed
+ */
+feedsRouter.patch("/:id", validateSchema(feedUpdateSchema), (req, res) => {
+	const feed = updateFeed(req.params.id as string, req.body as FeedUpdateInput);
+
+	if (!feed) {
+		return res.status(404).json({
+			success: false,
+			message: `Feed não encontrado: ${req.params.id}`,
+		});
+	}
+
+	res.json({
+		success: true,
+		data: feed,
+	});
+});
+
+/**
+ * DELETE /feeds/:id
+ * Remove a assinatura; com ?deleteDocuments=true remove também os documentos indexados
+ */
+feedsRouter.delete("/:id", async (req, res) => {
+	try {
+		const documents = await deleteFeed(req.params.id, req.query.deleteDocuments === "true");
+
+		if (!documents) {
+			return res.status(404).json({
+				success: false,
+				message: `Feed não encontrado: ${req.params.id}`,
+			});
+		}
+
+		res.json({
+			success: true,
+			data: {
+				id: req.params.id,
+				documentsDeleted: documents.length,
+			},
+		});
+	} catch (error) {
+		console.error("Erro ao remover feed:", error);
+		res.status(500).json({
+			success: false,
+			message: error instanceof Error ? error.message : "Erro ao remover feed",
+		});
+	}
+});
+
+/**
+ * POST /feeds/:id/poll
+ * Verifica o feed imediatamente (fora do agendamento)
+ */
+feedsRouter.post("/:id/poll", async (req, res) => {
+	try {
+		const result = await pollFeed(req.params.id);
+
+		if (!result) {
+			return res.status(404).json({
+				success: false,
+				message: `Feed não encontrado: ${req.params.id}`,
+			});
+		}
+
+		res.json({
+			success: true,
+			data: {
+				...result,
+				lastErrors: getFeed(req.params.id)?.lastErrors ?? [],
+			},
+		});
+	} catch (error) {
+		console.error("Erro ao verificar feed:", error);
+		res.status(409).json({
+			success: false,
+			message: error instanceof Error ? error.message : "Erro ao verificar feed",
+		});
+	}
+});
@@ -0,0 +1,194 @@
+import { type Response, Router } from "express";
+import { validateSchema } from "../middleware/validation.js";
+import { type MigrationInput, migrationSchema } from "../schemas/index.js";
+import {
+	deleteMigration,
+	getMigration,
+	listMigrations,
+	MigrationStateError,
+	rollbackMigration,
+	startMigration,
+	swapMigration,
+} from "../services/migrations.js";
+
+export const migrationsRouter = Router();
+
+/**
+ * Resposta de erro das operações de migração (estado inválido → 409)
+ */
+function sendMigrationError(res: Response, error: unknown, fallback: string) {
+	if (error instanceof MigrationStateError) {
+		return res.status(409).json({ success: false, message: error.message });
+	}
+
+	console.error(`${fallback}:`, error);
+	return res.status(500).json({
+		success: false,
+		message: error instanceof Error ? error.message : fallback,
+	});
+}
+
+/**
+ * POST /migrations
+ * Inicia a reindexação de todos os documentos em uma nova collection (modelo e/ou chunking novos)
+ * O alias só é trocado depois da validação
+ * Body: { embedding?: { model, provider?, dimensions?, queryPrefix?, passagePrefix?, pooling? }, chunking?, validationQueries?, minScore?, allowFailures?, autoSwap? }
+ */
+migrationsRouter.post("/", validateSchema(migrationSchema), async (req, res) => {
+	const options = req.body as MigrationInput;
+
+	try {
+		const migration = await startMigration(options);
+
+		res.status(202).json({
+			success: true,
+			data: {
+				migrationId: migration.id,
+				status: migration.status,
+				targetCollection: migration.targetCollection,
+				statusUrl: `/migrations/${migration.id}`,
+			},
+		});
+	} catch (error) {
+		if (error instanceof MigrationStateError) {
+			return res.status(409).json({ success: false, message: error.message });
+		}
+
+		// Modelo ou provider desconhecido
+		res.status(400).json({
+			success: false,
+			message: error instanceof Error ? error.message : "Erro ao iniciar migração",
+		});
+	}
+});
+
+/**
+ * GET /migrations
+ * Lista as migrações (mais recentes primeiro), sem os registros de documentos
+ */
+migrationsRouter.get("/", (req, res) => {
+	const migrations = listMigrations().map(({ records, previousRecords, ...migration }) => migration);
+
+	res.json({
+		success: true,
+		data: {
+			total: migrations.length,
+			migrations,
+		},
+	});
+});
+
+/**
+ * GET /migrations/:id
+ * Progresso da indexação e resultado da validação
+ */
+migrationsRouter.get("/:id", (req, res) => {
+	const migration = getMigration(req.params.id);
+
+	if (!migration) {
+		return res.status(404).json({
+			success: false,
+			message: `Migração não encontrada: ${req.params.id}`,
+		});
+	}
+
+	const { records, previousRecords, ...data } = migration;
+	res.json({
+		success: true,
+		data: {
+			...data,
+			documentsMigrated: Object.keys(records).length,
+		},
+	});
+});
+
+/**
+ * POST /migrations/:id/swap
+ * Move o alias para a nova collection (migrações criadas com autoSwap: false ou reprovadas)
+ * Body: { force?: boolean } - troca mesmo se a validação falhou
+ */
+migrationsRouter.post("/:id/swap", async (req, res) => {
+	try {
+		const migration = await swapMigration(req.params.id, req.body?.force === true);
+
+		if (!migration) {
+			return res.status(404).json({
+				success: false,
+				message: `Migração não encontrada: ${req.params.id}`,
+			});
+		}
+
+		res.json({
+			success: true,
+			data: {
+				id: migration.id,
+				status: migration.status,
+				alias: migration.alias,
+				collection: migration.targetCollection,
+				previousCollection: migration.sourceCollection,
+				embedding: migration.targetEmbedding,
+			},
+		});
+	} catch (error) {
+		sendMigrationError(res, error, "Erro ao trocar o alias");
+	}
+});
+
+/**
+ * POST /migrations/:id/rollback
+ * Volta o alias para a collection anterior (uma troca de alias)
+ */
+migrationsRouter.post("/:id/rollback", async (req, res) => {
+	try {
+		const result = await rollbackMigration(req.params.id);
+
+		if (!result) {
+			return res.status(404).json({
+				success: false,
+				message: `Migração não encontrada: ${req.params.id}`,
+			});
+		}
+
+		res.json({
+			success: true,
+			data: {
+				id: result.migration.id,
+				status: result.migration.status,
+				alias: result.migration.alias,
+				collection: result.migration.sourceCollection,
+				embedding: result.migration.sourceEmbedding,
+				// Indexados/alterados depois do swap: reindexe com POST /documents/:id/reindex
+				changedDocuments: result.changedDocuments,
+			},
+		});
+	} catch (error) {
+		sendMigrationError(res, error, "Erro no rollback da migração");
+	}
+});
+
+/**
+ * DELETE /migrations/:id
+ * Remove a migração e a collection criada por ela (não pode estar em uso pelo alias)
+ */
+migrationsRouter.delete("/:id", async (req, res) => {
+	try {
+		const migration = await deleteMigration(req.params.id);
+
+		if (!migration) {
+			return res.status(404).json({
+				success: false,
+				message: `Migração não encontrada: ${req.params.id}`,
+			});
+		}
+
+		res.json({
+			success: true,
+			data: {
+				id: migration.id,
+				collectionDeleted: migration.targetCollection,
+			},
+		});
+	} catch (error) {
+		sendMigrationError(res, error, "Erro ao remover migração");
+	}
+});
@@ -1,20 +1,30 @@
 import { Router } from "express";
 import { validateSchema } from "../middleware/validation.js";
 import { type QueryInput, querySchema } from "../schemas/index.js";
+import { EmbeddingModelMismatchError, SparseVectorsUnavailableError } from "../services/qdrant.js";
 import { searchDocuments } from "../services/query.js";
 
 export const queryRouter = Router();
 
 queryRouter.post("/", validateSchema(querySchema), async (req, res) => {
 	try {
-		const { question, topK } = req.body as QueryInput;
-		const result = await searchDocuments({ question, topK });
+		const input = req.body as QueryInput;
+		const result = await searchDocuments(input);
 		res.json({
 			success: true,
 			data: result,
 		});
 	} catch (error) {
 		console.log("Error processing query:", error);
+
+		// Collection indexed with a different embedding model, or without the BM25 vector
+		if (error instanceof EmbeddingModelMismatchError || error instanceof SparseVectorsUnavailableError) {
+			return res.status(409).json({
+				success: false,
+				message: error.message,
+			});
+		}
+
 		res.status(500).json({
 			success: false,
 			message: "Error processing query",
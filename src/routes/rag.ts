@@ -1,20 +1,30 @@
 import { Router } from "express";
 import { validateSchema } from "../middleware/validation.js";
 import { type QueryInput, querySchema } from "../schemas/index.js";
+import { EmbeddingModelMismatchError, SparseVectorsUnavailableError } from "../services/qdrant.js";
 import { queryRAG, streamRAG } from "../services/rag.js";
 
 export const ragRouter = Router();
 
 ragRouter.post("/", validateSchema(querySchema), async (req, res) => {
 	try {
-		const { question, topK } = req.body as QueryInput;
-		const result = await queryRAG({ question, topK });
+		const input = req.body as QueryInput;
+		const result = await queryRAG(input);
 		res.json({
 			success: true,
 			data: result,
 		});
 	} catch (error) {
 		console.log("Error processing RAG query:", error);
+
+		// Collection indexed with a different embedding model, or without the BM25 vector
+		if (error instanceof EmbeddingModelMismatchError || error instanceof SparseVectorsUnavailableError) {
+			return res.status(409).json({
+				success: false,
+				message: error.message,
+			});
+		}
+
 		res.status(500).json({
 			success: false,
 			message: "Error processing RAG query",
@@ -29,20 +39,26 @@ ragRouter.post(
 		const startTime = Date.now();
 
 		try {
-			const { question, topK } = req.body as QueryInput;
+			const input = req.body as QueryInput;
 
 			// Set headers for SSE
 			res.setHeader("Content-Type", "text/event-stream");
 			res.setHeader("Cache-Control", "no-cache");
 			res.setHeader("Connection", "keep-alive");
 
-			await streamRAG({ question, topK }, res);
+			await streamRAG(input, res);
 			const duration = Date.now() - startTime;
 
 			console.log(`Streamed RAG response in ${duration}ms`);
 		} catch (error) {
 			res.write(
-				`data: ${JSON.stringify({ success: false, message: "Error processing RAG stream query" })}\n\n`,
+				`data: ${JSON.stringify({
+					success: false,
+					message:
+						error instanceof EmbeddingModelMismatchError || error instanceof SparseVectorsUnavailableError
+							? error.message
+							: "Error processing RAG stream query",
+				})}\n\n`,
 			);
 			res.end();
 			console.log("Error processing RAG stream query:", error);
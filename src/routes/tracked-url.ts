@@ -0,0 +1,202 @@
+import { Router } from "express";
+import { validateSchema } from "../middleware/validation.js";
+import {
+	type TrackedUrlInput,
+	type TrackedUrlUpdateInput,
+	trackedUrlSchema,
+	trackedUrlUpdateSchema,
+} from "../schemas/index.js";
+import {
+	checkTrackedUrl,
+	createTrackedUrl,
+	deleteTrackedUrl,
+	findTrackedUrlByUrl,
+	getTrackedUrl,
+	isTrackedUrlChecking,
+	listTrackedUrls,
+	updateTrackedUrl,
+} from "../services/tracked-urls.js";
+import { ScrapeError } from "../utils/scraper.js";
+
+export const trackedUrlsRouter = Router();
+
+/**
+ * POST /tracked-urls
+ * Indexa a URL e passa a verificá-la a cada intervalMinutes, substituindo os chunks quando o conteúdo muda
+ * Body: { url, scraperEngine?, intervalMinutes?, enabled?, chunking? }
+ */
+trackedUrlsRouter.post("/", validateSchema(trackedUrlSchema), async (req, res) => {
+	const input = req.body as TrackedUrlInput;
+
+	const existing = findTrackedUrlByUrl(input.url);
+	if (existing) {
+		return res.status(409).json({
+			success: false,
+			message: `URL já acompanhada: ${existing.id}`,
+		});
+	}
+
+	try {
+		console.log(`👀 Acompanhando URL: ${input.url}`);
+		const tracked = await createTrackedUrl(input);
+
+		res.status(201).json({
+			success: true,
+			data: tracked,
+		});
+	} catch (error) {
+		console.error("Erro ao acompanhar URL:", error);
+		res.status(error instanceof ScrapeError ? 502 : 500).json({
+			success: false,
+			message: error instanceof Error ? error.message : "Erro ao acompanhar URL",
+		});
+	}
+});
+
+/**
+ * GET /tracked-urls
+ * Lista as URLs acompanhadas
+ */
+trackedUrlsRouter.get("/", (req, res) => {
+	const trackedUrls = listTrackedUrls();
+
+	res.json({
+		success: true,
+		data: {
+			total: trackedUrls.length,
+			trackedUrls,
+		},
+	});
+});
+
+/**
+ * GET /tracked-urls/:id
+ * Detalhes da URL acompanhada (inclui o histórico de revisões)
+ */
+trackedUrlsRouter.get("/:id", (req, res) => {
+	const tracked = getTrackedUrl(req.params.id);
+
+	if (!tracked) {
+		return res.status(404).json({
+			success: false,
+			message: `URL acompanhada não encontrada: ${req.params.id}`,
+		});
+	}
+
+	res.json({
+		success: true,
+		data: tracked,
+	});
+});
+
+/**
+ * GET /tracked-urls/:id/revisions
+ * Histórico de revisões indexadas (scrapedAt, hash do conteúdo, número de chunks), da mais recente para a mais antiga
+ * Guarda as 50 últimas revisões
+ */
+trackedUrlsRouter.get("/:id/revisions", (req, res) => {
+	const tracked = getTrackedUrl(req.params.id);
+
+	if (!tracked) {
+		return res.status(404).json({
+			success: false,
+			message: `URL acompanhada não encontrada: ${req.params.id}`,
+		});
+	}
+
+	res.json({
+		success: true,
+		data: {
+			url: tracked.url,
+			documentId: tracked.documentId,
+			total: tracked.revisions.length,
+			revisions: [...tracked.revisions].reverse(),
+		},
+	});
+});
+
+/**
+ * PATCH /tracked-urls/:id
+ * Atualiza engine, intervalo, chunking ou habilita/desabilita a verificação
+ */
+trackedUrlsRouter.patch("/:id", validateSchema(trackedUrlUpdateSchema), (req, res) => {
+	const tracked = updateTrackedUrl(req.params.id as string, req.body as TrackedUrlUpdateInput);
+
+	if (!tracked) {
+		return res.status(404).json({
+			success: false,
+			message: `URL acompanhada não encontrada: ${req.params.id}`,
+		});
+	}
+
+	res.json({
+		success: true,
+		data: tracked,
+	});
+});
+
+/**
+ * DELETE /tracked-urls/:id
+ * Para de acompanhar; com ?deleteDocument=true remove também o documento indexado
+ */
+trackedUrlsRouter.delete("/:id", async (req, res) => {
+	try {
+		const removed = await deleteTrackedUrl(req.params.id, req.query.deleteDocument === "true");
+
+		if (removed === undefined) {
+			return res.status(404).json({
+				success: false,
+				message: `URL acompanhada não encontrada: ${req.params.id}`,
+			});
+		}
+
+		res.json({
+			success: true,
+			data: {
+				id: req.params.id,
+				documentDeleted: removed !== null,
+			},
+		});
+	} catch (error) {
+		console.error("Erro ao remover URL acompanhada:", error);
+		res.status(500).json({
+			success: false,
+			message: error instanceof Error ? error.message : "Erro ao remover URL acompanhada",
+		});
+	}
+});
+
+/**
+ * POST /tracked-urls/:id/check
+ * Verifica a URL imediatamente (fora do agendamento)
+ */
+trackedUrlsRouter.post("/:id/check", async (req, res) => {
+	if (isTrackedUrlChecking(req.params.id)) {
+		return res.status(409).json({
+			success: false,
+			message: `URL ${req.params.id} já está sendo verificada`,
+		});
+	}
+
+	try {
+		const result = await checkTrackedUrl(req.params.id);
+
+		if (!result) {
+			return res.status(404).json({
+				success: false,
+				message: `URL acompanhada não encontrada: ${req.params.id}`,
+			});
+		}
+
+		res.json({
+			success: true,
+			data: result,
+		});
+	} catch (error) {
+		console.error("Erro ao verificar URL acompanhada:", error);
+		res.status(error instanceof ScrapeError ? 502 : 500).json({
+			success: false,
+			message: error instanceof Error ? error.message : "Erro ao verificar URL",
+		});
+	}
+});
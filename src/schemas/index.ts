@@ -1,5 +1,96 @@
 import { z } from "zod";
 import { config } from "../config.js";
+import { DocumentType } from "../loaders/types.js";
+import type { SearchFilter } from "../types.js";
+
+// Valor único ou lista (filtros aceitam os dois)
+const stringListSchema = (field: string) => {
+	const value = z.string().trim().min(1, `${field} cannot be empty`);
+	return z
+		.union([value, z.array(value).min(1, `${field} cannot be empty`).max(100, `${field} cannot exceed 100 values`)])
+		.transform((values) => (Array.isArray(values) ? values : [values]));
+};
+
+// Data ISO 8601 (ex: "2025-01-31" ou "2025-01-31T12:00:00Z"), normalizada para UTC
+const dateSchema = z
+	.string({ invalid_type_error: "date must be a string" })
+	.refine((value) => !Number.isNaN(Date.parse(value)), { message: "Invalid date (use ISO 8601, e.g. 2025-01-31)" })
+	.transform((value) => new Date(value).toISOString());
+
+// Data sem horário: "2025-01-31", "2025-01" ou "2025"
+const DATE_ONLY_PATTERN = /^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?$/;
+
+// Limite final inclusivo: uma data sem horário inclui o dia (mês, ano) inteiro, até 23:59:59.999 UTC
+const endDateSchema = z
+	.string({ invalid_type_error: "date must be a string" })
+	.refine((value) => !Number.isNaN(Date.parse(value)), { message: "Invalid date (use ISO 8601, e.g. 2025-01-31)" })
+	.transform((value) => {
+		const match = DATE_ONLY_PATTERN.exec(value.trim());
+		if (!match) return new Date(value).toISOString();
+
+		const [, year, month, day] = match;
+		// Início do período seguinte menos 1 ms (Date.UTC normaliza dia 32, mês 13 etc.)
+		const nextPeriod = day
+			? Date.UTC(Number(year), Number(month) - 1, Number(day) + 1)
+			: month
+				? Date.UTC(Number(year), Number(month), 1)
+				: Date.UTC(Number(year) + 1, 0, 1);
+		return new Date(nextPeriod - 1).toISOString();
+	});
+
+const dateRangeSchema = z
+	.object({ from: dateSchema.optional(), to: endDateSchema.optional() })
+	.refine((range) => range.from !== undefined || range.to !== undefined, {
+		message: "Date range needs 'from' and/or 'to'",
+	})
+	.refine((range) => !range.from || !range.to || range.from <= range.to, {
+		message: "Date range 'from' must be before 'to'",
+	});
+
+/**
+ * Filtro de metadata da busca (recursivo: and/or/not combinam filtros aninhados)
+ */
+export const searchFilterSchema: z.ZodType<SearchFilter, z.ZodTypeDef, unknown> = z.lazy(() =>
+	z
+		.object({
+			documentIds: stringListSchema("documentIds").optional(),
+			fileName: stringListSchema("fileName").optional(),
+			type: z
+				.union([z.nativeEnum(DocumentType), z.array(z.nativeEnum(DocumentType))], {
+					errorMap: () => ({ message: `type must be one of: ${Object.values(DocumentType).join(", ")}` }),
+				})
+				.transform((value) => (Array.isArray(value) ? value : [value]))
+				.optional(),
+			tags: stringListSchema("tags").optional(),
+			uploadAt: dateRangeSchema.optional(),
+			scrapedAt: dateRangeSchema.optional(),
+			publishedAt: dateRangeSchema.optional(),
+			and: z.array(searchFilterSchema).min(1).max(10, "and cannot exceed 10 filters").optional(),
+			or: z.array(searchFilterSchema).min(1).max(10, "or cannot exceed 10 filters").optional(),
+			not: z.array(searchFilterSchema).min(1).max(10, "not cannot exceed 10 filters").optional(),
+		})
+		.strict(),
+);
+
+/**
+ * Tags do documento: string separada por vírgulas (multipart) ou array
+ */
+export const tagListSchema = z
+	.union([z.string(), z.array(z.string())], {
+		errorMap: () => ({ message: "tags must be a string or an array of strings" }),
+	})
+	.transform((value) =>
+		[...new Set((Array.isArray(value) ? value : value.split(",")).map((tag) => tag.trim()).filter((tag) => tag.length > 0))],
+	)
+	.pipe(z.array(z.string().max(50, "tags cannot exceed 50 characters")).max(20, "Maximum of 20 tags"));
+
+// Peso de uma busca na fusão híbrida (0 desativa a busca)
+function retrievalWeightSchema(name: string) {
+	return z
+		.number({ invalid_type_error: `weights.${name} must be a number` })
+		.min(0, `weights.${name} cannot be negative`)
+		.max(10, `weights.${name} cannot exceed 10`);
+}
 
 export const querySchema = z.object({
 	question: z
@@ -19,6 +110,41 @@ export const querySchema = z.object({
 		.max(10, "topK cannot exceed 10")
 		.optional()
 		.default(3),
+	filter: searchFilterSchema.optional(),
+	mode: z
+		.enum(["dense", "sparse", "hybrid", "mmr"], {
+			errorMap: () => ({ message: "mode must be 'dense', 'sparse', 'hybrid' or 'mmr'" }),
+		})
+		.optional(),
+	weights: z
+		.object({
+			dense: retrievalWeightSchema("dense").optional(),
+			sparse: retrievalWeightSchema("sparse").optional(),
+		})
+		.strict()
+		.refine((weights) => weights.dense !== 0 || weights.sparse !== 0, {
+			message: "weights cannot all be zero",
+		})
+		.optional(),
+	rerank: z.boolean({ invalid_type_error: "rerank must be a boolean" }).optional(),
+	rerankCandidates: z
+		.number({ invalid_type_error: "rerankCandidates must be a number" })
+		.int("rerankCandidates must be an integer")
+		.min(1, "rerankCandidates must be at least 1")
+		.max(100, "rerankCandidates cannot exceed 100")
+		.optional(),
+	mmrLambda: z
+		.number({ invalid_type_error: "mmrLambda must be a number" })
+		.min(0, "mmrLambda must be between 0 and 1")
+		.max(1, "mmrLambda must be between 0 and 1")
+		.optional(),
+	collapseAdjacent: z.boolean({ invalid_type_error: "collapseAdjacent must be a boolean" }).optional(),
+	contextWindow: z
+		.number({ invalid_type_error: "contextWindow must be a number" })
+		.int("contextWindow must be an integer")
+		.min(0, "contextWindow cannot be negative")
+		.max(5, "contextWindow cannot exceed 5")
+		.optional(),
 });
 
 export const fileUploadSchema = z.object({
@@ -31,6 +157,97 @@ export const fileUploadSchema = z.object({
 	originalName: z.string().min(1, "Original file name is required"),
 });
 
+export const duplicateStrategySchema = z.enum(["skip", "replace"], {
+	errorMap: () => ({ message: "onDuplicate must be 'skip' or 'replace'" }),
+});
+
+/**
+ * Estratégia de chunking e parâmetros (os ausentes usam o padrão da estratégia)
+ * Números aceitam string (campos multipart)
+ */
+export const chunkingSchema = z.object({
+	strategy: z
+		.enum(["character", "token", "sentence", "markdown", "semantic"], {
+			errorMap: () => ({
+				message: "strategy must be 'character', 'token', 'sentence', 'markdown' or 'semantic'",
+			}),
+		})
+		.optional(),
+	chunkSize: z.coerce
+		.number({ invalid_type_error: "chunkSize must be a number" })
+		.int("chunkSize must be an integer")
+		.min(50, "chunkSize must be at least 50")
+		.max(8000, "chunkSize cannot exceed 8000")
+		.optional(),
+	chunkOverlap: z.coerce
+		.number({ invalid_type_error: "chunkOverlap must be a number" })
+		.int("chunkOverlap must be an integer")
+		.min(0, "chunkOverlap cannot be negative")
+		.optional(),
+	sentencesPerChunk: z.coerce
+		.number({ invalid_type_error: "sentencesPerChunk must be a number" })
+		.int("sentencesPerChunk must be an integer")
+		.min(1, "sentencesPerChunk must be at least 1")
+		.max(100, "sentencesPerChunk cannot exceed 100")
+		.optional(),
+	sentenceOverlap: z.coerce
+		.number({ invalid_type_error: "sentenceOverlap must be a number" })
+		.int("sentenceOverlap must be an integer")
+		.min(0, "sentenceOverlap cannot be negative")
+		.optional(),
+	breakpointPercentile: z.coerce
+		.number({ invalid_type_error: "breakpointPercentile must be a number" })
+		.min(1, "breakpointPercentile must be at least 1")
+		.max(99, "breakpointPercentile cannot exceed 99")
+		.optional(),
+});
+
+export const extractionFormatSchema = z.enum(["text", "markdown"], {
+	errorMap: () => ({ message: "format must be 'text' or 'markdown'" }),
+});
+
+export const playwrightOptionsSchema = z.object({
+	waitForSelector: z.string().trim().min(1, "waitForSelector cannot be empty").max(500).optional(),
+	autoScroll: z.boolean({ invalid_type_error: "autoScroll must be a boolean" }).optional(),
+	maxScrolls: z
+		.number({ invalid_type_error: "maxScrolls must be a number" })
+		.int("maxScrolls must be an integer")
+		.min(1, "maxScrolls must be at least 1")
+		.max(100, "maxScrolls cannot exceed 100")
+		.optional(),
+	cookies: z
+		.array(
+			z.object({
+				name: z.string().min(1, "Cookie name is required"),
+				value: z.string(),
+				domain: z.string().min(1).optional(),
+				path: z.string().startsWith("/", "Cookie path must start with /").optional(),
+			}),
+		)
+		.max(50, "Maximum of 50 cookies")
+		.optional(),
+	headers: z.record(z.string().min(1), z.string()).optional(),
+	viewport: z
+		.object({
+			width: z.number().int().min(320, "viewport.width must be at least 320").max(3840),
+			height: z.number().int().min(240, "viewport.height must be at least 240").max(2160),
+		})
+		.optional(),
+	blockResources: z
+		.array(
+			z.enum(["image", "font", "media", "stylesheet"], {
+				errorMap: () => ({ message: "blockResources must contain 'image', 'font', 'media' or 'stylesheet'" }),
+			}),
+		)
+		.optional(),
+	timeoutMs: z
+		.number({ invalid_type_error: "timeoutMs must be a number" })
+		.int("timeoutMs must be an integer")
+		.min(1000, "timeoutMs must be at least 1000")
+		.max(120000, "timeoutMs cannot exceed 120000")
+		.optional(),
+});
+
 export const urlSchema = z.object({
 	url: z
 		.string({
@@ -47,8 +264,186 @@ export const urlSchema = z.object({
 			errorMap: () => ({ message: "Scraper engine must be 'cheerio' or 'playwright'" }),
 		})
 		.optional(),
+	format: extractionFormatSchema.optional(),
+	onDuplicate: duplicateStrategySchema.optional(),
+	chunking: chunkingSchema.optional(),
+	// Renderização no Playwright (sem scraperEngine, usa o Playwright)
+	playwright: playwrightOptionsSchema.optional(),
+	tags: tagListSchema.optional(),
+});
+
+// Depuração da extração: só o scraping (sem deduplicação nem chunking)
+export const urlExtractionDebugSchema = urlSchema.pick({
+	url: true,
+	scraperEngine: true,
+	format: true,
+	playwright: true,
+});
+
+export const crawlSchema = z.object({
+	url: urlSchema.shape.url,
+	sitemap: z.boolean({ invalid_type_error: "sitemap must be a boolean" }).optional(),
+	maxDepth: z
+		.number({ invalid_type_error: "maxDepth must be a number" })
+		.int("maxDepth must be an integer")
+		.min(0, "maxDepth cannot be negative")
+		.max(10, "maxDepth cannot exceed 10")
+		.optional()
+		.default(2),
+	maxPages: z
+		.number({ invalid_type_error: "maxPages must be a number" })
+		.int("maxPages must be an integer")
+		.min(1, "maxPages must be at least 1")
+		.max(1000, "maxPages cannot exceed 1000")
+		.optional()
+		.default(50),
+	include: z.array(z.string().min(1)).optional(),
+	exclude: z.array(z.string().min(1)).optional(),
+	sameOrigin: z
+		.boolean({ invalid_type_error: "sameOrigin must be a boolean" })
+		.optional()
+		.default(true),
+	concurrency: z
+		.number({ invalid_type_error: "concurrency must be a number" })
+		.int("concurrency must be an integer")
+		.min(1, "concurrency must be at least 1")
+		.max(10, "concurrency cannot exceed 10")
+		.optional()
+		.default(3),
+	scraperEngine: urlSchema.shape.scraperEngine,
+	format: extractionFormatSchema.optional(),
+	chunking: chunkingSchema.optional(),
+	onDuplicate: duplicateStrategySchema.optional(),
+	tags: tagListSchema.optional(),
+});
+
+export const feedSchema = z.object({
+	url: urlSchema.shape.url,
+	name: z
+		.string({ invalid_type_error: "name must be a string" })
+		.trim()
+		.min(1, "name cannot be empty")
+		.max(200, "name cannot exceed 200 characters")
+		.optional(),
+	intervalMinutes: z
+		.number({ invalid_type_error: "intervalMinutes must be a number" })
+		.int("intervalMinutes must be an integer")
+		.min(5, "intervalMinutes must be at least 5")
+		.max(10080, "intervalMinutes cannot exceed 10080 (1 week)")
+		.optional(),
+	enabled: z.boolean({ invalid_type_error: "enabled must be a boolean" }).optional(),
+	scraperEngine: urlSchema.shape.scraperEngine,
+	chunking: chunkingSchema.optional(),
+});
+
+// PATCH /feeds/:id: todos os campos opcionais
+export const feedUpdateSchema = feedSchema.partial();
+
+export const trackedUrlSchema = z.object({
+	url: urlSchema.shape.url,
+	scraperEngine: urlSchema.shape.scraperEngine,
+	intervalMinutes: z
+		.number({ invalid_type_error: "intervalMinutes must be a number" })
+		.int("intervalMinutes must be an integer")
+		.min(5, "intervalMinutes must be at least 5")
+		.max(43200, "intervalMinutes cannot exceed 43200 (30 days)")
+		.optional(),
+	enabled: z.boolean({ invalid_type_error: "enabled must be a boolean" }).optional(),
+	chunking: chunkingSchema.optional(),
+});
+
+// PATCH /tracked-urls/:id: a URL não muda (crie outro acompanhamento)
+export const trackedUrlUpdateSchema = trackedUrlSchema.omit({ url: true }).partial();
+
+/**
+ * Migração para uma nova collection (modelo de embeddings e/ou chunking diferentes)
+ */
+export const migrationSchema = z.object({
+	embedding: z
+		.object({
+			model: z
+				.string({ required_error: "embedding.model is required" })
+				.trim()
+				.min(1, "embedding.model cannot be empty"),
+			provider: z.string().trim().min(1, "embedding.provider cannot be empty").optional(),
+			dimensions: z
+				.number({ invalid_type_error: "embedding.dimensions must be a number" })
+				.int("embedding.dimensions must be an integer")
+				.min(1, "embedding.dimensions must be at least 1")
+				.max(8192, "embedding.dimensions cannot exceed 8192")
+				.optional(),
+			queryPrefix: z.string().optional(),
+			passagePrefix: z.string().optional(),
+			pooling: z
+				.enum(["mean", "cls"], {
+					errorMap: () => ({ message: "embedding.pooling must be 'mean' or 'cls'" }),
+				})
+				.optional(),
+		})
+		.optional(),
+	chunking: chunkingSchema.optional(),
+	validationQueries: z
+		.array(z.string().trim().min(1, "validation queries cannot be empty").max(500))
+		.max(20, "validationQueries cannot exceed 20 queries")
+		.optional(),
+	minScore: z
+		.number({ invalid_type_error: "minScore must be a number" })
+		.min(0, "minScore cannot be negative")
+		.max(1, "minScore cannot exceed 1")
+		.optional()
+		.default(0.3),
+	allowFailures: z
+		.boolean({ invalid_type_error: "allowFailures must be a boolean" })
+		.optional()
+		.default(false),
+	autoSwap: z
+		.boolean({ invalid_type_error: "autoSwap must be a boolean" })
+		.optional()
+		.default(true),
+});
+
+/**
+ * Lista de colunas enviada como string separada por vírgulas (multipart) ou array
+ */
+const columnListSchema = z
+	.union([z.string(), z.array(z.string())])
+	.transform((value) =>
+		(Array.isArray(value) ? value : value.split(","))
+			.map((col) => col.trim())
+			.filter((col) => col.length > 0),
+	);
+
+export const csvOptionsSchema = z.object({
+	contentColumns: columnListSchema.optional(),
+	metadataColumns: columnListSchema.optional(),
+	rowsPerChunk: z.coerce
+		.number({
+			invalid_type_error: "rowsPerChunk must be a number",
+		})
+		.int("rowsPerChunk must be an integer")
+		.min(1, "rowsPerChunk must be at least 1")
+		.max(500, "rowsPerChunk cannot exceed 500")
+		.optional(),
+});
+
+// Campos multipart aceitos em POST /documents/upload
+// (os campos de chunkingSchema são validados à parte sobre o mesmo body)
+export const uploadOptionsSchema = csvOptionsSchema.extend({
+	onDuplicate: duplicateStrategySchema.optional(),
+	tags: tagListSchema.optional(),
 });
 
 export type QueryInput = z.infer<typeof querySchema>;
+export type SearchFilterInput = z.infer<typeof searchFilterSchema>;
 export type FileUploadInput = z.infer<typeof fileUploadSchema>;
 export type UrlInput = z.infer<typeof urlSchema>;
+export type UrlExtractionDebugInput = z.infer<typeof urlExtractionDebugSchema>;
+export type FeedInput = z.infer<typeof feedSchema>;
+export type FeedUpdateInput = z.infer<typeof feedUpdateSchema>;
+export type TrackedUrlInput = z.infer<typeof trackedUrlSchema>;
+export type TrackedUrlUpdateInput = z.infer<typeof trackedUrlUpdateSchema>;
+export type CrawlInput = z.infer<typeof crawlSchema>;
+export type MigrationInput = z.infer<typeof migrationSchema>;
+export type ChunkingSchemaInput = z.infer<typeof chunkingSchema>;
+export type CsvOptionsInput = z.infer<typeof csvOptionsSchema>;
+export type UploadOptionsInput = z.infer<typeof uploadOptionsSchema>;
@@ -0,0 +1,94 @@
+import assert from "node:assert/strict";
+import { Document } from "@langchain/core/documents";
+import { describe, it } from "node:test";
+
+// O config exige a chave do LLM, mas estes testes não chamam o modelo
+process.env.DEEPSEEK_API_KEY ??= "test";
+const { resolveChunkingOptions, splitIntoChunks } = await import("./chunking.js");
+const { DocumentType } = await import("../loaders/index.js");
+
+const doc = (pageContent: string, metadata: Record<string, unknown> = {}) => new Document({ pageContent, metadata });
+
+describe("resolveChunkingOptions", () => {
+  it("usa markdown para documentos estruturados e character para os demais", () => {
+    assert.equal(resolveChunkingOptions({}, DocumentType.DOCX).strategy, "markdown");
+    assert.equal(resolveChunkingOptions({}, DocumentType.PDF).strategy, "character");
+    assert.equal(resolveChunkingOptions({}, DocumentType.URL, "markdown").strategy, "markdown");
+  });
+
+  it("limita a sobreposição padrão a um quarto do chunkSize informado", () => {
+    assert.deepEqual(resolveChunkingOptions({ chunkSize: 400 }, DocumentType.TEXT), {
+      strategy: "character",
+      chunkSize: 400,
+      chunkOverlap: 100,
+    });
+  });
+
+  it("rejeita sobreposição maior ou igual ao chunk", () => {
+    assert.throws(() => resolveChunkingOptions({ chunkSize: 100, chunkOverlap: 100 }, DocumentType.TEXT), /chunkOverlap/);
+    assert.throws(
+      () => resolveChunkingOptions({ strategy: "sentence", sentencesPerChunk: 2, sentenceOverlap: 2 }, DocumentType.TEXT),
+      /sentenceOverlap/
+    );
+  });
+});
+
+describe("splitIntoChunks", () => {
+  it("character: respeita o chunkSize e copia a metadata do documento", async () => {
+    const text = Array.from({ length: 40 }, (_, i) => `palavra${i}`).join(" ");
+    const options = resolveChunkingOptions({ chunkSize: 100, chunkOverlap: 20 }, DocumentType.TEXT);
+
+    const chunks = await splitIntoChunks([doc(text, { title: "Livro" })], options);
+
+    assert.ok(chunks.length > 1);
+    assert.ok(chunks.every((chunk) => chunk.pageContent.length <= 100));
+    assert.ok(chunks.every((chunk) => chunk.metadata.title === "Livro"));
+  });
+
+  it("sentence: agrupa sentenças repetindo a sobreposição no chunk seguinte", async () => {
+    const options = resolveChunkingOptions(
+      { strategy: "sentence", sentencesPerChunk: 2, sentenceOverlap: 1 },
+      DocumentType.TEXT
+    );
+
+    const chunks = await splitIntoChunks([doc("Um. Dois.\nTrês. Quatro.")], options);
+
+    assert.deepEqual(
+      chunks.map((chunk) => chunk.pageContent),
+      ["Um. Dois.", "Dois. Três.", "Três. Quatro."]
+    );
+  });
+
+  it("sentence: não junta sentenças de parágrafos separados em uma só", async () => {
+    const options = resolveChunkingOptions({ strategy: "sentence", sentencesPerChunk: 5 }, DocumentType.TEXT);
+
+    const chunks = await splitIntoChunks([doc("frase sem ponto\n\nOutra frase")], options);
+
+    assert.deepEqual(chunks.map((chunk) => chunk.pageContent), ["frase sem ponto Outra frase"]);
+  });
+
+  it("markdown: mantém o bloco de código inteiro junto da frase que o apresenta", async () => {
+    const code = "```ts\n" + Array.from({ length: 8 }, (_, i) => `const valor${i} = ${i};`).join("\n") + "\n```";
+    const options = resolveChunkingOptions({ chunkSize: 120, chunkOverlap: 0 }, DocumentType.MARKDOWN);
+
+    const chunks = await splitIntoChunks([doc(`Execute o código:\n\n${code}`)], options);
+
+    assert.equal(chunks.length, 1);
+    assert.equal(chunks[0]!.pageContent, `Execute o código:\n\n${code}`);
+  });
+
+  it("markdown: divide tabelas grandes repetindo o cabeçalho em cada parte", async () => {
+    const rows = Array.from({ length: 30 }, (_, i) => `| item ${i} | ${i * 10} |`);
+    const table = ["| Item | Valor |", "| --- | --- |", ...rows].join("\n");
+    const options = resolveChunkingOptions({ chunkSize: 100, chunkOverlap: 0 }, DocumentType.MARKDOWN);
+
+    const chunks = await splitIntoChunks([doc(table)], options);
+
+    assert.ok(chunks.length > 1);
+    for (const chunk of chunks) {
+      assert.ok(chunk.pageContent.startsWith("| Item | Valor |\n| --- | --- |\n"));
+      assert.ok(chunk.pageContent.length <= 300);
+    }
+    assert.equal(chunks.flatMap((chunk) => chunk.pageContent.split("\n").slice(2)).length, rows.length);
+  });
+});
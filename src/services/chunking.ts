@@ -0,0 +1,413 @@
+import { Document } from "@langchain/core/documents";
+import { RecursiveCharacterTextSplitter } from "@langchain/textsplitters";
+import { AutoTokenizer, type PreTrainedTokenizer } from "@huggingface/transformers";
+
+import { DocumentType } from "../loaders/index.js";
+import type { ChunkingInput, ChunkingOptions, ChunkingStrategy } from "../types.js";
+import { splitMarkdownBlocks, type MarkdownBlock } from "../utils/markdown.js";
+import { type EmbeddingModelSpec, getEmbeddings } from "./embeddings.js";
+import { embeddingModel } from "./providers.js";
+
+// Padrões por estratégia (tokens: o bge-small e os E5 aceitam até 512 tokens por entrada)
+const DEFAULT_CHUNK_SIZE = 1000;
+const DEFAULT_CHUNK_OVERLAP = 200;
+const DEFAULT_TOKEN_CHUNK_SIZE = 256;
+const DEFAULT_TOKEN_CHUNK_OVERLAP = 32;
+const DEFAULT_SENTENCES_PER_CHUNK = 5;
+const DEFAULT_SENTENCE_OVERLAP = 1;
+const DEFAULT_BREAKPOINT_PERCENTILE = 90;
+// Markdown: código e tabelas até este múltiplo do chunkSize ficam inteiros em um chunk
+const MAX_ATOMIC_BLOCK_FACTOR = 3;
+
+/**
+ * Estratégia padrão do tipo de documento: Markdown/HTML/DOCX/ODT (e páginas extraídas em Markdown)
+ * já chegam divididos por seção de heading e só precisam quebrar seções longas em limites de blocos Markdown
+ */
+function getDefaultStrategy(type: DocumentType, contentFormat?: string): ChunkingStrategy {
+  if (contentFormat === "markdown") return "markdown";
+
+  switch (type) {
+    case DocumentType.MARKDOWN:
+    case DocumentType.HTML:
+    case DocumentType.DOCX:
+    case DocumentType.ODT:
+      return "markdown";
+    default:
+      return "character";
+  }
+}
+
+/**
+ * Completa os parâmetros de chunking com os padrões da estratégia
+ *
+ * @param input - Estratégia e parâmetros informados (todos opcionais)
+ * @param type - Tipo do documento (define a estratégia padrão)
+ * @param contentFormat - Formato do conteúdo carregado ("markdown" em páginas web extraídas como Markdown)
+ * @returns Opções resolvidas, prontas para gravar no registro do documento
+ * @throws Error se a sobreposição não for menor que o tamanho do chunk
+ */
+export function resolveChunkingOptions(
+  input: ChunkingInput = {},
+  type: DocumentType,
+  contentFormat?: string
+): ChunkingOptions {
+  const strategy = input.strategy || getDefaultStrategy(type, contentFormat);
+  let options: ChunkingOptions;
+
+  switch (strategy) {
+    case "sentence":
+      options = {
+        strategy,
+        sentencesPerChunk: input.sentencesPerChunk ?? DEFAULT_SENTENCES_PER_CHUNK,
+        sentenceOverlap: input.sentenceOverlap ?? DEFAULT_SENTENCE_OVERLAP,
+        chunkSize: input.chunkSize ?? DEFAULT_CHUNK_SIZE,
+      };
+      if (options.sentenceOverlap >= options.sentencesPerChunk) {
+        throw new Error("sentenceOverlap deve ser menor que sentencesPerChunk");
+      }
+      return options;
+    case "semantic":
+      return {
+        strategy,
+        breakpointPercentile: input.breakpointPercentile ?? DEFAULT_BREAKPOINT_PERCENTILE,
+        chunkSize: input.chunkSize ?? DEFAULT_CHUNK_SIZE,
+      };
+    case "token":
+      options = {
+        strategy,
+        chunkSize: input.chunkSize ?? DEFAULT_TOKEN_CHUNK_SIZE,
+        chunkOverlap: input.chunkOverlap ?? Math.min(DEFAULT_TOKEN_CHUNK_OVERLAP, Math.floor((input.chunkSize ?? DEFAULT_TOKEN_CHUNK_SIZE) / 4)),
+      };
+      break;
+    default:
+      options = {
+        strategy,
+        chunkSize: input.chunkSize ?? DEFAULT_CHUNK_SIZE,
+        chunkOverlap: input.chunkOverlap ?? Math.min(DEFAULT_CHUNK_OVERLAP, Math.floor((input.chunkSize ?? DEFAULT_CHUNK_SIZE) / 4)),
+      };
+  }
+
+  if (options.chunkOverlap >= options.chunkSize) {
+    throw new Error("chunkOverlap deve ser menor que chunkSize");
+  }
+
+  return options;
+}
+
+/**
+ * Divide os documentos carregados em chunks conforme a estratégia escolhida
+ * A metadata de cada documento (página, capítulo, breadcrumb...) é copiada para os seus chunks
+ * Cada documento é dividido separadamente: um chunk nunca junta o fim de uma página do PDF
+ * com o início da seguinte, então a página gravada no chunk é sempre a página real do texto
+ *
+ * @param documents - Documentos retornados pelo loader
+ * @param options - Opções resolvidas por resolveChunkingOptions()
+ * @param model - Modelo de embeddings da indexação (tokenizer e chunking semântico; padrão: modelo ativo)
+ * @returns Chunks na ordem do documento
+ */
+export async function splitIntoChunks(
+  documents: Document[],
+  options: ChunkingOptions,
+  model: EmbeddingModelSpec = embeddingModel
+): Promise<Document[]> {
+  switch (options.strategy) {
+    case "sentence":
+    case "semantic": {
+      const chunks: Document[] = [];
+
+      for (const doc of documents) {
+        const sentences = splitSentences(doc.pageContent, options.chunkSize);
+        const texts =
+          options.strategy === "sentence"
+            ? groupSentences(sentences, options.sentencesPerChunk, options.sentenceOverlap, options.chunkSize)
+            : await groupSentencesBySimilarity(sentences, options.breakpointPercentile, options.chunkSize, model);
+
+        for (const text of texts) {
+          chunks.push(new Document({ pageContent: text, metadata: { ...doc.metadata } }));
+        }
+      }
+
+      return chunks;
+    }
+    case "token":
+      return new RecursiveCharacterTextSplitter({
+        chunkSize: options.chunkSize,
+        chunkOverlap: options.chunkOverlap,
+        lengthFunction: (text) => countTokens(text, model.tokenizer),
+      }).splitDocuments(documents);
+    case "markdown":
+      return splitMarkdownDocuments(documents, options.chunkSize, options.chunkOverlap);
+    default:
+      return new RecursiveCharacterTextSplitter({
+        chunkSize: options.chunkSize,
+        chunkOverlap: options.chunkOverlap,
+      }).splitDocuments(documents);
+  }
+}
+
+/**
+ * Chunking Markdown que não corta blocos de código nem tabelas
+ * O texto corrido é dividido pelos limites de blocos Markdown; código e tabelas entram inteiros
+ * e pedaços pequenos vizinhos são agrupados até chunkSize (ex: a frase que apresenta o código)
+ */
+async function splitMarkdownDocuments(
+  documents: Document[],
+  chunkSize: number,
+  chunkOverlap: number
+): Promise<Document[]> {
+  const splitter = RecursiveCharacterTextSplitter.fromLanguage("markdown", { chunkSize, chunkOverlap });
+  const chunks: Document[] = [];
+
+  const maxAtomicLength = chunkSize * MAX_ATOMIC_BLOCK_FACTOR;
+
+  for (const doc of documents) {
+    const pieces: MarkdownPiece[] = [];
+
+    for (const block of splitMarkdownBlocks(doc.pageContent)) {
+      if (block.type === "text") {
+        const texts = await splitter.splitText(block.content);
+        pieces.push(...texts.map((text) => ({ text, atomic: false })));
+      } else {
+        const texts = splitAtomicBlock(block, maxAtomicLength);
+        pieces.push(...texts.map((text) => ({ text, atomic: true })));
+      }
+    }
+
+    for (const text of packPieces(pieces, chunkSize, maxAtomicLength)) {
+      chunks.push(new Document({ pageContent: text, metadata: { ...doc.metadata } }));
+    }
+  }
+
+  return chunks;
+}
+
+interface MarkdownPiece {
+  text: string;
+  /** Bloco de código ou tabela (não pode ser cortado) */
+  atomic: boolean;
+}
+
+/**
+ * Agrupa pedaços consecutivos enquanto couberem em chunkSize
+ * Um texto curto antes de um bloco grande (ex: "Execute o comando:") fica junto do bloco
+ */
+function packPieces(pieces: MarkdownPiece[], chunkSize: number, maxAtomicLength: number): string[] {
+  const packed: string[] = [];
+  let current = "";
+
+  for (const { text, atomic } of pieces) {
+    const combinedLength = current.length + 2 + text.length;
+    const isLeadIn = atomic && current.length <= chunkSize / 4 && combinedLength <= maxAtomicLength;
+
+    if (current && combinedLength > chunkSize && !isLeadIn) {
+      packed.push(current);
+      current = text;
+    } else {
+      current = current ? `${current}\n\n${text}` : text;
+    }
+  }
+
+  if (current) packed.push(current);
+  return packed;
+}
+
+/**
+ * Blocos acima de maxLength são divididos entre linhas, mantendo cada parte válida:
+ * código é recercado com a mesma linguagem e tabelas repetem o cabeçalho
+ */
+function splitAtomicBlock(block: MarkdownBlock, maxLength: number): string[] {
+  if (block.content.length <= maxLength) return [block.content];
+
+  const lines = block.content.split("\n");
+  let header: string[];
+  let body: string[];
+  let footer: string[];
+
+  if (block.type === "code") {
+    const closing = lines.length > 1 && lines[lines.length - 1]!.trim().match(/^(`{3,}|~{3,})$/);
+    header = [lines[0]!];
+    body = lines.slice(1, closing ? -1 : undefined);
+    footer = [closing ? lines[lines.length - 1]! : lines[0]!.trim().match(/^(`{3,}|~{3,})/)![1]!];
+  } else {
+    // Cabeçalho + separador (| --- |)
+    header = lines.slice(0, 2);
+    body = lines.slice(2);
+    footer = [];
+  }
+
+  const frameLength = [...header, ...footer].join("\n").length + 1;
+  const parts: string[] = [];
+  let current: string[] = [];
+  let length = frameLength;
+
+  for (const line of body) {
+    if (current.length > 0 && length + line.length + 1 > maxLength) {
+      parts.push([...header, ...current, ...footer].join("\n"));
+      current = [];
+      length = frameLength;
+    }
+    current.push(line);
+    length += line.length + 1;
+  }
+
+  if (current.length > 0) parts.push([...header, ...current, ...footer].join("\n"));
+  return parts;
+}
+
+// Tokenizers dos modelos de embeddings, carregados sob demanda (só na estratégia token)
+const tokenizers = new Map<string, Promise<PreTrainedTokenizer>>();
+
+async function countTokens(text: string, name: string): Promise<number> {
+  let tokenizer = tokenizers.get(name);
+  if (!tokenizer) {
+    tokenizer = AutoTokenizer.from_pretrained(name);
+    tokenizers.set(name, tokenizer);
+  }
+  return (await tokenizer).encode(text, { add_special_tokens: false }).length;
+}
+
+const sentenceSegmenter = new Intl.Segmenter(undefined, { granularity: "sentence" });
+
+/**
+ * Divide o texto em sentenças (Intl.Segmenter)
+ * Quebras de linha simples são tratadas como espaço (texto de PDF quebra linhas no meio da frase);
+ * parágrafos (linha em branco) sempre encerram a sentença
+ * Sentenças maiores que maxLength são quebradas entre palavras
+ */
+function splitSentences(text: string, maxLength: number): string[] {
+  const sentences: string[] = [];
+
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    const normalized = paragraph.replace(/\s+/g, " ").trim();
+    if (!normalized) continue;
+
+    for (const { segment } of sentenceSegmenter.segment(normalized)) {
+      const sentence = segment.trim();
+      if (!sentence) continue;
+
+      if (sentence.length <= maxLength) {
+        sentences.push(sentence);
+      } else {
+        sentences.push(...splitLongSentence(sentence, maxLength));
+      }
+    }
+  }
+
+  return sentences;
+}
+
+function splitLongSentence(sentence: string, maxLength: number): string[] {
+  const words = sentence.split(" ");
+  const pieces: string[] = [];
+  let current = "";
+
+  for (const word of words) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (candidate.length > maxLength && current) {
+      pieces.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  }
+
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+/**
+ * Agrupa sentenças em chunks de até sentencesPerChunk sentenças (e até maxLength caracteres),
+ * repetindo as últimas sentenceOverlap sentenças no início do chunk seguinte
+ */
+function groupSentences(
+  sentences: string[],
+  sentencesPerChunk: number,
+  sentenceOverlap: number,
+  maxLength: number
+): string[] {
+  const chunks: string[] = [];
+  let start = 0;
+
+  while (start < sentences.length) {
+    let end = start;
+    let length = 0;
+
+    while (end < sentences.length && end - start < sentencesPerChunk) {
+      const added = sentences[end]!.length + (end > start ? 1 : 0);
+      if (end > start && length + added > maxLength) break;
+      length += added;
+      end++;
+    }
+
+    chunks.push(sentences.slice(start, end).join(" "));
+    if (end >= sentences.length) break;
+
+    // Garante avanço mesmo quando o limite de caracteres cortou o chunk antes do overlap
+    start = Math.max(end - sentenceOverlap, start + 1);
+  }
+
+  return chunks;
+}
+
+/**
+ * Chunking semântico: embeda cada sentença e quebra o chunk onde a distância (1 - cosseno)
+ * entre sentenças vizinhas fica acima do percentil informado, respeitando maxLength
+ */
+async function groupSentencesBySimilarity(
+  sentences: string[],
+  breakpointPercentile: number,
+  maxLength: number,
+  model: EmbeddingModelSpec
+): Promise<string[]> {
+  if (sentences.length <= 1) return sentences;
+
+  const vectors = await getEmbeddings(model).embedDocuments(sentences);
+  const distances = sentences
+    .slice(1)
+    .map((_, i) => 1 - cosineSimilarity(vectors[i]!, vectors[i + 1]!));
+  const threshold = percentile(distances, breakpointPercentile);
+
+  const chunks: string[] = [];
+  let current = sentences[0]!;
+
+  for (let i = 1; i < sentences.length; i++) {
+    const sentence = sentences[i]!;
+    const isBreakpoint = distances[i - 1]! > threshold;
+
+    if (isBreakpoint || current.length + 1 + sentence.length > maxLength) {
+      chunks.push(current);
+      current = sentence;
+    } else {
+      current = `${current} ${sentence}`;
+    }
+  }
+
+  chunks.push(current);
+  return chunks;
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i]! * b[i]!;
+    normA += a[i]! * a[i]!;
+    normB += b[i]! * b[i]!;
+  }
+
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Percentil com interpolação linear (p entre 0 e 100)
+ */
+function percentile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+
+  return sorted[lower]! + (sorted[upper]! - sorted[lower]!) * (position - lower);
+}
@@ -0,0 +1,36 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+// O config exige a chave do LLM, mas estes testes não chamam o modelo
+process.env.DEEPSEEK_API_KEY ??= "test";
+const { pathPatternToRegExp } = await import("./crawl.js");
+
+describe("pathPatternToRegExp", () => {
+	it("sem curingas, casa o caminho e os subcaminhos, mas não prefixos de outro segmento", () => {
+		const pattern = pathPatternToRegExp("/docs");
+
+		assert.equal(pattern.test("/docs"), true);
+		assert.equal(pattern.test("/docs/intro"), true);
+		assert.equal(pattern.test("/docsearch"), false);
+		assert.equal(pattern.test("/docs-old/page"), false);
+	});
+
+	it("padrão terminado em / casa só os subcaminhos", () => {
+		const pattern = pathPatternToRegExp("/docs/");
+
+		assert.equal(pattern.test("/docs/intro"), true);
+		assert.equal(pattern.test("/docs"), false);
+	});
+
+	it("* casa um segmento e ** qualquer sequência", () => {
+		assert.equal(pathPatternToRegExp("/blog/*.html").test("/blog/post.html"), true);
+		assert.equal(pathPatternToRegExp("/blog/*.html").test("/blog/2024/post.html"), false);
+		assert.equal(pathPatternToRegExp("/guide/**").test("/guide/a/b/c"), true);
+		assert.equal(pathPatternToRegExp("/guide/**").test("/guides"), false);
+	});
+
+	it("escapa caracteres especiais de RegExp", () => {
+		assert.equal(pathPatternToRegExp("/v1.0").test("/v1x0"), false);
+		assert.equal(pathPatternToRegExp("/v1.0").test("/v1.0/api"), true);
+	});
+});
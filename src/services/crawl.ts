@@ -0,0 +1,326 @@
+import path from "node:path";
+import axios from "axios";
+import * as cheerio from "cheerio";
+import { v4 as uuidv4 } from "uuid";
+import { config } from "../config.js";
+import { scrapedContentToDocuments } from "../loaders/index.js";
+import type { CrawlOptions, CrawlRecord, DocumentRecord } from "../types.js";
+import { JsonStore } from "../utils/json-store.js";
+import { isAllowedByRobots } from "../utils/robots.js";
+import { scrapeUrl } from "../utils/scraper.js";
+import { deleteDocument, processDocument } from "./document.js";
+import { listDocumentRecordsByCrawl } from "./registry.js";
+
+// Crawls persistidos em data/crawls.json (as páginas ficam no registro de documentos)
+const crawlStore = new JsonStore<CrawlRecord>(
+	path.join(config.storage.directory, "crawls.json"),
+);
+
+// Sitemaps aninhados (sitemap index → sitemaps) seguidos até este nível
+const MAX_SITEMAP_NESTING = 2;
+const SITEMAP_TIMEOUT = 20000;
+
+// Links para arquivos que não são páginas HTML (o scraper só extrai HTML)
+const NON_HTML_EXTENSIONS =
+	/\.(pdf|epub|zip|gz|tar|rar|7z|png|jpe?g|gif|svg|webp|ico|mp3|mp4|webm|avi|mov|css|js|json|xml|txt|csv|docx?|xlsx?|pptx?|woff2?|ttf)$/i;
+
+/**
+ * Inicia um crawl em background a partir de uma URL ou sitemap.xml
+ * Cada página vira um documento com o crawlId do crawl
+ *
+ * @param options - URL inicial e limites do crawl
+ * @returns Registro do crawl (status "running")
+ */
+export function startCrawl(options: CrawlOptions): CrawlRecord {
+	const now = new Date().toISOString();
+	const id = uuidv4();
+	const crawl = crawlStore.set(id, {
+		id,
+		status: "running",
+		options,
+		pagesIndexed: 0,
+		pagesDuplicate: 0,
+		pagesBlocked: 0,
+		errors: [],
+		createdAt: now,
+		updatedAt: now,
+	});
+
+	runCrawl(crawl).catch((error) => {
+		console.error(`❌ Crawl ${id} falhou:`, error);
+		updateCrawl(id, (current) => ({
+			status: "failed",
+			errors: [
+				...current.errors,
+				{ url: options.url, message: error instanceof Error ? error.message : String(error) },
+			],
+			finishedAt: new Date().toISOString(),
+		}));
+	});
+
+	return crawl;
+}
+
+export function getCrawl(id: string): CrawlRecord | undefined {
+	return crawlStore.get(id);
+}
+
+// Lista os crawls do mais recente para o mais antigo
+export function listCrawls(): CrawlRecord[] {
+	return crawlStore.list().sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Remove um crawl e todos os documentos (chunks e registros) que ele indexou
+ *
+ * @param id - ID do crawl
+ * @returns Documentos removidos ou undefined se o crawl não existir
+ * @throws Error se o crawl ainda estiver em execução
+ */
+export async function deleteCrawl(id: string): Promise<DocumentRecord[] | undefined> {
+	const crawl = crawlStore.get(id);
+	if (!crawl) return undefined;
+
+	if (crawl.status === "running") {
+		throw new Error(`Crawl ${id} ainda está em execução`);
+	}
+
+	const documents = listDocumentRecordsByCrawl(id);
+	for (const document of documents) {
+		await deleteDocument(document.id);
+	}
+
+	crawlStore.delete(id);
+	console.log(`🗑️  Crawl ${id} removido (${documents.length} documentos)`);
+
+	return documents;
+}
+
+/**
+ * Marca como falhos os crawls interrompidos por um restart
+ * (as páginas já indexadas continuam no registro com o crawlId)
+ *
+ * @returns Quantidade de crawls interrompidos
+ */
+export function failInterruptedCrawls(): number {
+	const interrupted = crawlStore.list().filter((crawl) => crawl.status === "running");
+
+	for (const crawl of interrupted) {
+		updateCrawl(crawl.id, (current) => ({
+			status: "failed",
+			errors: [...current.errors, { url: current.options.url, message: "Crawl interrompido por reinício do servidor" }],
+			finishedAt: new Date().toISOString(),
+		}));
+	}
+
+	return interrupted.length;
+}
+
+/**
+ * Percorre o site em largura (nível a nível), processando até `concurrency` páginas por vez
+ */
+async function runCrawl(crawl: CrawlRecord): Promise<void> {
+	const { id, options } = crawl;
+	const seed = new URL(options.url);
+	const isSitemap = options.sitemap ?? /\.xml$/i.test(seed.pathname);
+	const seen = new Set<string>();
+
+	const include = options.include?.map(pathPatternToRegExp);
+	const exclude = options.exclude?.map(pathPatternToRegExp);
+
+	const isInScope = (url: URL): boolean => {
+		if (options.sameOrigin && url.origin !== seed.origin) return false;
+		if (NON_HTML_EXTENSIONS.test(url.pathname)) return false;
+		if (include && !include.some((pattern) => pattern.test(url.pathname))) return false;
+		if (exclude?.some((pattern) => pattern.test(url.pathname))) return false;
+		return true;
+	};
+
+	const enqueue = (href: string, level: string[]) => {
+		if (seen.size >= options.maxPages || seen.has(href)) return;
+
+		const url = new URL(href);
+		if (!isInScope(url)) return;
+
+		seen.add(href);
+		level.push(href);
+	};
+
+	let level: string[] = [];
+	if (isSitemap) {
+		for (const url of await fetchSitemapUrls(seed.href)) {
+			enqueue(url, level);
+		}
+		console.log(`🗺️  Crawl ${id}: ${level.length} URLs do sitemap`);
+	} else {
+		// A URL inicial é sempre visitada (os filtros valem para os links encontrados)
+		seen.add(seed.href);
+		level.push(seed.href);
+	}
+
+	for (let depth = 0; level.length > 0; depth++) {
+		const nextLevel: string[] = [];
+		console.log(`🕸️  Crawl ${id}: profundidade ${depth}, ${level.length} páginas`);
+
+		await mapWithConcurrency(level, options.concurrency, async (url) => {
+			const links = await crawlPage(id, url, options);
+
+			if (depth < options.maxDepth) {
+				for (const link of links) enqueue(link, nextLevel);
+			}
+		});
+
+		level = nextLevel;
+	}
+
+	updateCrawl(id, { status: "completed", finishedAt: new Date().toISOString() });
+	console.log(`✅ Crawl ${id} concluído (${seen.size} páginas visitadas)`);
+}
+
+/**
+ * Faz o scraping e indexa uma página
+ *
+ * @returns Links encontrados na página (vazio se bloqueada ou com erro)
+ */
+async function crawlPage(crawlId: string, url: string, options: CrawlOptions): Promise<string[]> {
+	try {
+		if (!(await isAllowedByRobots(url))) {
+			console.log(`🚫 Bloqueada pelo robots.txt: ${url}`);
+			updateCrawl(crawlId, (current) => ({ pagesBlocked: current.pagesBlocked + 1 }));
+			return [];
+		}
+
+		const scraped = await scrapeUrl(url, options.scraperEngine, {
+			...(options.format && { format: options.format }),
+		});
+
+		const result = await processDocument({
+			fileName: url,
+			filePath: url,
+			documents: scrapedContentToDocuments(scraped),
+			crawlId,
+			// Re-index da página usa o mesmo engine e formato do crawl
+			...((options.scraperEngine || options.format) && {
+				loaderOptions: {
+					url: {
+						...(options.scraperEngine && { engine: options.scraperEngine }),
+						...(options.format && { format: options.format }),
+					},
+				},
+			}),
+			...(options.chunking && { chunking: options.chunking }),
+			...(options.onDuplicate && { onDuplicate: options.onDuplicate }),
+			...(options.tags && options.tags.length > 0 && { metadata: { tags: options.tags } }),
+		});
+
+		updateCrawl(crawlId, (current) =>
+			result.duplicate
+				? { pagesDuplicate: current.pagesDuplicate + 1 }
+				: { pagesIndexed: current.pagesIndexed + 1 },
+		);
+
+		return scraped.links;
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		console.warn(`⚠️ Crawl ${crawlId}: falha em ${url}: ${message}`);
+		updateCrawl(crawlId, (current) => ({ errors: [...current.errors, { url, message }] }));
+		return [];
+	}
+}
+
+/**
+ * Lê as URLs de um sitemap.xml (segue sitemap index até MAX_SITEMAP_NESTING níveis)
+ */
+async function fetchSitemapUrls(sitemapUrl: string, nesting = 0): Promise<string[]> {
+	const response = await axios.get<string>(sitemapUrl, {
+		timeout: SITEMAP_TIMEOUT,
+		responseType: "text",
+	});
+	const $ = cheerio.load(String(response.data), { xml: true });
+
+	const nested = $("sitemapindex > sitemap > loc")
+		.map((_, el) => $(el).text().trim())
+		.get();
+
+	if (nested.length > 0) {
+		if (nesting >= MAX_SITEMAP_NESTING) return [];
+
+		const urls: string[] = [];
+		for (const child of nested) {
+			try {
+				urls.push(...(await fetchSitemapUrls(new URL(child, sitemapUrl).href, nesting + 1)));
+			} catch (error) {
+				console.warn(`⚠️ Sitemap ignorado (${child}): ${error instanceof Error ? error.message : error}`);
+			}
+		}
+		return urls;
+	}
+
+	return $("urlset > url > loc")
+		.map((_, el) => $(el).text().trim())
+		.get()
+		.flatMap((loc) => {
+			try {
+				const url = new URL(loc, sitemapUrl);
+				url.hash = "";
+				return [url.href];
+			} catch {
+				return [];
+			}
+		});
+}
+
+/**
+ * Converte um padrão de caminho em RegExp
+ * "**" casa qualquer sequência, "*" casa um segmento; sem curingas, o padrão é um prefixo
+ * de segmentos inteiros ("/docs" casa "/docs" e "/docs/intro", mas não "/docsearch")
+ * Ex: "/docs/**", "/blog/*.html", "/api"
+ */
+export function pathPatternToRegExp(pattern: string): RegExp {
+	const escape = (text: string) => text.replace(/[.+?^${}()|[\]\\]/g, "\\$&");
+
+	if (!pattern.includes("*")) {
+		// Padrão terminado em "/" já encerra o segmento
+		const boundary = pattern.endsWith("/") ? "" : "(?:/|$|\\?)";
+		return new RegExp(`^${escape(pattern)}${boundary}`);
+	}
+
+	const body = pattern
+		.split("**")
+		.map((part) => part.split("*").map(escape).join("[^/]*"))
+		.join(".*");
+
+	return new RegExp(`^${body}$`);
+}
+
+/**
+ * Executa fn para cada item com no máximo `limit` execuções simultâneas
+ */
+async function mapWithConcurrency<T>(
+	items: T[],
+	limit: number,
+	fn: (item: T) => Promise<void>,
+): Promise<void> {
+	let next = 0;
+	const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+		while (next < items.length) {
+			await fn(items[next++]!);
+		}
+	});
+
+	await Promise.all(workers);
+}
+
+function updateCrawl(
+	id: string,
+	patch: Partial<CrawlRecord> | ((current: CrawlRecord) => Partial<CrawlRecord>),
+): void {
+	const current = crawlStore.get(id);
+	if (!current) return;
+
+	crawlStore.set(id, {
+		...current,
+		...(typeof patch === "function" ? patch(current) : patch),
+		updatedAt: new Date().toISOString(),
+	});
+}
@@ -1,36 +1,155 @@
-import { RecursiveCharacterTextSplitter } from "@langchain/textsplitters";
+import fs from "node:fs";
+import path from "node:path";
+import type { Document } from "@langchain/core/documents";
 import { v4 as uuidv4 } from "uuid";
 
 import { config } from "../config.js";
-import { DocumentLoaderFactory } from "../loaders/index.js";
-
-import { qdrantClient } from "./qdrant.js";
-import { embeddings } from "./providers.js";
-
-interface UploadResponse {
-  success: boolean;
-  documentId: string;
-  chunksCount: number;
-  message?: string;
-}
+import { DocumentLoaderFactory, DocumentType, detectDocumentType, type LoaderOptions } from "../loaders/index.js";
+
+import type {
+  ChunkingInput,
+  DocumentRecord,
+  DuplicateStrategy,
+  IngestionProgress,
+  UploadResponse,
+} from "../types.js";
+import { chunkPointId, hashFile, hashText } from "../utils/hash.js";
+import { resolveChunkingOptions, splitIntoChunks } from "./chunking.js";
+import { type EmbeddingModelSpec, getEmbeddings } from "./embeddings.js";
+import {
+  assertCollectionEmbedding,
+  deleteDocumentPoints,
+  deleteStaleDocumentPoints,
+  hasSparseVectors,
+  qdrantClient,
+} from "./qdrant.js";
+import { embeddingModel, embeddings } from "./providers.js";
+import { computeSparseVector, SPARSE_VECTOR_NAME, type SparseVector } from "./sparse.js";
+import {
+  deleteDocumentRecord,
+  findDocumentRecordByHash,
+  getDocumentRecord,
+  saveDocumentRecord,
+} from "./registry.js";
 
 type DocumentDto = {
   fileName: string;
   filePath: string;
   fileSize?: number;
+  loaderOptions?: LoaderOptions;
+  /** Estratégia de chunking e parâmetros (padrão conforme o tipo do documento) */
+  chunking?: ChunkingInput;
+  /** Documentos já carregados (ex: páginas do crawl, que já passaram pelo scraping): pula o loader */
+  documents?: Document[];
+  /** Metadata extra aplicada a todos os documentos carregados (ex: feed, autor e data de publicação) */
+  metadata?: Record<string, unknown>;
+  /** Crawl ao qual o documento pertence (listagem e remoção em grupo) */
+  crawlId?: string;
+  /** ID de um documento existente (re-index): substitui os chunks anteriores */
+  documentId?: string;
+  /** Conteúdo já indexado: pular (padrão) ou substituir o documento existente */
+  onDuplicate?: DuplicateStrategy;
+  /** Callback chamado a cada mudança de etapa e a cada batch inserido */
+  onProgress?: (progress: IngestionProgress) => void;
+  /** Retoma um processamento interrompido (mesmo uploadAt, pulando os batches já inseridos) */
+  resume?: { uploadAt: string; contentHash: string; batchesDone: number };
+  /**
+   * Indexa em outra collection com outro modelo (migração): o registro de documentos não é alterado,
+   * o novo registro é entregue a `onRecord`
+   */
+  target?: {
+    collectionName: string;
+    model: EmbeddingModelSpec;
+    onRecord: (record: DocumentRecord) => void;
+  };
+}
+
+// Batches de embedding/inserção (limita memória e tamanho do payload enviado ao Qdrant)
+const BATCH_SIZE = 50;
+
+/**
+ * Metadata dos loaders preservada no payload de cada chunk
+ */
+const LOADER_METADATA_KEYS = [
+  // Documento (PDF, EPUB, DOCX, ODT, HTML)
+  "title",
+  "author",
+  // Capítulo e posição na ordem de leitura (EPUB)
+  "chapter",
+  "sectionIndex",
+  // CSV (colunas, intervalo de linhas e colunas filtráveis)
+  "columns",
+  "rowStart",
+  "rowEnd",
+  "fields",
+  // Hierarquia de headings (Markdown, HTML, DOCX, ODT)
+  "headings",
+  "breadcrumb",
+  // Página web (byline do artigo vai em "author")
+  "siteName",
+  "language",
+  "publishedAt",
+  "scrapedAt",
+  // Feed RSS/Atom (autor e data da entrada substituem os da página)
+  "feedId",
+  "feedName",
+  // Tags informadas na indexação (filtro na busca)
+  "tags",
+] as const;
+
+function pickLoaderMetadata(metadata: Record<string, any>): Record<string, unknown> {
+  const picked: Record<string, unknown> = {};
+
+  for (const key of LOADER_METADATA_KEYS) {
+    const value = metadata[key];
+    // Ignora valores ausentes e strings vazias (ex: PDF sem título)
+    if (value === undefined || value === null || value === "") continue;
+    picked[key] = value;
+  }
+
+  return picked;
 }
 
-// Configuração do TextSplitter para dividir o texto em chunks menores
-const textSplitter = new RecursiveCharacterTextSplitter({
-  chunkSize: 1000, // Tamanho máximo de cada chunk (ajuste conforme necessário)
-  chunkOverlap: 200, // Sobreposição entre chunks para manter contexto (ajuste conforme necessário)
-});
+/**
+ * Metadata que descreve apenas um trecho do documento (não vai para o registro)
+ */
+const CHUNK_ONLY_METADATA_KEYS = new Set([
+  "source",
+  "loc",
+  "chapter",
+  "sectionIndex",
+  "rowStart",
+  "rowEnd",
+  "fields",
+  "headings",
+  "breadcrumb",
+]);
+
+function pickDocumentMetadata(metadata: Record<string, any>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(metadata).filter(([key, value]) => !CHUNK_ONLY_METADATA_KEYS.has(key) && value !== undefined)
+  );
+}
 
 export async function processDocument({
   fileName,
   filePath,
   fileSize,
+  loaderOptions,
+  chunking,
+  documents: preloadedDocuments,
+  metadata,
+  crawlId,
+  documentId: requestedDocumentId,
+  onDuplicate = "skip",
+  onProgress,
+  resume,
+  target,
 }: DocumentDto): Promise<UploadResponse> {
+  const collectionName = target?.collectionName ?? config.qdrant.collectionName;
+  const model = target?.model ?? embeddingModel;
+  const modelEmbeddings = target ? getEmbeddings(target.model) : embeddings;
+
   // 0. Verifica conexão com Qdrant antes de processar
   try {
     await qdrantClient.getCollections();
@@ -39,23 +158,86 @@ export async function processDocument({
     throw new Error(`❌ Falha ao conectar com Qdrant: ${error}`);
   }
 
-  // 1. Carregamento do documento PDF/EPUB usando loader apropriado
-  const loader = DocumentLoaderFactory.createLoaderFromFileName(fileName);
-  const documents = await loader.load(filePath);
+  // Vetores só são comparáveis com os do mesmo modelo da collection
+  await assertCollectionEmbedding(collectionName, model);
+  // Collections criadas antes do BM25 recebem só o vetor denso
+  const withSparseVectors = await hasSparseVectors(collectionName);
+
+  const documentType = detectDocumentType(fileName);
+  // Valida os parâmetros antes de carregar; a estratégia padrão é resolvida após o carregamento
+  resolveChunkingOptions(chunking, documentType);
+  let existingDocumentId = requestedDocumentId;
+
+  // Verifica se o conteúdo já está indexado (ignorado no re-index explícito)
+  // Retorna a resposta final quando o upload deve ser pulado
+  const checkDuplicate = (contentHash: string): UploadResponse | null => {
+    if (requestedDocumentId) return null;
+
+    const duplicate = findDocumentRecordByHash(contentHash);
+    if (!duplicate) return null;
+
+    if (onDuplicate === "replace") {
+      console.log(`♻️  Conteúdo idêntico ao documento ${duplicate.id}, substituindo...`);
+      existingDocumentId = duplicate.id;
+      return null;
+    }
+
+    console.log(`⏭️  Conteúdo idêntico ao documento ${duplicate.id}, upload ignorado`);
+    if (filePath !== duplicate.filePath) removeUploadedFile(filePath);
+
+    return {
+      success: true,
+      documentId: duplicate.id,
+      chunksCount: duplicate.chunksCount,
+      message: "Documento já indexado com conteúdo idêntico. Nenhuma alteração feita.",
+      duplicate: true,
+      metadata: duplicate.metadata,
+    };
+  };
+
+  // 1. Hash do arquivo para deduplicação (URLs são verificadas após o scraping)
+  let contentHash = documentType !== DocumentType.URL ? hashFile(filePath) : "";
+  if (contentHash) {
+    const skipped = checkDuplicate(contentHash);
+    if (skipped) return skipped;
+  }
+
+  // Carregamento do documento usando loader apropriado
+  onProgress?.({ stage: "loading", batchesDone: 0, batchesTotal: 0 });
+  const documents =
+    preloadedDocuments ?? (await DocumentLoaderFactory.createLoader(documentType, loaderOptions).load(filePath));
 
   if (documents.length === 0) {
     throw new Error("Nenhum documento encontrado no arquivo carregado.");
   }
 
+  if (metadata) {
+    for (const doc of documents) Object.assign(doc.metadata, metadata);
+  }
+
+  if (!contentHash) {
+    contentHash = hashText(documents.map((doc) => doc.pageContent).join("\n"));
+    const skipped = checkDuplicate(contentHash);
+    if (skipped) return skipped;
+  }
+
   // 2. Divisão do texto do documento em chunks (partes menores)
-  const chunks = await textSplitter.splitDocuments(documents);
+  // Páginas web extraídas em Markdown usam a estratégia markdown por padrão
+  const chunkingOptions = resolveChunkingOptions(chunking, documentType, documents[0]!.metadata.contentFormat);
+  onProgress?.({ stage: "splitting", batchesDone: 0, batchesTotal: 0 });
+  console.log(`✂️  Chunking: ${chunkingOptions.strategy}`);
+  const chunks = await splitIntoChunks(documents, chunkingOptions, model);
 
   if (chunks.length === 0) {
     throw new Error("Nenhum chunk gerado a partir do documento.");
   }
 
   // 3. Adiciona metadados e informações de contexto a cada chunk
-  const documentId = uuidv4();
+  const documentId = existingDocumentId || uuidv4();
+  // Só retoma se o conteúdo não mudou (URLs podem mudar entre execuções); caso contrário
+  // recomeça com um novo uploadAt e os pontos parciais são removidos como obsoletos
+  const canResume = resume !== undefined && resume.contentHash === contentHash;
+  const uploadAt = canResume ? resume.uploadAt : new Date().toISOString();
 
   // Filtra chunks vazios ou muito pequenos antes de processar
   const validChunks = chunks.filter((chunk) => {
@@ -69,118 +251,225 @@ export async function processDocument({
 
   console.log(`Processando ${validChunks.length} chunks válidos (${chunks.length - validChunks.length} chunks vazios removidos)`);
 
+  // IDs determinísticos: reprocessar o mesmo conteúdo no mesmo documento sobrescreve os mesmos pontos
   const documentsChunksWithMetadata = validChunks.map((chunk, index) => ({
-    id: uuidv4(),
+    id: chunkPointId(documentId, contentHash, index),
     text: chunk.pageContent.trim(),
     metadata: {
       documentId,
       chunkIndex: index,
       fileName,
-      uploadAt: new Date().toISOString(),
+      type: documentType,
+      contentHash,
+      uploadAt,
       page: chunk.metadata.loc?.pageNumber,
+      ...pickLoaderMetadata(chunk.metadata),
     },
   }));
 
-  // 4. Geração de embeddings para cada chunk usando o modelo de embedding escolhido
-  const texts = documentsChunksWithMetadata.map((doc) => doc.text);
-  console.log(`Gerando embeddings para ${texts.length} chunks...`);
+  // 4. Geração de embeddings e armazenamento no Qdrant, batch a batch
+  // Cada batch é embedado e inserido antes do próximo, então um processamento
+  // interrompido pode ser retomado a partir do último batch inserido
+  const totalBatches = Math.ceil(documentsChunksWithMetadata.length / BATCH_SIZE);
+  const startBatch = canResume ? Math.min(resume.batchesDone, totalBatches) : 0;
+  let insertedCount = 0;
 
-  // Processa embeddings em batches para evitar consumir muita memória
-  const EMBEDDING_BATCH_SIZE = 50;
-  const embeddingsVectors: number[][] = [];
-  const totalEmbeddingBatches = Math.ceil(texts.length / EMBEDDING_BATCH_SIZE);
+  if (startBatch > 0) {
+    console.log(`⏩ Retomando a partir do batch ${startBatch + 1}/${totalBatches}`);
+  }
 
-  for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
-    const batch = texts.slice(i, i + EMBEDDING_BATCH_SIZE);
-    const batchNumber = Math.floor(i / EMBEDDING_BATCH_SIZE) + 1;
+  console.log(`🧠 Gerando embeddings e inserindo ${documentsChunksWithMetadata.length} chunks em ${totalBatches} batches de ${BATCH_SIZE}...`);
+  onProgress?.({ stage: "embedding", documentId, contentHash, uploadAt, batchesDone: startBatch, batchesTotal: totalBatches });
 
-    console.log(`  🧠 Gerando batch ${batchNumber}/${totalEmbeddingBatches} (${batch.length} chunks)...`);
+  for (let batchIndex = startBatch; batchIndex < totalBatches; batchIndex++) {
+    const batchChunks = documentsChunksWithMetadata.slice(batchIndex * BATCH_SIZE, (batchIndex + 1) * BATCH_SIZE);
+    const batchNumber = batchIndex + 1;
 
-    const batchEmbeddings = await embeddings.embedDocuments(batch);
-    embeddingsVectors.push(...batchEmbeddings);
+    console.log(`  🧠 Gerando batch ${batchNumber}/${totalBatches} (${batchChunks.length} chunks)...`);
 
-    console.log(`  ✅ Batch ${batchNumber}/${totalEmbeddingBatches} concluído`);
-  }
+    const batchEmbeddings = await modelEmbeddings.embedDocuments(batchChunks.map((chunk) => chunk.text));
 
-  console.log(`✅ Gerados ${embeddingsVectors.length} embeddings (dim=${embeddingsVectors[0]?.length || 0})`);
+    // Valida se o vetor existe, é um array e tem a dimensão correta
+    const points = batchChunks
+      .map((chunk, index) => {
+        const vector = batchEmbeddings[index];
 
-  // 5. Armazenamento dos chunks e embeddings no banco de dados vetorial (Qdrant)
-  const EXPECTED_DIMENSION = 384;
-  const validData = documentsChunksWithMetadata
-    .map((chunk, index) => {
-      const vector = embeddingsVectors[index];
+        if (!vector || !Array.isArray(vector) || vector.length !== model.dimension) {
+          console.warn(`⚠️ Chunk ${chunk.metadata.chunkIndex} ignorado: vetor com dimensão ${vector?.length || 0} (esperado: ${model.dimension})`);
+          return null;
+        }
 
-      // Valida se o vetor existe, é um array e tem a dimensão correta
-      if (!vector || !Array.isArray(vector) || vector.length !== EXPECTED_DIMENSION) {
-        console.warn(`⚠️ Chunk ${index} ignorado: vetor com dimensão ${vector?.length || 0} (esperado: ${EXPECTED_DIMENSION})`);
-        return null;
-      }
+        return {
+          id: chunk.id,
+          vector: withSparseVectors
+            ? { "": vector, [SPARSE_VECTOR_NAME]: computeSparseVector(chunk.text) }
+            : vector,
+          payload: {
+            text: chunk.text,
+            ...chunk.metadata,
+          },
+        };
+      })
+      .filter((item): item is NonNullable<typeof item> => item !== null);
+
+    if (points.length > 0) {
+      await upsertWithRetry(collectionName, points, batchNumber, totalBatches);
+      insertedCount += points.length;
+    }
 
-      return {
-        id: chunk.id,
-        vector,
-        payload: {
-          text: chunk.text,
-          ...chunk.metadata,
-        },
-      };
-    })
-    .filter((item): item is NonNullable<typeof item> => item !== null);
-
-  if (validData.length === 0) {
+    console.log(`  ✅ Batch ${batchNumber}/${totalBatches} inserido (${points.length} vetores)`);
+    onProgress?.({ stage: "embedding", documentId, contentHash, uploadAt, batchesDone: batchNumber, batchesTotal: totalBatches });
+  }
+
+  if (startBatch === 0 && insertedCount === 0) {
     throw new Error("Nenhum vetor válido gerado após validação de dimensões.");
   }
 
-  console.log(`✅ ${validData.length} vetores válidos prontos para inserção (${documentsChunksWithMetadata.length - validData.length} ignorados)`);
+  console.log(`🎉 Todos os vetores inseridos com sucesso! (${insertedCount} nesta execução)`);
+
+  // Re-index: remove os chunks da versão anterior só depois que a nova foi inserida
+  if (existingDocumentId) {
+    await deleteStaleDocumentPoints(documentId, uploadAt, collectionName);
+    console.log(`🧹 Chunks anteriores do documento ${documentId} removidos`);
+  }
+
+  // 6. Registra o documento para listagem, remoção e re-index
+  onProgress?.({ stage: "finalizing", documentId, contentHash, uploadAt, batchesDone: totalBatches, batchesTotal: totalBatches });
+  const existingRecord = existingDocumentId ? getDocumentRecord(existingDocumentId) : undefined;
+  const recordCrawlId = crawlId || existingRecord?.crawlId;
+  if (!target && existingRecord && existingRecord.filePath !== filePath) {
+    removeUploadedFile(existingRecord.filePath);
+  }
 
-  const data = validData;
+  const documentMetadata = pickDocumentMetadata(documents[0]!.metadata);
+
+  const record: DocumentRecord = {
+    id: documentId,
+    fileName,
+    type: documentType,
+    filePath,
+    ...(fileSize !== undefined && { fileSize }),
+    ...(documentType === DocumentType.URL && { sourceUrl: filePath }),
+    ...(recordCrawlId && { crawlId: recordCrawlId }),
+    contentHash,
+    chunksCount: documentsChunksWithMetadata.length,
+    ...(loaderOptions && { loaderOptions }),
+    chunking: chunkingOptions,
+    metadata: documentMetadata,
+    ...(metadata && { extraMetadata: metadata }),
+    createdAt: existingRecord?.createdAt || uploadAt,
+    updatedAt: uploadAt,
+  };
+
+  if (target) {
+    target.onRecord(record);
+  } else {
+    saveDocumentRecord(record);
+  }
 
-  // Divide em batches para evitar timeout e payload muito grande
-  const BATCH_SIZE = 50;
-  const totalBatches = Math.ceil(data.length / BATCH_SIZE);
+  // 7. Retorna uma resposta indicando o sucesso do processo e informações relevantes 
+  // (como ID do documento, número de chunks, etc.)
+  return {
+    success: true,
+    documentId,
+    chunksCount: documentsChunksWithMetadata.length,
+    message: "Documento processado com sucesso!",
+    metadata: documentMetadata,
+  };
+}
 
-  console.log(`📦 Inserindo ${data.length} vetores em ${totalBatches} batches de ${BATCH_SIZE}...`);
+/**
+ * Insere um batch de pontos no Qdrant com retry e backoff exponencial
+ */
+async function upsertWithRetry(
+  collectionName: string,
+  points: Array<{ id: string; vector: number[] | Record<string, number[] | SparseVector>; payload: Record<string, unknown> }>,
+  batchNumber: number,
+  totalBatches: number
+): Promise<void> {
+  let retries = 3;
+  let delay = 1000; // 1 segundo inicial
+
+  while (retries > 0) {
+    try {
+      await qdrantClient.upsert(collectionName, {
+        points,
+        wait: true,
+      });
+      return; // Sucesso
+    } catch (error) {
+      retries--;
+      if (retries === 0) {
+        throw error; // Última tentativa falhou, propaga o erro
+      }
 
-  for (let i = 0; i < data.length; i += BATCH_SIZE) {
-    const batch = data.slice(i, i + BATCH_SIZE);
-    const batchNumber = Math.floor(i / BATCH_SIZE) + 1;
+      console.warn(`  ⚠️ Erro no batch ${batchNumber}/${totalBatches}. Tentando novamente em ${delay}ms... (${retries} tentativas restantes)`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+      delay *= 2; // Backoff exponencial
+    }
+  }
+}
 
-    console.log(`  ⏳ Batch ${batchNumber}/${totalBatches} (${batch.length} vetores)...`);
+/**
+ * Remove um documento: chunks no Qdrant, registro e arquivo enviado (se estiver em uploads/)
+ *
+ * @param documentId - ID do documento
+ * @returns Registro removido ou undefined se não existir
+ */
+export async function deleteDocument(documentId: string): Promise<DocumentRecord | undefined> {
+  const record = getDocumentRecord(documentId);
+  if (!record) return undefined;
 
-    // Retry com backoff exponencial em caso de erro
-    let retries = 3;
-    let delay = 1000; // 1 segundo inicial
+  await deleteDocumentPoints(documentId);
+  deleteDocumentRecord(documentId);
+  removeUploadedFile(record.filePath);
 
-    while (retries > 0) {
-      try {
-        await qdrantClient.upsert(config.qdrant.collectionName, {
-          points: batch,
-          wait: true,
-        });
+  console.log(`🗑️  Documento ${documentId} (${record.fileName}) removido`);
 
-        console.log(`  ✅ Batch ${batchNumber}/${totalBatches} inserido`);
-        break; // Sucesso, sai do loop
-      } catch (error) {
-        retries--;
-        if (retries === 0) {
-          throw error; // Última tentativa falhou, propaga o erro
-        }
+  return record;
+}
 
-        console.warn(`  ⚠️ Erro no batch ${batchNumber}. Tentando novamente em ${delay}ms... (${retries} tentativas restantes)`);
-        await new Promise(resolve => setTimeout(resolve, delay));
-        delay *= 2; // Backoff exponencial
-      }
-    }
+/**
+ * Reprocessa um documento a partir da fonte original (arquivo ou URL),
+ * mantendo o mesmo documentId e as opções de loader e de chunking usadas no upload
+ *
+ * @param documentId - ID do documento
+ * @param overrides - Chunking diferente do registrado e/ou collection de destino (migração)
+ * @returns Resultado do processamento ou undefined se o documento não existir
+ */
+export async function reindexDocument(
+  documentId: string,
+  overrides: Pick<DocumentDto, "chunking" | "target"> = {}
+): Promise<UploadResponse | undefined> {
+  const record = getDocumentRecord(documentId);
+  if (!record) return undefined;
+
+  if (record.type !== DocumentType.URL && !fs.existsSync(record.filePath)) {
+    throw new Error(`Arquivo original não encontrado para re-index: ${record.filePath}`);
   }
 
-  console.log(`🎉 Todos os ${data.length} vetores inseridos com sucesso!`);
+  const chunking = overrides.chunking ?? record.chunking;
 
-  // 6. Retorna uma resposta indicando o sucesso do processo e informações relevantes 
-  // (como ID do documento, número de chunks, etc.)
-  return {
-    success: true,
+  return processDocument({
+    fileName: record.fileName,
+    filePath: record.filePath,
+    ...(record.fileSize !== undefined && { fileSize: record.fileSize }),
+    ...(record.loaderOptions && { loaderOptions: record.loaderOptions }),
+    ...(chunking && { chunking }),
+    ...(record.extraMetadata && { metadata: record.extraMetadata }),
     documentId,
-    chunksCount: documentsChunksWithMetadata.length,
-    message: "Documento processado com sucesso!",
-  } as UploadResponse;
-}
\ No newline at end of file
+    ...(overrides.target && { target: overrides.target }),
+  });
+}
+
+/**
+ * Remove um arquivo enviado via upload (apenas dentro de uploads/; URLs e arquivos externos são ignorados)
+ */
+export function removeUploadedFile(filePath: string): void {
+  const uploadsDirectory = path.resolve(config.uploads.directory) + path.sep;
+  const resolvedPath = path.resolve(filePath);
+
+  if (resolvedPath.startsWith(uploadsDirectory) && fs.existsSync(resolvedPath)) {
+    fs.unlinkSync(resolvedPath);
+  }
+}
@@ -0,0 +1,60 @@
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { after, describe, it } from "node:test";
+
+// Cache de ~1 KB em um diretório temporário (cada vetor de 100 dimensões ocupa 400 bytes)
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), "embedding-cache-"));
+after(() => fs.rmSync(directory, { recursive: true, force: true }));
+process.env.DATA_DIRECTORY = directory;
+process.env.EMBEDDING_CACHE_MAX_MB = "0.001";
+// O config exige a chave do LLM, mas estes testes não chamam o modelo
+process.env.DEEPSEEK_API_KEY ??= "test";
+
+// Arquivo que some entre a listagem e o stat (link quebrado) não impede a leitura do cache
+const modelDirectory = path.join(directory, "embedding-cache", "modelo", "ab");
+fs.mkdirSync(modelDirectory, { recursive: true });
+fs.symlinkSync(path.join(directory, "inexistente"), path.join(modelDirectory, "ab-removido.f32"));
+
+const { getEmbeddingCacheStats, readCachedVectors, writeCachedVectors } = await import("./embedding-cache.js");
+
+const vector = (value: number) => Array.from({ length: 100 }, () => value);
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("embedding cache", () => {
+	it("ignora arquivos que não existem mais ao montar o índice", async () => {
+		const stats = await getEmbeddingCacheStats();
+
+		assert.equal(stats.entries, 0);
+		assert.equal(stats.sizeBytes, 0);
+	});
+
+	it("devolve os vetores gravados, com hit para o mesmo texto com outro espaçamento", async () => {
+		await writeCachedVectors("modelo", ["texto a"], [vector(0.5)]);
+
+		const [cached, missing] = await readCachedVectors("modelo", ["texto   a ", "texto b"]);
+
+		assert.deepEqual(cached, vector(0.5));
+		assert.equal(missing, undefined);
+		assert.deepEqual(await readCachedVectors("outro-modelo", ["texto a"]), [undefined]);
+	});
+
+	it("remove os vetores usados há mais tempo ao passar do tamanho máximo", async () => {
+		await sleep(5);
+		await writeCachedVectors("modelo", ["texto b"], [vector(1)]);
+		await sleep(5);
+		// "texto a" (o mais antigo) volta a ser usado: "texto b" passa a ser o candidato à remoção
+		await readCachedVectors("modelo", ["texto a"]);
+		await sleep(5);
+		await writeCachedVectors("modelo", ["texto c"], [vector(2)]);
+
+		const [a, b, c] = await readCachedVectors("modelo", ["texto a", "texto b", "texto c"]);
+		const stats = await getEmbeddingCacheStats();
+
+		assert.deepEqual([a !== undefined, b !== undefined, c !== undefined], [true, false, true]);
+		assert.equal(stats.evictions, 1);
+		assert.equal(stats.entries, 2);
+		assert.equal(stats.sizeBytes, 800);
+	});
+});
@@ -0,0 +1,193 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { config } from "../config.js";
+import { hashText } from "../utils/hash.js";
+
+/**
+ * Estatísticas do cache de embeddings (hits/misses desde o início do processo)
+ */
+export interface EmbeddingCacheStats {
+	enabled: boolean;
+	hits: number;
+	misses: number;
+	hitRate: number;
+	entries: number;
+	sizeBytes: number;
+	maxSizeBytes: number;
+	evictions: number;
+}
+
+interface CacheEntry {
+	size: number;
+	usedAt: number;
+}
+
+// Vetores em data/embedding-cache/<modelo>/<2 primeiros caracteres do hash>/<hash>.f32 (Float32 little-endian)
+const CACHE_DIRECTORY = path.join(config.storage.directory, "embedding-cache");
+const MAX_SIZE_BYTES = config.embeddings.cache.maxSizeMb * 1024 * 1024;
+// A remoção libera espaço abaixo do limite para não rodar a cada escrita
+const EVICTION_TARGET_RATIO = 0.9;
+
+// Índice em memória (caminho relativo → tamanho e último uso), montado a partir do disco no primeiro acesso
+let index: Promise<Map<string, CacheEntry>> | null = null;
+let sizeBytes = 0;
+const stats = { hits: 0, misses: 0, evictions: 0 };
+
+/**
+ * Identificador do modelo no cache (diretório): vetores só são reaproveitados
+ * pelo mesmo provider, modelo, dimensão e pooling
+ */
+export function embeddingCacheKey(spec: { provider: string; model: string; dimension: number; pooling: string }): string {
+	return [spec.provider, spec.model, spec.dimension, spec.pooling].join("_").replace(/[^\w.-]+/g, "_");
+}
+
+/**
+ * Busca os vetores já calculados para os textos
+ *
+ * @param modelKey - Identificador do modelo (embeddingCacheKey)
+ * @param texts - Textos exatamente como enviados ao modelo (com prefixos)
+ * @returns Vetor de cada texto ou undefined quando não está no cache
+ */
+export async function readCachedVectors(modelKey: string, texts: string[]): Promise<Array<number[] | undefined>> {
+	const entries = await loadIndex();
+	const now = Date.now();
+
+	return Promise.all(
+		texts.map(async (text) => {
+			const relativePath = entryPath(modelKey, text);
+			const entry = entries.get(relativePath);
+
+			if (!entry) {
+				stats.misses++;
+				return undefined;
+			}
+
+			try {
+				const buffer = await fs.readFile(path.join(CACHE_DIRECTORY, relativePath));
+				const vector = Array.from(new Float32Array(buffer.buffer, buffer.byteOffset, buffer.byteLength / 4));
+
+				// Último uso fica na data de modificação do arquivo (ordem de remoção sobrevive a restarts)
+				entry.usedAt = now;
+				fs.utimes(path.join(CACHE_DIRECTORY, relativePath), new Date(now), new Date(now)).catch(() => {});
+				stats.hits++;
+				return vector;
+			} catch {
+				// Arquivo removido por fora: trata como miss
+				removeEntry(entries, relativePath);
+				stats.misses++;
+				return undefined;
+			}
+		}),
+	);
+}
+
+/**
+ * Grava os vetores calculados e remove os usados há mais tempo se o cache passar do tamanho máximo
+ * Falhas de escrita só geram aviso (o cache nunca interrompe a indexação)
+ */
+export async function writeCachedVectors(modelKey: string, texts: string[], vectors: number[][]): Promise<void> {
+	const entries = await loadIndex();
+	const now = Date.now();
+
+	try {
+		for (const [position, text] of texts.entries()) {
+			const vector = vectors[position];
+			if (!vector) continue;
+
+			const relativePath = entryPath(modelKey, text);
+			const filePath = path.join(CACHE_DIRECTORY, relativePath);
+			const buffer = Buffer.from(new Float32Array(vector).buffer);
+
+			await fs.mkdir(path.dirname(filePath), { recursive: true });
+			await fs.writeFile(filePath, buffer);
+
+			removeEntry(entries, relativePath);
+			entries.set(relativePath, { size: buffer.byteLength, usedAt: now });
+			sizeBytes += buffer.byteLength;
+		}
+
+		if (sizeBytes > MAX_SIZE_BYTES) await evict(entries);
+	} catch (error) {
+		console.warn(`⚠️ Falha ao gravar no cache de embeddings: ${error instanceof Error ? error.message : error}`);
+	}
+}
+
+export async function getEmbeddingCacheStats(): Promise<EmbeddingCacheStats> {
+	const entries = config.embeddings.cache.enabled ? await loadIndex() : new Map<string, CacheEntry>();
+	const lookups = stats.hits + stats.misses;
+
+	return {
+		enabled: config.embeddings.cache.enabled,
+		...stats,
+		hitRate: lookups > 0 ? stats.hits / lookups : 0,
+		entries: entries.size,
+		sizeBytes,
+		maxSizeBytes: MAX_SIZE_BYTES,
+	};
+}
+
+// Hash do texto normalizado (Unicode NFC, espaços colapsados): variações de espaçamento reaproveitam o vetor
+function entryPath(modelKey: string, text: string): string {
+	const hash = hashText(text.normalize("NFC").replace(/\s+/g, " ").trim());
+	return path.join(modelKey, hash.slice(0, 2), `${hash}.f32`);
+}
+
+function removeEntry(entries: Map<string, CacheEntry>, relativePath: string): void {
+	const entry = entries.get(relativePath);
+	if (!entry) return;
+
+	sizeBytes -= entry.size;
+	entries.delete(relativePath);
+}
+
+// Remove os vetores usados há mais tempo até ficar abaixo do tamanho alvo
+async function evict(entries: Map<string, CacheEntry>): Promise<void> {
+	const target = MAX_SIZE_BYTES * EVICTION_TARGET_RATIO;
+	const oldestFirst = [...entries.entries()].sort(([, a], [, b]) => a.usedAt - b.usedAt);
+	let removed = 0;
+
+	for (const [relativePath] of oldestFirst) {
+		if (sizeBytes <= target) break;
+
+		await fs.rm(path.join(CACHE_DIRECTORY, relativePath), { force: true });
+		removeEntry(entries, relativePath);
+		removed++;
+	}
+
+	stats.evictions += removed;
+	console.log(`🧹 Cache de embeddings: ${removed} vetores removidos (${(sizeBytes / 1024 / 1024).toFixed(1)} MB)`);
+}
+
+function loadIndex(): Promise<Map<string, CacheEntry>> {
+	// Leitura do diretório falhou: a próxima chamada tenta de novo em vez de repetir a mesma rejeição
+	index ??= scanCacheDirectory().catch((error) => {
+		index = null;
+		throw error;
+	});
+	return index;
+}
+
+async function scanCacheDirectory(): Promise<Map<string, CacheEntry>> {
+	const entries = new Map<string, CacheEntry>();
+	sizeBytes = 0;
+
+	let files: string[];
+	try {
+		files = await fs.readdir(CACHE_DIRECTORY, { recursive: true });
+	} catch {
+		return entries; // Cache ainda não criado
+	}
+
+	for (const relativePath of files.filter((file) => file.endsWith(".f32"))) {
+		let stat;
+		try {
+			stat = await fs.stat(path.join(CACHE_DIRECTORY, relativePath));
+		} catch {
+			continue; // Removido durante a leitura (ex: outro processo limpando o cache)
+		}
+		entries.set(relativePath, { size: stat.size, usedAt: stat.mtimeMs });
+		sizeBytes += stat.size;
+	}
+
+	return entries;
+}
@@ -0,0 +1,263 @@
+import { HuggingFaceTransformersEmbeddings } from "@langchain/community/embeddings/huggingface_transformers";
+import { Embeddings } from "@langchain/core/embeddings";
+import { chunkArray } from "@langchain/core/utils/chunk_array";
+import axios from "axios";
+import { config } from "../config.js";
+import { embeddingCacheKey, readCachedVectors, writeCachedVectors } from "./embedding-cache.js";
+
+/**
+ * Modelo de embeddings resolvido (registro de modelos conhecidos + configuração)
+ */
+export interface EmbeddingModelSpec {
+	/** Provider registrado que gera os vetores ("transformers", "openai", ...) */
+	provider: string;
+	model: string;
+	dimension: number;
+	/** Prefixo das perguntas (ex: "query: " nos modelos E5) */
+	queryPrefix: string;
+	/** Prefixo dos chunks indexados (ex: "passage: " nos modelos E5) */
+	passagePrefix: string;
+	/** Pooling do transformers.js */
+	pooling: "mean" | "cls";
+	/** Tokenizer (Hugging Face Hub) usado no chunking por tokens */
+	tokenizer: string;
+}
+
+/**
+ * Cria a instância LangChain de um provider a partir do modelo resolvido
+ */
+export type EmbeddingProviderFactory = (spec: EmbeddingModelSpec) => Embeddings;
+
+type KnownModel = Pick<EmbeddingModelSpec, "provider" | "dimension"> &
+	Partial<Pick<EmbeddingModelSpec, "queryPrefix" | "passagePrefix" | "pooling" | "tokenizer">>;
+
+// Tokenizer das APIs OpenAI (cl100k_base), publicado no Hub pelo transformers.js
+const OPENAI_TOKENIZER = "Xenova/text-embedding-ada-002";
+
+/**
+ * Modelos conhecidos: dimensão, prefixos e pooling recomendados
+ * Outros modelos exigem EMBEDDING_DIMENSIONS
+ */
+const KNOWN_MODELS: Record<string, KnownModel> = {
+	// Inglês; coleções antigas foram criadas com este modelo (pooling mean, sem prefixos)
+	"Xenova/bge-small-en-v1.5": { provider: "transformers", dimension: 384 },
+	// Multilíngues (inclui português)
+	"Xenova/multilingual-e5-small": { provider: "transformers", dimension: 384, queryPrefix: "query: ", passagePrefix: "passage: " },
+	"Xenova/multilingual-e5-base": { provider: "transformers", dimension: 768, queryPrefix: "query: ", passagePrefix: "passage: " },
+	"Xenova/multilingual-e5-large": { provider: "transformers", dimension: 1024, queryPrefix: "query: ", passagePrefix: "passage: " },
+	"Xenova/bge-m3": { provider: "transformers", dimension: 1024, pooling: "cls" },
+	"Xenova/paraphrase-multilingual-MiniLM-L12-v2": { provider: "transformers", dimension: 384 },
+	// APIs compatíveis com OpenAI
+	"text-embedding-3-small": { provider: "openai", dimension: 1536, tokenizer: OPENAI_TOKENIZER },
+	"text-embedding-3-large": { provider: "openai", dimension: 3072, tokenizer: OPENAI_TOKENIZER },
+	"text-embedding-ada-002": { provider: "openai", dimension: 1536, tokenizer: OPENAI_TOKENIZER },
+};
+
+/**
+ * Providers registrados (transformers.js local e HTTP compatível com OpenAI)
+ */
+const embeddingProviders = new Map<string, EmbeddingProviderFactory>([
+	[
+		"transformers",
+		(spec) =>
+			new HuggingFaceTransformersEmbeddings({
+				model: spec.model,
+				pipelineOptions: { pooling: spec.pooling, normalize: true },
+			}),
+	],
+	[
+		"openai",
+		(spec) =>
+			new OpenAICompatibleEmbeddings({
+				model: spec.model,
+				baseUrl: config.embeddings.openai.baseUrl,
+				apiKey: config.embeddings.openai.apiKey,
+				batchSize: config.embeddings.openai.batchSize,
+				// Só envia "dimensions" para reduzir a dimensão nativa de um modelo conhecido (text-embedding-3)
+				dimensions:
+					KNOWN_MODELS[spec.model] && KNOWN_MODELS[spec.model]!.dimension !== spec.dimension ? spec.dimension : undefined,
+			}),
+	],
+]);
+
+/**
+ * Registra (ou substitui) um provider de embeddings
+ *
+ * @param provider - Nome usado em EMBEDDING_PROVIDER
+ * @param factory - Cria a instância LangChain para o modelo resolvido
+ */
+export function registerEmbeddingProvider(provider: string, factory: EmbeddingProviderFactory): void {
+	embeddingProviders.set(provider, factory);
+}
+
+/**
+ * Resolve o modelo configurado: valores do registro de modelos conhecidos,
+ * sobrescritos pelas variáveis EMBEDDING_*
+ *
+ * @throws Error se o provider não estiver registrado ou a dimensão de um modelo desconhecido não for informada
+ */
+export function resolveEmbeddingModel(settings: typeof config.embeddings = config.embeddings): EmbeddingModelSpec {
+	const known = KNOWN_MODELS[settings.model];
+	const provider = settings.provider || known?.provider || "transformers";
+
+	if (!embeddingProviders.has(provider)) {
+		throw new Error(
+			`Provider de embeddings desconhecido: "${provider}" (disponíveis: ${[...embeddingProviders.keys()].join(", ")})`,
+		);
+	}
+
+	const dimension = settings.dimensions ?? known?.dimension;
+	if (!dimension) {
+		throw new Error(`Dimensão do modelo "${settings.model}" desconhecida: defina EMBEDDING_DIMENSIONS`);
+	}
+
+	return {
+		provider,
+		model: settings.model,
+		dimension,
+		queryPrefix: settings.queryPrefix ?? known?.queryPrefix ?? "",
+		passagePrefix: settings.passagePrefix ?? known?.passagePrefix ?? "",
+		pooling: settings.pooling ?? known?.pooling ?? "mean",
+		tokenizer: known?.tokenizer ?? (provider === "transformers" ? settings.model : OPENAI_TOKENIZER),
+	};
+}
+
+// Instâncias por modelo (o pipeline do transformers.js é carregado uma vez por modelo)
+const embeddingsCache = new Map<string, Embeddings>();
+
+/**
+ * Embeddings do modelo, reutilizando a instância já criada para a mesma configuração
+ */
+export function getEmbeddings(spec: EmbeddingModelSpec): Embeddings {
+	const key = JSON.stringify(spec);
+	let embeddings = embeddingsCache.get(key);
+	if (!embeddings) {
+		embeddings = createEmbeddings(spec);
+		embeddingsCache.set(key, embeddings);
+	}
+	return embeddings;
+}
+
+/**
+ * Cria o Embeddings do LangChain para o modelo, com o cache de vetores em disco
+ * e os prefixos de pergunta/chunk
+ */
+export function createEmbeddings(spec: EmbeddingModelSpec): Embeddings {
+	const factory = embeddingProviders.get(spec.provider);
+	if (!factory) {
+		throw new Error(`Provider de embeddings desconhecido: "${spec.provider}"`);
+	}
+
+	// O cache fica dentro dos prefixos: pergunta e chunk com o mesmo texto têm vetores diferentes
+	const embeddings = config.embeddings.cache.enabled
+		? new CachedEmbeddings(factory(spec), embeddingCacheKey(spec))
+		: factory(spec);
+	if (!spec.queryPrefix && !spec.passagePrefix) return embeddings;
+
+	return new PrefixedEmbeddings(embeddings, spec.queryPrefix, spec.passagePrefix);
+}
+
+/**
+ * Adiciona os prefixos esperados pelo modelo (ex: E5 foi treinado com "query: " e "passage: ")
+ */
+class PrefixedEmbeddings extends Embeddings {
+	constructor(
+		private readonly inner: Embeddings,
+		private readonly queryPrefix: string,
+		private readonly passagePrefix: string,
+	) {
+		super({});
+	}
+
+	embedDocuments(documents: string[]): Promise<number[][]> {
+		return this.inner.embedDocuments(documents.map((text) => this.passagePrefix + text));
+	}
+
+	embedQuery(document: string): Promise<number[]> {
+		return this.inner.embedQuery(this.queryPrefix + document);
+	}
+}
+
+/**
+ * Consulta o cache antes de chamar o modelo; só os textos ainda não vistos passam pela inferência
+ */
+class CachedEmbeddings extends Embeddings {
+	constructor(
+		private readonly inner: Embeddings,
+		private readonly modelKey: string,
+	) {
+		super({});
+	}
+
+	async embedDocuments(documents: string[]): Promise<number[][]> {
+		const cached = await readCachedVectors(this.modelKey, documents);
+		// Textos repetidos no mesmo lote são calculados uma vez
+		const missing = [...new Set(documents.filter((_, index) => !cached[index]))];
+		if (missing.length === 0) return cached as number[][];
+
+		const computed = await this.inner.embedDocuments(missing);
+		await writeCachedVectors(this.modelKey, missing, computed);
+
+		const vectors = new Map(missing.map((text, index) => [text, computed[index]!]));
+		return documents.map((text, index) => cached[index] ?? vectors.get(text)!);
+	}
+
+	async embedQuery(document: string): Promise<number[]> {
+		const [cached] = await readCachedVectors(this.modelKey, [document]);
+		if (cached) return cached;
+
+		const vector = await this.inner.embedQuery(document);
+		await writeCachedVectors(this.modelKey, [document], [vector]);
+		return vector;
+	}
+}
+
+interface OpenAICompatibleOptions {
+	model: string;
+	/** URL base da API (ex: https://api.openai.com/v1, http://localhost:11434/v1) */
+	baseUrl: string;
+	apiKey: string | undefined;
+	batchSize: number;
+	dimensions: number | undefined;
+}
+
+/**
+ * Endpoint POST /embeddings compatível com OpenAI (OpenAI, Azure, Ollama, vLLM, LM Studio, TEI...)
+ */
+class OpenAICompatibleEmbeddings extends Embeddings {
+	constructor(private readonly options: OpenAICompatibleOptions) {
+		super({ maxRetries: 3 });
+	}
+
+	async embedDocuments(documents: string[]): Promise<number[][]> {
+		const vectors: number[][] = [];
+
+		for (const batch of chunkArray(documents, this.options.batchSize)) {
+			vectors.push(...(await this.caller.call(() => this.request(batch))));
+		}
+
+		return vectors;
+	}
+
+	async embedQuery(document: string): Promise<number[]> {
+		const [vector] = await this.caller.call(() => this.request([document]));
+		if (!vector) throw new Error("Resposta de embeddings vazia");
+		return vector;
+	}
+
+	private async request(input: string[]): Promise<number[][]> {
+		const { model, baseUrl, apiKey, dimensions } = this.options;
+
+		const response = await axios.post<{ data: Array<{ index: number; embedding: number[] }> }>(
+			`${baseUrl.replace(/\/+$/, "")}/embeddings`,
+			{ model, input, ...(dimensions && { dimensions }) },
+			{
+				headers: { ...(apiKey && { Authorization: `Bearer ${apiKey}` }) },
+				timeout: 60000,
+			},
+		);
+
+		// A API pode devolver fora de ordem: "index" é a posição na entrada
+		return response.data.data.sort((a, b) => a.index - b.index).map((item) => item.embedding);
+	}
+}
@@ -0,0 +1,108 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+// O config exige a chave do LLM, mas estes testes não chamam o modelo
+process.env.DEEPSEEK_API_KEY ??= "test";
+const { parseFeed, pruneEntries } = await import("./feeds.js");
+
+describe("parseFeed", () => {
+	it("lê RSS 2.0 com GUID, autor no formato 'email (Nome)' e data", () => {
+		const feed = parseFeed(
+			`<?xml version="1.0"?>
+			<rss version="2.0"><channel>
+				<title>Blog Exemplo</title>
+				<item>
+					<title>Post 1</title>
+					<link>/posts/1</link>
+					<guid isPermaLink="false">post-1</guid>
+					<author>ana@exemplo.com (Ana Souza)</author>
+					<pubDate>Tue, 02 Jan 2024 10:00:00 GMT</pubDate>
+				</item>
+				<item><title>Sem link</title></item>
+			</channel></rss>`,
+			"https://blog.exemplo.com/feed.xml",
+		);
+
+		assert.equal(feed.title, "Blog Exemplo");
+		assert.deepEqual(feed.entries, [
+			{
+				key: "post-1",
+				title: "Post 1",
+				link: "https://blog.exemplo.com/posts/1",
+				author: "Ana Souza",
+				publishedAt: "2024-01-02T10:00:00.000Z",
+			},
+		]);
+	});
+
+	it("usa o GUID permalink como link e o link como chave quando não há GUID", () => {
+		const feed = parseFeed(
+			`<rss><channel><title>T</title>
+				<item><guid>https://exemplo.com/a</guid></item>
+				<item><link>https://exemplo.com/b</link></item>
+			</channel></rss>`,
+			"https://exemplo.com/rss",
+		);
+
+		assert.deepEqual(
+			feed.entries.map((entry) => [entry.key, entry.link]),
+			[
+				["https://exemplo.com/a", "https://exemplo.com/a"],
+				["https://exemplo.com/b", "https://exemplo.com/b"],
+			],
+		);
+	});
+
+	it("lê Atom preferindo o link alternate e a data de publicação", () => {
+		const feed = parseFeed(
+			`<feed xmlns="http://www.w3.org/2005/Atom">
+				<title>Atom Exemplo</title>
+				<entry>
+					<id>urn:post:1</id>
+					<title>Entrada</title>
+					<link rel="self" href="https://exemplo.com/api/1"/>
+					<link rel="alternate" href="https://exemplo.com/1"/>
+					<author><name>Bruno</name></author>
+					<updated>2024-03-02T00:00:00Z</updated>
+					<published>2024-03-01T00:00:00Z</published>
+				</entry>
+			</feed>`,
+			"https://exemplo.com/atom",
+		);
+
+		assert.equal(feed.title, "Atom Exemplo");
+		assert.deepEqual(feed.entries, [
+			{
+				key: "urn:post:1",
+				title: "Entrada",
+				link: "https://exemplo.com/1",
+				author: "Bruno",
+				publishedAt: "2024-03-01T00:00:00.000Z",
+			},
+		]);
+	});
+
+	it("rejeita conteúdo que não é feed", () => {
+		assert.throws(() => parseFeed("<html><body>oi</body></html>", "https://exemplo.com"), /não é um feed/);
+	});
+});
+
+describe("pruneEntries", () => {
+	it("mantém as entradas do feed e só as 200 mais recentes que saíram dele", () => {
+		const departed = Array.from({ length: 250 }, (_, i) => `old-${i}`);
+		const pruned = pruneEntries({ seenEntries: [...departed, "atual"] }, new Set(["atual", "nova"]));
+
+		assert.equal(pruned.seenEntries.length, 201);
+		assert.equal(pruned.seenEntries[0], "old-50");
+		assert.equal(pruned.seenEntries.at(-1), "atual");
+	});
+
+	it("descarta as falhas de entradas que saíram do feed", () => {
+		const pruned = pruneEntries(
+			{ seenEntries: [], failedEntries: { removida: 2, nova: 1 } },
+			new Set(["nova"]),
+		);
+
+		assert.deepEqual(pruned.failedEntries, { nova: 1 });
+	});
+});
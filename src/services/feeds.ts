@@ -0,0 +1,393 @@
+import path from "node:path";
+import axios from "axios";
+import * as cheerio from "cheerio";
+import type { Element } from "domhandler";
+import { v4 as uuidv4 } from "uuid";
+import { config } from "../config.js";
+import type { DocumentRecord, FeedSubscription } from "../types.js";
+import { JsonStore } from "../utils/json-store.js";
+import { isDue, startPeriodicTask } from "../utils/scheduler.js";
+import { deleteDocument } from "./document.js";
+import { listDocumentRecords } from "./registry.js";
+import { processUrl } from "./url.js";
+
+// Assinaturas persistidas em data/feeds.json (incluindo as entradas já vistas)
+const feedStore = new JsonStore<FeedSubscription>(
+	path.join(config.storage.directory, "feeds.json"),
+);
+
+const FEED_TIMEOUT = 20000;
+// Verificações com falha antes de desistir de uma entrada (ex: post removido que responde 404)
+const MAX_ENTRY_ATTEMPTS = 3;
+// Entradas já vistas que saíram do feed mantidas além das atuais (o feed pode reordenar ou republicar)
+const SEEN_ENTRIES_MARGIN = 200;
+// O agendador verifica a cada minuto quais feeds estão com a verificação vencida
+const SCHEDULER_TICK = 60 * 1000;
+
+// Feeds em verificação (evita duas verificações simultâneas do mesmo feed)
+const polling = new Set<string>();
+let stopScheduler: (() => void) | null = null;
+
+export interface FeedEntry {
+	/** GUID (RSS) / id (Atom), ou o link quando ausente */
+	key: string;
+	title: string | null;
+	link: string;
+	author: string | null;
+	publishedAt: string | null;
+}
+
+export interface ParsedFeed {
+	title: string | null;
+	entries: FeedEntry[];
+}
+
+export interface FeedPollResult {
+	newEntries: number;
+	ingested: number;
+	duplicates: number;
+	failed: number;
+}
+
+export interface FeedSettings {
+	url: string;
+	name?: string | undefined;
+	intervalMinutes?: number | undefined;
+	enabled?: boolean | undefined;
+	scraperEngine?: FeedSubscription["scraperEngine"];
+	chunking?: FeedSubscription["chunking"];
+}
+
+/**
+ * Registra um feed RSS/Atom
+ * O feed é lido uma vez para validar a URL (e obter o nome) e a primeira verificação roda em background
+ *
+ * @param settings - URL e configurações opcionais do feed
+ * @returns Assinatura criada
+ * @throws Error se a URL não for um feed RSS/Atom válido
+ */
+export async function createFeed(settings: FeedSettings): Promise<FeedSubscription> {
+	const parsed = await fetchFeed(settings.url);
+
+	const now = new Date().toISOString();
+	const id = uuidv4();
+	const feed = feedStore.set(id, {
+		id,
+		name: settings.name || parsed.title || new URL(settings.url).hostname,
+		url: settings.url,
+		intervalMinutes: settings.intervalMinutes ?? config.feeds.defaultIntervalMinutes,
+		enabled: settings.enabled ?? true,
+		...(settings.scraperEngine && { scraperEngine: settings.scraperEngine }),
+		...(settings.chunking && { chunking: settings.chunking }),
+		seenEntries: [],
+		lastErrors: [],
+		createdAt: now,
+		updatedAt: now,
+	});
+
+	if (feed.enabled) {
+		void pollFeed(id).catch((error) => console.error(`❌ Erro ao verificar feed ${id}:`, error));
+	}
+
+	return feed;
+}
+
+export function getFeed(id: string): FeedSubscription | undefined {
+	return feedStore.get(id);
+}
+
+// Lista os feeds do mais recente para o mais antigo
+export function listFeeds(): FeedSubscription[] {
+	return feedStore.list().sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Atualiza as configurações de um feed (as entradas já vistas são mantidas)
+ *
+ * @returns Feed atualizado ou undefined se não existir
+ */
+export function updateFeed(
+	id: string,
+	settings: { [K in keyof FeedSettings]?: FeedSettings[K] | undefined },
+): FeedSubscription | undefined {
+	const current = feedStore.get(id);
+	if (!current) return undefined;
+
+	const defined = Object.fromEntries(
+		Object.entries(settings).filter(([, value]) => value !== undefined),
+	);
+
+	return feedStore.set(id, {
+		...current,
+		...defined,
+		updatedAt: new Date().toISOString(),
+	});
+}
+
+/**
+ * Remove a assinatura de um feed
+ *
+ * @param id - ID do feed
+ * @param deleteDocuments - Também remove os documentos indexados a partir do feed
+ * @returns Documentos removidos ou undefined se o feed não existir
+ */
+export async function deleteFeed(
+	id: string,
+	deleteDocuments = false,
+): Promise<DocumentRecord[] | undefined> {
+	if (!feedStore.has(id)) return undefined;
+
+	feedStore.delete(id);
+
+	const documents = deleteDocuments ? listFeedDocuments(id) : [];
+	for (const document of documents) {
+		await deleteDocument(document.id);
+	}
+
+	console.log(`🗑️  Feed ${id} removido (${documents.length} documentos)`);
+	return documents;
+}
+
+// Documentos indexados a partir de um feed (feedId fica na metadata do registro)
+export function listFeedDocuments(id: string): DocumentRecord[] {
+	return listDocumentRecords().filter((record) => record.metadata.feedId === id);
+}
+
+/**
+ * Verifica o feed e processa as entradas novas (mais antigas primeiro) pelo pipeline de URL
+ * Entradas já vistas (GUID/id ou link) são ignoradas; entradas que falharem são tentadas
+ * de novo nas verificações seguintes, até MAX_ENTRY_ATTEMPTS vezes
+ *
+ * @param id - ID do feed
+ * @returns Resumo da verificação ou undefined se o feed não existir
+ * @throws Error se o feed já estiver sendo verificado
+ */
+export async function pollFeed(id: string): Promise<FeedPollResult | undefined> {
+	const feed = feedStore.get(id);
+	if (!feed) return undefined;
+
+	if (polling.has(id)) {
+		throw new Error(`Feed ${id} já está sendo verificado`);
+	}
+
+	polling.add(id);
+	const result: FeedPollResult = { newEntries: 0, ingested: 0, duplicates: 0, failed: 0 };
+	const errors: FeedSubscription["lastErrors"] = [];
+	let feedKeys: Set<string> | null = null;
+
+	try {
+		const parsed = await fetchFeed(feed.url);
+		feedKeys = new Set(parsed.entries.map((entry) => entry.key));
+		const seen = new Set(feed.seenEntries);
+		const newEntries = parsed.entries.filter((entry) => !seen.has(entry.key)).reverse();
+		result.newEntries = newEntries.length;
+
+		console.log(`📰 Feed "${feed.name}": ${newEntries.length} entradas novas`);
+
+		for (const entry of newEntries) {
+			try {
+				const response = await processUrl(entry.link, {
+					scraperEngine: feed.scraperEngine,
+					chunking: feed.chunking,
+					metadata: {
+						feedId: feed.id,
+						feedName: feed.name,
+						...(entry.title && { title: entry.title }),
+						...(entry.author && { author: entry.author }),
+						...(entry.publishedAt && { publishedAt: entry.publishedAt }),
+					},
+				});
+
+				if (response.duplicate) result.duplicates++;
+				else result.ingested++;
+
+				markEntrySeen(id, entry.key);
+			} catch (error) {
+				result.failed++;
+				const attempts = recordEntryFailure(id, entry.key);
+				const message = error instanceof Error ? error.message : String(error);
+
+				if (attempts >= MAX_ENTRY_ATTEMPTS) {
+					markEntrySeen(id, entry.key);
+					errors.push({ url: entry.link, message: `${message} (entrada abandonada após ${attempts} tentativas)` });
+					console.warn(`⚠️ Feed "${feed.name}": ${entry.link} falhou ${attempts} vezes, entrada abandonada`);
+				} else {
+					errors.push({ url: entry.link, message });
+					console.warn(`⚠️ Feed "${feed.name}": falha em ${entry.link} (tentativa ${attempts}/${MAX_ENTRY_ATTEMPTS})`);
+				}
+			}
+		}
+	} catch (error) {
+		errors.push({ url: feed.url, message: error instanceof Error ? error.message : String(error) });
+		console.warn(`⚠️ Feed "${feed.name}" inacessível: ${errors[0]?.message}`);
+	} finally {
+		polling.delete(id);
+
+		const current = feedStore.get(id);
+		if (current) {
+			feedStore.set(id, {
+				...current,
+				...(feedKeys && pruneEntries(current, feedKeys)),
+				lastPolledAt: new Date().toISOString(),
+				lastErrors: errors,
+				updatedAt: new Date().toISOString(),
+			});
+		}
+	}
+
+	return result;
+}
+
+/**
+ * Inicia o agendador que verifica os feeds habilitados conforme o intervalo de cada um
+ * Feeds nunca verificados (ou vencidos durante um restart) são verificados imediatamente
+ */
+export function startFeedScheduler(): void {
+	if (stopScheduler) return;
+	stopScheduler = startPeriodicTask("feeds", pollDueFeeds, SCHEDULER_TICK);
+}
+
+async function pollDueFeeds(): Promise<void> {
+	for (const feed of feedStore.list()) {
+		if (!feed.enabled || polling.has(feed.id)) continue;
+		if (!isDue(feed.lastPolledAt, feed.intervalMinutes)) continue;
+
+		await pollFeed(feed.id).catch((error) =>
+			console.error(`❌ Erro ao verificar feed ${feed.id}:`, error),
+		);
+	}
+}
+
+function markEntrySeen(id: string, key: string): void {
+	const current = feedStore.get(id);
+	if (!current) return;
+
+	const failedEntries = { ...current.failedEntries };
+	delete failedEntries[key];
+	feedStore.set(id, { ...current, seenEntries: [...current.seenEntries, key], failedEntries });
+}
+
+// Conta mais uma falha da entrada; retorna o total de falhas
+function recordEntryFailure(id: string, key: string): number {
+	const current = feedStore.get(id);
+	if (!current) return 0;
+
+	const attempts = (current.failedEntries?.[key] ?? 0) + 1;
+	feedStore.set(id, { ...current, failedEntries: { ...current.failedEntries, [key]: attempts } });
+	return attempts;
+}
+
+/**
+ * Limita o estado das entradas ao que ainda está no feed: as entradas vistas que saíram dele
+ * ficam só até SEEN_ENTRIES_MARGIN (as mais recentes), e as falhas de entradas que saíram são descartadas
+ */
+export function pruneEntries(
+	feed: Pick<FeedSubscription, "seenEntries" | "failedEntries">,
+	feedKeys: Set<string>,
+): Pick<FeedSubscription, "seenEntries" | "failedEntries"> {
+	const departed = feed.seenEntries.filter((key) => !feedKeys.has(key));
+	const kept = new Set(departed.slice(-SEEN_ENTRIES_MARGIN));
+
+	return {
+		seenEntries: feed.seenEntries.filter((key) => feedKeys.has(key) || kept.has(key)),
+		failedEntries: Object.fromEntries(
+			Object.entries(feed.failedEntries ?? {}).filter(([key]) => feedKeys.has(key)),
+		),
+	};
+}
+
+async function fetchFeed(url: string): Promise<ParsedFeed> {
+	const response = await axios.get<string>(url, {
+		timeout: FEED_TIMEOUT,
+		responseType: "text",
+		headers: {
+			Accept: "application/rss+xml, application/atom+xml, application/xml;q=0.9, text/xml;q=0.9, */*;q=0.8",
+		},
+	});
+
+	return parseFeed(String(response.data), url);
+}
+
+/**
+ * Lê um feed RSS (0.9x/1.0/2.0) ou Atom
+ *
+ * @param xml - Conteúdo do feed
+ * @param baseUrl - URL do feed (resolve links relativos)
+ * @returns Título do canal e entradas com link
+ * @throws Error se o conteúdo não for RSS nem Atom
+ */
+export function parseFeed(xml: string, baseUrl: string): ParsedFeed {
+	const $ = cheerio.load(xml, { xml: true });
+	const read = (element: cheerio.Cheerio<Element>, selector: string) =>
+		element.children(selector).first().text().trim() || null;
+
+	const resolveLink = (href: string | null | undefined): string | null => {
+		if (!href) return null;
+		try {
+			return new URL(href, baseUrl).href;
+		} catch {
+			return null;
+		}
+	};
+
+	const entries: FeedEntry[] = [];
+	const atom = $("feed").first();
+
+	if (atom.length > 0) {
+		atom.children("entry").each((_, el) => {
+			const entry = $(el);
+			const links = entry.children("link");
+			const link = resolveLink(
+				links.filter("[rel='alternate']").attr("href") ||
+					links.not("[rel]").attr("href") ||
+					links.first().attr("href"),
+			);
+			if (!link) return;
+
+			entries.push({
+				key: read(entry, "id") || link,
+				title: read(entry, "title"),
+				link,
+				author: read(entry.children("author").first(), "name"),
+				publishedAt: toIsoDate(read(entry, "published") || read(entry, "updated")),
+			});
+		});
+
+		return { title: read(atom, "title"), entries };
+	}
+
+	if ($("rss, rdf\\:RDF, channel").length === 0) {
+		throw new Error("Conteúdo não é um feed RSS/Atom");
+	}
+
+	$("item").each((_, el) => {
+		const item = $(el);
+		const link = resolveLink(read(item, "link") || item.children("guid[isPermaLink!='false']").text().trim());
+		if (!link) return;
+
+		entries.push({
+			key: read(item, "guid") || link,
+			title: read(item, "title"),
+			link,
+			author: parseRssAuthor(read(item, "author") || read(item, "dc\\:creator")),
+			publishedAt: toIsoDate(read(item, "pubDate") || read(item, "dc\\:date")),
+		});
+	});
+
+	return { title: $("channel > title").first().text().trim() || null, entries };
+}
+
+/**
+ * O <author> do RSS 2.0 costuma vir como "email (Nome)"; mantém só o nome quando houver
+ */
+function parseRssAuthor(author: string | null): string | null {
+	if (!author) return null;
+	const match = author.match(/\(([^)]+)\)/);
+	return (match ? match[1]! : author).trim() || null;
+}
+
+function toIsoDate(value: string | null): string | null {
+	if (!value) return null;
+	const date = new Date(value);
+	return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
@@ -0,0 +1,189 @@
+import { EventEmitter } from "node:events";
+import path from "node:path";
+import { v4 as uuidv4 } from "uuid";
+import { config } from "../config.js";
+import type { IngestionJob, IngestionProgress } from "../types.js";
+import { JsonStore } from "../utils/json-store.js";
+import { processDocument, removeUploadedFile } from "./document.js";
+
+// Jobs persistidos em data/jobs.json para sobreviver a restarts
+const jobStore = new JsonStore<IngestionJob>(
+	path.join(config.storage.directory, "jobs.json"),
+);
+
+const jobEvents = new EventEmitter();
+jobEvents.setMaxListeners(0);
+
+// Fila em memória; processa um job por vez (embeddings locais usam toda a CPU)
+const queue: string[] = [];
+let draining = false;
+
+/**
+ * Cria um job de ingestão e o coloca na fila
+ *
+ * @param input - Arquivo enviado e opções de processamento
+ * @returns Job criado (status "queued")
+ */
+export function createIngestionJob(input: IngestionJob["input"]): IngestionJob {
+	const now = new Date().toISOString();
+	const id = uuidv4();
+	const job = jobStore.set(id, {
+		id,
+		status: "queued",
+		input,
+		progress: { batchesDone: 0, batchesTotal: 0 },
+		errors: [],
+		attempts: 0,
+		createdAt: now,
+		updatedAt: now,
+	});
+
+	enqueue(job.id);
+	return job;
+}
+
+export function getIngestionJob(id: string): IngestionJob | undefined {
+	return jobStore.get(id);
+}
+
+/**
+ * Assina as atualizações de um job
+ *
+ * @returns Função para cancelar a assinatura
+ */
+export function subscribeToJob(
+	id: string,
+	listener: (job: IngestionJob) => void,
+): () => void {
+	jobEvents.on(id, listener);
+	return () => {
+		jobEvents.off(id, listener);
+	};
+}
+
+/**
+ * Recoloca na fila os jobs interrompidos por um restart (queued/running)
+ * Jobs que já estavam inserindo batches são retomados a partir do último batch inserido
+ *
+ * @returns Quantidade de jobs retomados
+ */
+export function resumeIngestionJobs(): number {
+	const pending = jobStore
+		.list()
+		.filter((job) => job.status === "queued" || job.status === "running")
+		.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+	for (const job of pending) {
+		updateJob(job.id, { status: "queued" });
+		enqueue(job.id);
+	}
+
+	return pending.length;
+}
+
+function enqueue(id: string): void {
+	queue.push(id);
+	void drainQueue();
+}
+
+async function drainQueue(): Promise<void> {
+	if (draining) return;
+	draining = true;
+
+	try {
+		while (queue.length > 0) {
+			const id = queue.shift()!;
+			await runJob(id);
+		}
+	} finally {
+		draining = false;
+	}
+}
+
+async function runJob(id: string): Promise<void> {
+	const job = jobStore.get(id);
+	if (!job || job.status === "completed" || job.status === "failed") return;
+
+	const { progress } = job;
+	const canResume =
+		progress.documentId !== undefined &&
+		progress.uploadAt !== undefined &&
+		progress.contentHash !== undefined;
+
+	updateJob(id, {
+		status: "running",
+		attempts: job.attempts + 1,
+		startedAt: job.startedAt || new Date().toISOString(),
+	});
+
+	console.log(
+		`⚙️  Job ${id}: ${job.input.fileName}${canResume ? ` (retomando do batch ${progress.batchesDone})` : ""}`,
+	);
+
+	try {
+		const result = await processDocument({
+			...job.input,
+			onProgress: (update: IngestionProgress) => {
+				const { stage, ...rest } = update;
+				updateJob(id, { stage, progress: { ...jobStore.get(id)!.progress, ...rest } });
+			},
+			...(canResume && {
+				documentId: progress.documentId,
+				resume: {
+					uploadAt: progress.uploadAt!,
+					contentHash: progress.contentHash!,
+					batchesDone: progress.batchesDone,
+				},
+			}),
+		});
+
+		updateJob(id, {
+			status: "completed",
+			result,
+			finishedAt: new Date().toISOString(),
+		});
+		console.log(`✅ Job ${id} concluído`);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		updateJob(id, {
+			status: "failed",
+			errors: [...(jobStore.get(id)?.errors || []), message],
+			finishedAt: new Date().toISOString(),
+		});
+		// Nenhum documento registrado aponta para o arquivo de um job falho
+		removeUploadedFile(job.input.filePath);
+		console.error(`❌ Job ${id} falhou:`, error);
+	}
+
+	pruneFinishedJobs();
+}
+
+/**
+ * Remove do registro os jobs concluídos ou falhos há mais de config.jobs.retentionHours
+ *
+ * @returns Quantidade de jobs removidos
+ */
+export function pruneFinishedJobs(): number {
+	const cutoff = Date.now() - config.jobs.retentionHours * 60 * 60 * 1000;
+	const expired = jobStore
+		.list()
+		.filter((job) => job.finishedAt !== undefined && Date.parse(job.finishedAt) < cutoff);
+
+	for (const job of expired) {
+		jobStore.delete(job.id);
+	}
+
+	return expired.length;
+}
+
+function updateJob(id: string, patch: Partial<IngestionJob>): void {
+	const current = jobStore.get(id);
+	if (!current) return;
+
+	const updated = jobStore.set(id, {
+		...current,
+		...patch,
+		updatedAt: new Date().toISOString(),
+	});
+	jobEvents.emit(id, updated);
+}
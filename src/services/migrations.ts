@@ -0,0 +1,491 @@
+import path from "node:path";
+import { v4 as uuidv4 } from "uuid";
+import { config } from "../config.js";
+import type {
+	CollectionMigration,
+	DocumentRecord,
+	MigrationOptions,
+	MigrationValidation,
+} from "../types.js";
+import { JsonStore } from "../utils/json-store.js";
+import { reindexDocument } from "./document.js";
+import { type EmbeddingModelSpec, getEmbeddings, resolveEmbeddingModel } from "./embeddings.js";
+import { useEmbeddingModel } from "./providers.js";
+import {
+	createEmbeddingCollection,
+	deleteDocumentPoints,
+	getAliasTarget,
+	getCollectionModel,
+	qdrantClient,
+	resolveCollectionName,
+	swapCollectionAlias,
+	versionedCollectionName,
+} from "./qdrant.js";
+import { getDocumentRecord, listDocumentRecords, saveDocumentRecord } from "./registry.js";
+
+// Migrações persistidas em data/migrations.json (rollback depende dos registros anteriores)
+const migrationStore = new JsonStore<CollectionMigration>(
+	path.join(config.storage.directory, "migrations.json"),
+);
+
+// Documentos alterados durante a indexação são reprocessados em até N passadas
+const MAX_CATCH_UP_PASSES = 3;
+
+// Validação: chunks de amostra usados como pergunta e fração mínima que recupera o próprio documento
+const SELF_RETRIEVAL_SAMPLES = 5;
+const SELF_RETRIEVAL_TOP_K = 5;
+const SELF_RETRIEVAL_MIN_HIT_RATE = 0.8;
+
+// Execuções em andamento neste processo (uma migração por vez: reindexar usa toda a CPU)
+const runningMigrations = new Map<string, Promise<void>>();
+
+/**
+ * Operação incompatível com o estado da migração (ex: swap antes da validação)
+ */
+export class MigrationStateError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "MigrationStateError";
+	}
+}
+
+/**
+ * Inicia uma migração blue-green em background: cria uma collection versionada com o novo modelo,
+ * reindexa todos os documentos a partir da fonte original, valida e (com autoSwap) move o alias
+ * As buscas continuam na collection atual até o swap
+ *
+ * @param options - Modelo, chunking e validação da nova collection
+ * @returns Registro da migração (status "building")
+ * @throws MigrationStateError se outra migração estiver em andamento
+ * @throws Error se o modelo informado não puder ser resolvido
+ */
+export async function startMigration(options: MigrationOptions): Promise<CollectionMigration> {
+	const active = getActiveMigration();
+	if (active) {
+		throw new MigrationStateError(`Migração ${active.id} ainda em andamento`);
+	}
+
+	const alias = config.qdrant.collectionName;
+	const sourceCollection = await resolveCollectionName(alias);
+	const sourceModel = await getCollectionModel(alias);
+	const targetCollection = versionedCollectionName(alias);
+
+	// Sem modelo na requisição, a nova collection mantém o modelo da atual (ex: só muda o chunking)
+	const model = options.embedding
+		? resolveEmbeddingModel({
+				...config.embeddings,
+				provider: options.embedding.provider,
+				model: options.embedding.model,
+				dimensions: options.embedding.dimensions,
+				queryPrefix: options.embedding.queryPrefix,
+				passagePrefix: options.embedding.passagePrefix,
+				pooling: options.embedding.pooling,
+			})
+		: sourceModel;
+
+	await createEmbeddingCollection(targetCollection, model);
+
+	const now = new Date().toISOString();
+	const id = uuidv4();
+	const migration = migrationStore.set(id, {
+		id,
+		status: "building",
+		alias,
+		sourceCollection,
+		targetCollection,
+		sourceEmbedding: summarizeModel(sourceModel),
+		targetEmbedding: summarizeModel(model),
+		options,
+		documentsTotal: 0,
+		documentsDone: 0,
+		documentsFailed: 0,
+		errors: [],
+		records: {},
+		createdAt: now,
+		updatedAt: now,
+	});
+
+	console.log(
+		`🚚 Migração ${id}: ${sourceCollection} (${sourceModel.model}) → ${targetCollection} (${model.model})`,
+	);
+
+	const run = runMigration(migration, model)
+		.catch((error) => {
+			console.error(`❌ Migração ${id} falhou:`, error);
+			updateMigration(id, (current) => ({
+				status: "failed",
+				currentDocument: undefined,
+				errors: [
+					...current.errors,
+					{ documentId: "", fileName: "", message: error instanceof Error ? error.message : String(error) },
+				],
+				finishedAt: new Date().toISOString(),
+			}));
+		})
+		.finally(() => runningMigrations.delete(id));
+	runningMigrations.set(id, run);
+
+	return migration;
+}
+
+export function getMigration(id: string): CollectionMigration | undefined {
+	return migrationStore.get(id);
+}
+
+// Lista as migrações da mais recente para a mais antiga
+export function listMigrations(): CollectionMigration[] {
+	return migrationStore.list().sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// Migração indexando ou validando
+export function getActiveMigration(): CollectionMigration | undefined {
+	return migrationStore.list().find((migration) => isActive(migration));
+}
+
+/**
+ * Aguarda a indexação e a validação (e o swap automático) de uma migração iniciada neste processo
+ */
+export async function waitForMigration(id: string): Promise<CollectionMigration | undefined> {
+	await runningMigrations.get(id);
+	return getMigration(id);
+}
+
+/**
+ * Move o alias para a nova collection (troca atômica no Qdrant), aplica os novos registros
+ * de documentos e passa a usar o novo modelo nas perguntas
+ *
+ * @param id - ID da migração
+ * @param force - Troca mesmo se a validação falhou
+ * @throws MigrationStateError se a migração não estiver pronta
+ */
+export async function swapMigration(id: string, force = false): Promise<CollectionMigration | undefined> {
+	const migration = migrationStore.get(id);
+	if (!migration) return undefined;
+
+	if (migration.status !== "ready" && !(force && migration.status === "invalid")) {
+		throw new MigrationStateError(
+			migration.status === "invalid"
+				? `Migração ${id} não passou na validação (use force para trocar mesmo assim)`
+				: `Migração ${id} não está pronta para o swap (status: ${migration.status})`,
+		);
+	}
+
+	const previousCollection = await swapCollectionAlias(migration.alias, migration.targetCollection);
+
+	// Registros substituídos ficam guardados para o rollback
+	const previousRecords: Record<string, DocumentRecord> = {};
+	for (const record of Object.values(migration.records)) {
+		const current = getDocumentRecord(record.id);
+		if (!current) continue;
+
+		previousRecords[record.id] = current;
+		saveDocumentRecord(record);
+	}
+
+	const model = await getCollectionModel(migration.targetCollection);
+	useEmbeddingModel(model);
+
+	const swapped = updateMigration(id, {
+		status: "swapped",
+		sourceCollection: previousCollection ?? migration.sourceCollection,
+		previousRecords,
+		swappedAt: new Date().toISOString(),
+	});
+
+	console.log(`🔀 Migração ${id}: alias '${migration.alias}' agora usa ${model.model}`);
+	warnIfConfiguredModelDiffers(model);
+
+	return swapped;
+}
+
+/**
+ * Volta o alias para a collection anterior e restaura os registros de documentos substituídos
+ * Documentos indexados ou alterados depois do swap só existem na nova collection: são listados
+ * em `changedDocuments` para serem reindexados
+ *
+ * @throws MigrationStateError se a migração não estiver ativa no alias
+ */
+export async function rollbackMigration(
+	id: string,
+): Promise<{ migration: CollectionMigration; changedDocuments: string[] } | undefined> {
+	const migration = migrationStore.get(id);
+	if (!migration) return undefined;
+
+	if (migration.status !== "swapped") {
+		throw new MigrationStateError(`Migração ${id} não está ativa (status: ${migration.status})`);
+	}
+
+	const current = await getAliasTarget(migration.alias, true);
+	if (current !== migration.targetCollection) {
+		throw new MigrationStateError(
+			`O alias '${migration.alias}' aponta para '${current}', não para a collection da migração ${id}`,
+		);
+	}
+
+	await swapCollectionAlias(migration.alias, migration.sourceCollection);
+
+	const changedDocuments: string[] = [];
+	for (const record of listDocumentRecords()) {
+		const previous = migration.previousRecords?.[record.id];
+		const migrated = migration.records[record.id];
+
+		if (previous && migrated && record.updatedAt === migrated.updatedAt) {
+			saveDocumentRecord(previous);
+		} else if (migrated || record.updatedAt > (migration.swappedAt ?? "")) {
+			changedDocuments.push(record.id);
+		}
+		// Documentos que falharam na migração continuam com a versão da collection anterior
+	}
+
+	const model = await getCollectionModel(migration.sourceCollection);
+	useEmbeddingModel(model);
+	warnIfConfiguredModelDiffers(model);
+
+	const rolledBack = updateMigration(id, {
+		status: "rolled_back",
+		rolledBackAt: new Date().toISOString(),
+	})!;
+
+	console.log(`↩️  Migração ${id}: alias '${migration.alias}' de volta para '${migration.sourceCollection}'`);
+	if (changedDocuments.length > 0) {
+		console.warn(`⚠️  ${changedDocuments.length} documentos mudaram depois do swap e precisam ser reindexados`);
+	}
+
+	return { migration: rolledBack, changedDocuments };
+}
+
+/**
+ * Remove a migração e a collection criada por ela (se o alias não estiver apontando para ela)
+ *
+ * @throws MigrationStateError se a migração estiver em andamento ou ativa no alias
+ */
+export async function deleteMigration(id: string): Promise<CollectionMigration | undefined> {
+	const migration = migrationStore.get(id);
+	if (!migration) return undefined;
+
+	if (isActive(migration)) {
+		throw new MigrationStateError(`Migração ${id} ainda em andamento`);
+	}
+
+	if ((await getAliasTarget(migration.alias, true)) === migration.targetCollection) {
+		throw new MigrationStateError(
+			`A collection '${migration.targetCollection}' está em uso pelo alias '${migration.alias}' (faça o rollback antes)`,
+		);
+	}
+
+	const exists = await qdrantClient.collectionExists(migration.targetCollection);
+	if (exists.exists) {
+		await qdrantClient.deleteCollection(migration.targetCollection);
+	}
+
+	migrationStore.delete(id);
+	console.log(`🗑️  Migração ${id} removida (collection '${migration.targetCollection}')`);
+
+	return migration;
+}
+
+/**
+ * Marca como falhas as migrações interrompidas por um restart
+ * (a collection parcial continua no Qdrant até a migração ser removida)
+ *
+ * @returns Quantidade de migrações interrompidas
+ */
+export function failInterruptedMigrations(): number {
+	const interrupted = migrationStore.list().filter((migration) => isActive(migration));
+
+	for (const migration of interrupted) {
+		updateMigration(migration.id, (current) => ({
+			status: "failed",
+			currentDocument: undefined,
+			errors: [
+				...current.errors,
+				{ documentId: "", fileName: "", message: "Migração interrompida por reinício do servidor" },
+			],
+			finishedAt: new Date().toISOString(),
+		}));
+	}
+
+	return interrupted.length;
+}
+
+/**
+ * Reindexa os documentos na nova collection, acompanha as alterações feitas durante a indexação,
+ * valida e faz o swap automático
+ */
+async function runMigration(migration: CollectionMigration, model: EmbeddingModelSpec): Promise<void> {
+	const { id, targetCollection, options } = migration;
+	// updatedAt do registro de origem usado em cada documento migrado
+	const sourceVersions = new Map<string, string>();
+
+	for (let pass = 0; pass <= MAX_CATCH_UP_PASSES; pass++) {
+		const current = listDocumentRecords();
+		const pending = current.filter((record) => sourceVersions.get(record.id) !== record.updatedAt);
+
+		// Documentos removidos durante a indexação
+		const currentIds = new Set(current.map((record) => record.id));
+		for (const documentId of [...sourceVersions.keys()].filter((documentId) => !currentIds.has(documentId))) {
+			await deleteDocumentPoints(documentId, targetCollection);
+			sourceVersions.delete(documentId);
+			updateMigration(id, (state) => {
+				const { [documentId]: _removed, ...records } = state.records;
+				return { records };
+			});
+		}
+
+		if (pending.length === 0) break;
+		if (pass > 0) console.log(`🔁 Migração ${id}: ${pending.length} documentos alterados durante a indexação`);
+
+		updateMigration(id, (state) => ({ documentsTotal: pass === 0 ? pending.length : state.documentsTotal + pending.length }));
+
+		for (const record of pending) {
+			updateMigration(id, { currentDocument: record.fileName });
+
+			try {
+				await reindexDocument(record.id, {
+					...(options.chunking && { chunking: options.chunking }),
+					target: {
+						collectionName: targetCollection,
+						model,
+						onRecord: (migrated) =>
+							updateMigration(id, (state) => ({ records: { ...state.records, [migrated.id]: migrated } })),
+					},
+				});
+				updateMigration(id, (state) => {
+					const errors = state.errors.filter((error) => error.documentId !== record.id);
+					return { documentsDone: state.documentsDone + 1, documentsFailed: errors.length, errors };
+				});
+			} catch (error) {
+				console.error(`❌ Migração ${id}: falha ao reindexar ${record.fileName}:`, error);
+				updateMigration(id, (state) => {
+					const errors = [
+						...state.errors.filter((item) => item.documentId !== record.id),
+						{
+							documentId: record.id,
+							fileName: record.fileName,
+							message: error instanceof Error ? error.message : String(error),
+						},
+					];
+					return { documentsFailed: errors.length, errors };
+				});
+			}
+
+			sourceVersions.set(record.id, record.updatedAt);
+		}
+	}
+
+	updateMigration(id, { status: "validating", currentDocument: undefined });
+	const validation = await validateMigration(getMigration(id)!, model);
+	const failures = getMigration(id)!.documentsFailed;
+	const passed = validation.passed && (options.allowFailures || failures === 0);
+
+	updateMigration(id, {
+		status: passed ? "ready" : "invalid",
+		validation: { ...validation, passed },
+		finishedAt: new Date().toISOString(),
+	});
+
+	console.log(
+		`${passed ? "✅" : "⚠️ "} Migração ${id}: validação ${passed ? "aprovada" : "reprovada"} ` +
+			`(${validation.pointsCount}/${validation.expectedPoints} pontos, ` +
+			`${validation.selfRetrieval.hits}/${validation.selfRetrieval.samples} amostras, ${failures} documentos com erro)`,
+	);
+
+	if (passed && options.autoSwap) {
+		await swapMigration(id);
+	}
+}
+
+/**
+ * Valida a nova collection antes do swap:
+ * - quantidade de pontos igual à soma dos chunks dos documentos migrados
+ * - chunks de amostra recuperam o próprio documento (vetores coerentes com o modelo das perguntas)
+ * - cada pergunta de validação tem um resultado com score mínimo
+ */
+async function validateMigration(
+	migration: CollectionMigration,
+	model: EmbeddingModelSpec,
+): Promise<MigrationValidation> {
+	const { targetCollection, options } = migration;
+	const modelEmbeddings = getEmbeddings(model);
+
+	const { count: pointsCount } = await qdrantClient.count(targetCollection, { exact: true });
+	const expectedPoints = Object.values(migration.records).reduce((sum, record) => sum + record.chunksCount, 0);
+
+	const search = async (text: string) =>
+		qdrantClient.search(targetCollection, {
+			vector: await modelEmbeddings.embedQuery(text),
+			limit: SELF_RETRIEVAL_TOP_K,
+			with_payload: ["documentId"],
+		});
+
+	// IDs são uuid v5 (distribuição uniforme): os primeiros pontos servem de amostra
+	const { points: samples } = await qdrantClient.scroll(targetCollection, {
+		limit: SELF_RETRIEVAL_SAMPLES,
+		with_payload: ["text", "documentId"],
+		with_vector: false,
+	});
+
+	let hits = 0;
+	for (const sample of samples) {
+		const results = await search(String(sample.payload?.text ?? ""));
+		if (results.some((result) => result.payload?.documentId === sample.payload?.documentId)) hits++;
+	}
+
+	const queries: MigrationValidation["queries"] = [];
+	for (const query of options.validationQueries ?? []) {
+		const [top] = await search(query);
+		queries.push({
+			query,
+			topScore: top?.score ?? null,
+			topDocumentId: (top?.payload?.documentId as string | undefined) ?? null,
+			passed: top !== undefined && top.score >= options.minScore,
+		});
+	}
+
+	const passed =
+		pointsCount === expectedPoints &&
+		pointsCount > 0 &&
+		hits >= Math.ceil(samples.length * SELF_RETRIEVAL_MIN_HIT_RATE) &&
+		queries.every((query) => query.passed);
+
+	return {
+		pointsCount,
+		expectedPoints,
+		selfRetrieval: { samples: samples.length, hits },
+		queries,
+		passed,
+		checkedAt: new Date().toISOString(),
+	};
+}
+
+function isActive(migration: CollectionMigration): boolean {
+	return migration.status === "building" || migration.status === "validating";
+}
+
+// O processo atual já usa o modelo da collection ativa, mas o próximo startup exige o .env correspondente
+function warnIfConfiguredModelDiffers(model: EmbeddingModelSpec): void {
+	if (config.embeddings.followCollectionModel || model.model === config.embeddings.model) return;
+
+	console.warn(
+		`⚠️  Atualize EMBEDDING_MODEL=${model.model} no .env (o startup exige o modelo da collection) ` +
+			`ou use EMBEDDING_FOLLOW_COLLECTION_MODEL=true`,
+	);
+}
+
+function summarizeModel({ provider, model, dimension }: EmbeddingModelSpec): CollectionMigration["sourceEmbedding"] {
+	return { provider, model, dimension };
+}
+
+function updateMigration(
+	id: string,
+	patch: Partial<CollectionMigration> | ((current: CollectionMigration) => Partial<CollectionMigration>),
+): CollectionMigration | undefined {
+	const current = migrationStore.get(id);
+	if (!current) return undefined;
+
+	return migrationStore.set(id, {
+		...current,
+		...(typeof patch === "function" ? patch(current) : patch),
+		updatedAt: new Date().toISOString(),
+	});
+}
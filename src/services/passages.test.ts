@@ -0,0 +1,73 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { SearchResponse } from "../types.js";
+
+// O config exige a chave do LLM, mas estes testes não chamam o modelo
+process.env.DEEPSEEK_API_KEY ??= "test";
+const { collapseAdjacentResults, stitchChunks } = await import("./passages.js");
+
+const result = (chunkIndex: number, score: number, metadata: Partial<SearchResponse["metadata"]> = {}): SearchResponse =>
+	({
+		id: `${metadata.documentId ?? "doc"}-${chunkIndex}`,
+		text: `chunk ${chunkIndex}`,
+		score,
+		scores: { dense: score },
+		metadata: { documentId: "doc", fileName: "doc.pdf", contentHash: "v1", chunkIndex, ...metadata },
+	}) as SearchResponse;
+
+describe("stitchChunks", () => {
+	it("remove o trecho repetido pelo chunkOverlap", () => {
+		assert.equal(
+			stitchChunks([
+				"O cache guarda os vetores calculados",
+				"os vetores calculados por modelo e texto.",
+				"modelo e texto. Expira com o tamanho máximo.",
+			]),
+			"O cache guarda os vetores calculados por modelo e texto. Expira com o tamanho máximo.",
+		);
+	});
+
+	it("separa com quebra de linha os chunks sem sobreposição", () => {
+		assert.equal(stitchChunks(["Primeiro parágrafo.", "Segundo parágrafo."]), "Primeiro parágrafo.\nSegundo parágrafo.");
+	});
+
+	it("não trata coincidências curtas (abaixo do mínimo) como sobreposição", () => {
+		assert.equal(stitchChunks(["Termina com fim.", "fim. Começa outro."]), "Termina com fim.\nfim. Começa outro.");
+	});
+
+	it("devolve o próprio texto com um chunk e vazio sem chunks", () => {
+		assert.equal(stitchChunks(["Único chunk"]), "Único chunk");
+		assert.equal(stitchChunks([]), "");
+	});
+});
+
+describe("collapseAdjacentResults", () => {
+	it("junta chunks vizinhos do mesmo documento na posição do melhor resultado", () => {
+		const passages = collapseAdjacentResults([result(4, 0.7), result(9, 0.8), result(3, 0.9), result(5, 0.6)]);
+
+		assert.deepEqual(
+			passages.map((passage) => [passage.score, passage.chunkIndices, passage.metadata.chunkIndex, passage.text]),
+			[
+				[0.9, [3, 4, 5], 3, "chunk 3\nchunk 4\nchunk 5"],
+				[0.8, [9], 9, "chunk 9"],
+			],
+		);
+	});
+
+	it("conta uma vez só o mesmo chunk repetido", () => {
+		const [passage] = collapseAdjacentResults([result(1, 0.9), result(1, 0.5), result(2, 0.4)]);
+
+		assert.deepEqual(passage!.chunkIndices, [1, 2]);
+	});
+
+	it("não junta chunks de documentos ou versões diferentes", () => {
+		const passages = collapseAdjacentResults([
+			result(1, 0.9),
+			result(2, 0.8, { documentId: "outro" }),
+			result(2, 0.7, { contentHash: "v2" }),
+		]);
+
+		assert.equal(passages.length, 3);
+		assert.ok(passages.every((passage) => passage.chunkIndices?.length === 1));
+	});
+});
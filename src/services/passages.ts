@@ -0,0 +1,176 @@
+import { config } from "../config.js";
+import type { SearchResponse } from "../types.js";
+import { qdrantClient } from "./qdrant.js";
+
+// Sobreposição mínima (caracteres) para considerar que o início de um chunk repete o fim do anterior;
+// abaixo disso a coincidência pode ser acaso (ex: só um ponto final)
+const MIN_OVERLAP_LENGTH = 10;
+
+/**
+ * Junta chunks consecutivos em uma passagem, removendo o trecho repetido pelo chunkOverlap
+ * Chunks sem sobreposição são separados por quebra de linha
+ *
+ * @param texts - Textos dos chunks na ordem do documento
+ */
+export function stitchChunks(texts: string[]): string {
+	return texts.reduce((passage, text) => (passage ? appendWithoutOverlap(passage, text) : text), "");
+}
+
+/**
+ * Agrupa resultados que são chunks vizinhos (ou o mesmo chunk) de um documento em uma única passagem
+ * Chunks de versões diferentes do documento (re-index em andamento) não são juntados
+ * A passagem fica na posição do melhor resultado do grupo, com o score e os scores dele e a
+ * metadata do primeiro chunk; `chunkIndices` lista os chunks que a compõem
+ */
+export function collapseAdjacentResults(results: SearchResponse[]): SearchResponse[] {
+	const byVersion = new Map<string, SearchResponse[]>();
+	for (const result of results) {
+		const group = byVersion.get(versionKey(result)) ?? [];
+		group.push(result);
+		byVersion.set(versionKey(result), group);
+	}
+
+	const passages: SearchResponse[] = [];
+	for (const group of byVersion.values()) {
+		const ordered = [...group].sort((a, b) => a.metadata.chunkIndex - b.metadata.chunkIndex);
+		let run: SearchResponse[] = [];
+
+		for (const result of ordered) {
+			const last = run[run.length - 1];
+			if (last && result.metadata.chunkIndex - last.metadata.chunkIndex > 1) {
+				passages.push(mergeRun(run));
+				run = [];
+			}
+			run.push(result);
+		}
+		if (run.length > 0) passages.push(mergeRun(run));
+	}
+
+	return passages.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Amplia cada resultado com os ±window chunks vizinhos do documento, buscados no Qdrant por filtro
+ * de payload (documentId, versão do conteúdo e faixa de chunkIndex), e junta tudo em uma passagem
+ * Janelas do mesmo documento que se sobrepõem (ou se tocam) viram uma passagem só, com o score
+ * do melhor resultado; `chunkIndices` lista os chunks de cada passagem
+ *
+ * @param results - Resultados da busca (passagens já juntadas usam a faixa de `chunkIndices`)
+ * @param window - Chunks vizinhos de cada lado
+ */
+export async function expandContextWindow(results: SearchResponse[], window: number): Promise<SearchResponse[]> {
+	const windows = mergeWindows(
+		results.map((result) => {
+			const [first, last] = chunkRange(result);
+			return { result, from: Math.max(0, first - window), to: last + window };
+		}),
+	);
+
+	const passages = await Promise.all(
+		windows.map(async ({ result, from, to }) => {
+			const chunks = await fetchChunkRange(result, from, to);
+			// Documento removido ou reindexado durante a busca: mantém o resultado original
+			if (chunks.length === 0) return result;
+
+			return {
+				...result,
+				text: stitchChunks(chunks.map((chunk) => chunk.text)),
+				chunkIndices: chunks.map((chunk) => chunk.chunkIndex),
+			};
+		}),
+	);
+
+	return passages.sort((a, b) => b.score - a.score);
+}
+
+interface ChunkWindow {
+	result: SearchResponse;
+	from: number;
+	to: number;
+}
+
+// Junta janelas do mesmo documento (e versão) que se sobrepõem ou se tocam; o melhor resultado representa a passagem
+function mergeWindows(windows: ChunkWindow[]): ChunkWindow[] {
+	const ordered = [...windows].sort(
+		(a, b) => versionKey(a.result).localeCompare(versionKey(b.result)) || a.from - b.from,
+	);
+	const merged: ChunkWindow[] = [];
+
+	for (const window of ordered) {
+		const last = merged[merged.length - 1];
+		if (last && versionKey(last.result) === versionKey(window.result) && window.from <= last.to + 1) {
+			last.to = Math.max(last.to, window.to);
+			if (window.result.score > last.result.score) last.result = window.result;
+		} else {
+			merged.push({ ...window });
+		}
+	}
+
+	return merged;
+}
+
+// Chunks de outra versão do documento (re-index em andamento) não entram na mesma passagem
+function versionKey(result: SearchResponse): string {
+	return `${result.metadata.documentId}:${result.metadata.contentHash ?? ""}`;
+}
+
+async function fetchChunkRange(
+	result: SearchResponse,
+	from: number,
+	to: number,
+): Promise<Array<{ chunkIndex: number; text: string }>> {
+	const { documentId, contentHash } = result.metadata;
+	const page = await qdrantClient.scroll(config.qdrant.collectionName, {
+		filter: {
+			must: [
+				{ key: "documentId", match: { value: documentId } },
+				{ key: "chunkIndex", range: { gte: from, lte: to } },
+				...(contentHash ? [{ key: "contentHash", match: { value: contentHash } }] : []),
+			],
+		},
+		limit: to - from + 1,
+		with_payload: ["chunkIndex", "text"],
+		with_vector: false,
+	});
+
+	return page.points
+		.map((point) => ({
+			chunkIndex: point.payload?.chunkIndex as number,
+			text: point.payload?.text as string,
+		}))
+		.sort((a, b) => a.chunkIndex - b.chunkIndex);
+}
+
+// Primeiro e último chunk de um resultado (passagens juntadas ocupam uma faixa)
+function chunkRange(result: SearchResponse): [number, number] {
+	const indices = result.chunkIndices ?? [result.metadata.chunkIndex];
+	return [Math.min(...indices), Math.max(...indices)];
+}
+
+// Sequência de chunks vizinhos (ordenada por chunkIndex) → uma passagem
+function mergeRun(run: SearchResponse[]): SearchResponse {
+	// Resultados repetidos do mesmo chunk entram uma vez só
+	const chunks = run.filter((result, index) => result.metadata.chunkIndex !== run[index - 1]?.metadata.chunkIndex);
+	const first = chunks[0]!;
+	const best = run.reduce((top, result) => (result.score > top.score ? result : top));
+
+	return {
+		...best,
+		text: stitchChunks(chunks.map((chunk) => chunk.text)),
+		metadata: first.metadata,
+		chunkIndices: chunks.map((chunk) => chunk.metadata.chunkIndex),
+	};
+}
+
+// Maior sufixo da passagem que é prefixo do próximo chunk
+function appendWithoutOverlap(passage: string, next: string): string {
+	const maxOverlap = Math.min(passage.length, next.length);
+
+	for (let size = maxOverlap; size >= MIN_OVERLAP_LENGTH; size--) {
+		if (passage.endsWith(next.slice(0, size))) {
+			return passage + next.slice(size);
+		}
+	}
+
+	return `${passage}\n${next}`;
+}
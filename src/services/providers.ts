@@ -1,12 +1,22 @@
-import { HuggingFaceTransformersEmbeddings } from "@langchain/community/embeddings/huggingface_transformers";
 import { ChatDeepSeek } from "@langchain/deepseek";
 import { config } from "../config.js";
+import { type EmbeddingModelSpec, getEmbeddings, resolveEmbeddingModel } from "./embeddings.js";
 
-// Embeddings - HuggingFace local (384 dimensões, 100% offline)
-// Modelo: Xenova/bge-small-en-v1.5 (~133MB, download automático na primeira execução)
-export const embeddings = new HuggingFaceTransformersEmbeddings({
-	model: "Xenova/bge-small-en-v1.5",
-});
+// Modelo de embeddings ativo (EMBEDDING_MODEL / EMBEDDING_PROVIDER; trocado por useEmbeddingModel() na migração)
+// Padrão: Xenova/bge-small-en-v1.5 local (384 dimensões, 100% offline, download automático na primeira execução)
+export let embeddingModel = resolveEmbeddingModel();
+
+// Embeddings da indexação e das perguntas (com os prefixos de query/passage do modelo)
+export let embeddings = getEmbeddings(embeddingModel);
+
+/**
+ * Troca o modelo usado nas perguntas e nas novas indexações
+ * (a collection passou a ser de outro modelo: swap ou rollback de uma migração)
+ */
+export function useEmbeddingModel(model: EmbeddingModelSpec): void {
+	embeddingModel = model;
+	embeddings = getEmbeddings(model);
+}
 
 // LLM - DeepSeek (95% mais barato que Gemini, cache 90% desconto)
 export const llm = new ChatDeepSeek({
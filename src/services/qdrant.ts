@@ -1,59 +1,438 @@
-import { QdrantClient } from "@qdrant/js-client-rest";
+import { QdrantClient, type Schemas } from "@qdrant/js-client-rest";
 import { config } from "../config.js";
+import { type EmbeddingModelSpec, resolveEmbeddingModel } from "./embeddings.js";
+import { embeddingModel, useEmbeddingModel } from "./providers.js";
+import { computeSparseVector, SPARSE_VECTOR_NAME } from "./sparse.js";
 
 export const qdrantClient = new QdrantClient({
 	url: config.qdrant.url,
 	timeout: 300000, // 5 minutos de timeout para operações
 });
 
-// Cria a coleção no Qdrant se ela não existir
-export async function initQdrantCollection() {
-	const collectionName = config.qdrant.collectionName;
+/**
+ * Índices de payload usados em filtros (remoção dos chunks de um documento, filtros de metadata da busca
+ * e busca dos chunks vizinhos de um resultado)
+ */
+const PAYLOAD_INDEXES = [
+	{ field: "documentId", schema: "keyword" },
+	{ field: "contentHash", schema: "keyword" },
+	{ field: "chunkIndex", schema: "integer" },
+	{ field: "fileName", schema: "keyword" },
+	{ field: "type", schema: "keyword" },
+	{ field: "tags", schema: "keyword" },
+	{ field: "uploadAt", schema: "datetime" },
+	{ field: "scrapedAt", schema: "datetime" },
+	{ field: "publishedAt", schema: "datetime" },
+] as const;
 
-	// Verificar se a coleção já existe
-	const existingCollections = await qdrantClient.getCollections();
-	const collectionExists = existingCollections.collections.some(
-		(col) => col.name === collectionName
-	);
+/**
+ * Modelo de embeddings com que a collection foi criada (gravado na metadata da collection)
+ */
+export interface CollectionEmbedding {
+	provider: string;
+	model: string;
+	dimension: number;
+}
 
-	if (!collectionExists) {
-		// Cria a coleção com a configuração de vetor (embedding) e metadados
-		await qdrantClient.createCollection(collectionName, {
-			vectors: {
-				size: 384, // Xenova/bge-small-en-v1.5
-				distance: "Cosine",
-			},
-		});
+// Collections criadas antes do registro de modelos usavam sempre este modelo
+const LEGACY_EMBEDDING_MODEL = "Xenova/bge-small-en-v1.5";
 
-		console.log(`Coleção '${collectionName}' criada com sucesso no Qdrant.`);
-	} else {
-		console.log(`Coleção '${collectionName}' já existe no Qdrant.`);
+// Pontos por página ao copiar uma collection
+const COPY_BATCH_SIZE = 256;
+
+// O alias pode ser trocado por outro processo (ex: npm run migrate): a resolução expira rápido
+const ALIAS_CACHE_TTL = 10 * 1000;
+
+/**
+ * Modelo configurado diferente do modelo com que a collection foi criada
+ * (vetores de modelos diferentes não são comparáveis)
+ */
+export class EmbeddingModelMismatchError extends Error {
+	constructor(
+		public readonly collectionName: string,
+		public readonly collection: CollectionEmbedding,
+		public readonly configured: CollectionEmbedding,
+	) {
+		super(
+			`A collection "${collectionName}" foi criada com o modelo ${collection.model} (${collection.dimension} dimensões), ` +
+				`mas o modelo configurado é ${configured.model} (${configured.dimension} dimensões). ` +
+				`Use EMBEDDING_MODEL=${collection.model} ou indexe os documentos em outra collection.`,
+		);
+		this.name = "EmbeddingModelMismatchError";
 	}
 }
 
+/**
+ * Busca por palavra-chave (sparse/hybrid) em uma collection criada sem o vetor esparso BM25
+ */
+export class SparseVectorsUnavailableError extends Error {
+	constructor(public readonly collectionName: string) {
+		super(
+			`A collection "${collectionName}" foi criada sem o vetor esparso BM25 e não aceita busca "sparse" ou "hybrid". ` +
+				`Migre os documentos para uma nova collection (npm run migrate -- --model=<modelo atual>) ou use mode "dense".`,
+		);
+		this.name = "SparseVectorsUnavailableError";
+	}
+}
+
+// Modelo de cada collection (nome real, não o alias), lido do Qdrant uma vez
+const collectionModels = new Map<string, EmbeddingModelSpec>();
+// Se cada collection (nome real) tem o vetor esparso BM25
+const sparseCollections = new Map<string, boolean>();
+let aliasCache: { expiresAt: number; targets: Map<string, string> } | null = null;
+
+/**
+ * Prepara a collection principal no startup
+ * `config.qdrant.collectionName` é um alias para a collection versionada atual (`<alias>_<timestamp>`),
+ * trocado atomicamente pelas migrações; collections criadas antes dos aliases continuam
+ * sendo usadas diretamente até a primeira migração
+ *
+ * Com EMBEDDING_FOLLOW_COLLECTION_MODEL=true, o modelo gravado na collection existente passa a ser
+ * o modelo ativo (depois do swap ou do rollback de uma migração, sem editar o .env)
+ *
+ * @throws EmbeddingModelMismatchError se a collection foi criada com outro modelo (sem a opção acima)
+ */
+export async function initQdrantCollection() {
+	const alias = config.qdrant.collectionName;
+	const target = await getAliasTarget(alias, true);
+	const existingCollections = await qdrantClient.getCollections();
+	const isLegacyCollection = existingCollections.collections.some((col) => col.name === alias);
+
+	if (target || isLegacyCollection) {
+		if (config.embeddings.followCollectionModel) {
+			await useCollectionEmbeddingModel(alias);
+		} else {
+			// Falha na inicialização se a collection foi criada com outro modelo
+			await assertCollectionEmbedding(alias);
+		}
+		await ensurePayloadIndexes(target ?? alias);
+		console.log(`Coleção '${alias}' já existe no Qdrant${target ? ` (alias → ${target})` : ""}.`);
+		return;
+	}
+
+	const collectionName = versionedCollectionName(alias);
+	await createEmbeddingCollection(collectionName);
+	await swapCollectionAlias(alias, collectionName);
+
+	console.log(
+		`Coleção '${collectionName}' criada com sucesso no Qdrant (alias '${alias}', ${embeddingModel.model}, ${embeddingModel.dimension} dimensões).`,
+	);
+}
+
+/**
+ * Remove todos os pontos (chunks) de um documento via filtro de payload
+ *
+ * @param documentId - ID do documento
+ * @param collectionName - Nome da collection (padrão: collection principal)
+ */
+export async function deleteDocumentPoints(
+	documentId: string,
+	collectionName: string = config.qdrant.collectionName
+): Promise<void> {
+	await qdrantClient.delete(collectionName, {
+		filter: {
+			must: [{ key: "documentId", match: { value: documentId } }],
+		},
+		wait: true,
+	});
+}
+
 /**
  * Garante que uma collection existe com configuração apropriada
  * Cria a collection se não existir
  *
  * @param collectionName - Nome da collection
- * @param vectorSize - Dimensão dos vetores (padrão: 384)
+ * @param model - Modelo de embeddings da collection (padrão: modelo configurado)
  */
 export async function ensureCollection(
 	collectionName: string,
-	vectorSize: number = 384
+	model: EmbeddingModelSpec = embeddingModel
 ): Promise<void> {
 	try {
 		await qdrantClient.getCollection(collectionName);
 		console.log(`✅ Collection "${collectionName}" já existe`);
 	} catch {
 		console.log(`📦 Criando collection "${collectionName}"...`);
-		await qdrantClient.createCollection(collectionName, {
-			vectors: {
-				size: vectorSize,
-				distance: "Cosine",
-			},
-		});
+		await createEmbeddingCollection(collectionName, model);
 		console.log(`✅ Collection "${collectionName}" criada`);
 	}
 }
 
+/**
+ * Cria a collection com a dimensão do modelo e o vetor esparso BM25 (IDF calculado pelo Qdrant),
+ * grava o modelo na metadata da collection e cria os índices de payload
+ */
+export async function createEmbeddingCollection(
+	collectionName: string,
+	model: EmbeddingModelSpec = embeddingModel
+): Promise<void> {
+	await qdrantClient.createCollection(collectionName, {
+		vectors: {
+			size: model.dimension,
+			distance: "Cosine",
+		},
+		sparse_vectors: {
+			[SPARSE_VECTOR_NAME]: { modifier: "idf" },
+		},
+		metadata: { embedding: { ...model } },
+	});
+
+	await ensurePayloadIndexes(collectionName);
+	collectionModels.set(collectionName, model);
+	sparseCollections.set(collectionName, true);
+}
+
+/**
+ * Se a collection tem o vetor esparso BM25 (collections criadas antes dele só aceitam busca densa)
+ *
+ * @param collectionName - Nome ou alias da collection (padrão: collection principal)
+ */
+export async function hasSparseVectors(
+	collectionName: string = config.qdrant.collectionName
+): Promise<boolean> {
+	const realName = await resolveCollectionName(collectionName);
+	const cached = sparseCollections.get(realName);
+	if (cached !== undefined) return cached;
+
+	const info = await qdrantClient.getCollection(realName);
+	const supported = Boolean(info.config.params.sparse_vectors?.[SPARSE_VECTOR_NAME]);
+	sparseCollections.set(realName, supported);
+	return supported;
+}
+
+/**
+ * Nome de uma nova collection versionada para o alias (ex: documents_20250301120000)
+ */
+export function versionedCollectionName(alias: string): string {
+	return `${alias}_${new Date().toISOString().replace(/\D/g, "").slice(0, 14)}`;
+}
+
+/**
+ * Collection para a qual o alias aponta (null se o alias não existir)
+ *
+ * @param fresh - Ignora o cache (ex: antes de trocar o alias)
+ */
+export async function getAliasTarget(alias: string, fresh = false): Promise<string | null> {
+	if (fresh || !aliasCache || aliasCache.expiresAt < Date.now()) {
+		const { aliases } = await qdrantClient.getAliases();
+		aliasCache = {
+			expiresAt: Date.now() + ALIAS_CACHE_TTL,
+			targets: new Map(aliases.map((item) => [item.alias_name, item.collection_name])),
+		};
+	}
+
+	return aliasCache.targets.get(alias) ?? null;
+}
+
+/**
+ * Nome real da collection (resolve o alias)
+ */
+export async function resolveCollectionName(name: string): Promise<string> {
+	return (await getAliasTarget(name)) ?? name;
+}
+
+/**
+ * Aponta o alias para a collection em uma única operação atômica do Qdrant
+ * (as buscas passam da collection anterior para a nova sem janela de índice incompleto)
+ * Uma collection real com o nome do alias (criada antes dos aliases) é copiada para
+ * `<alias>_legacy` e removida, para que o rollback continue possível
+ *
+ * @returns Collection para a qual o alias apontava (null se não existia)
+ */
+export async function swapCollectionAlias(alias: string, collectionName: string): Promise<string | null> {
+	let previous = await getAliasTarget(alias, true);
+
+	if (!previous) {
+		const existingCollections = await qdrantClient.getCollections();
+		if (existingCollections.collections.some((col) => col.name === alias)) {
+			previous = `${alias}_legacy`;
+			console.log(`📦 Copiando a collection '${alias}' para '${previous}' (conversão para alias)...`);
+			await copyCollection(alias, previous);
+			await qdrantClient.deleteCollection(alias);
+			collectionModels.delete(alias);
+			sparseCollections.delete(alias);
+		}
+	}
+
+	await qdrantClient.updateCollectionAliases({
+		actions: [
+			...(previous ? [{ delete_alias: { alias_name: alias } }] : []),
+			{ create_alias: { collection_name: collectionName, alias_name: alias } },
+		],
+	});
+
+	aliasCache = null;
+	console.log(`🔀 Alias '${alias}' → '${collectionName}'${previous ? ` (antes: '${previous}')` : ""}`);
+
+	return previous;
+}
+
+/**
+ * Copia pontos (com vetores e payload) e o modelo registrado para uma nova collection
+ * Pontos só com o vetor denso (collections anteriores ao BM25) ganham o vetor esparso a partir do texto
+ */
+async function copyCollection(source: string, target: string): Promise<void> {
+	await createEmbeddingCollection(target, await getCollectionModel(source));
+
+	let offset: string | number | undefined;
+	do {
+		const page = await qdrantClient.scroll(source, {
+			limit: COPY_BATCH_SIZE,
+			with_payload: true,
+			with_vector: true,
+			...(offset !== undefined && { offset }),
+		});
+
+		if (page.points.length > 0) {
+			await qdrantClient.upsert(target, {
+				points: page.points.map((point) => ({
+					id: point.id,
+					vector: Array.isArray(point.vector)
+						? { "": point.vector as number[], [SPARSE_VECTOR_NAME]: computeSparseVector(String(point.payload?.text ?? "")) }
+						: (point.vector as Schemas["VectorStruct"]),
+					payload: point.payload ?? {},
+				})),
+				wait: true,
+			});
+		}
+
+		const next = page.next_page_offset;
+		offset = typeof next === "string" || typeof next === "number" ? next : undefined;
+	} while (offset !== undefined);
+}
+
+/**
+ * Modelo de embeddings (completo: prefixos e pooling) com que a collection foi criada
+ * Collections sem o registro (criadas antes dele) recebem o modelo usado até então
+ *
+ * @param collectionName - Nome ou alias da collection (padrão: collection principal)
+ */
+export async function getCollectionModel(
+	collectionName: string = config.qdrant.collectionName
+): Promise<EmbeddingModelSpec> {
+	const realName = await resolveCollectionName(collectionName);
+	const cached = collectionModels.get(realName);
+	if (cached) return cached;
+
+	const info = await qdrantClient.getCollection(realName);
+	const recorded = info.config.metadata?.embedding as Partial<EmbeddingModelSpec> | undefined;
+
+	let model: EmbeddingModelSpec;
+	if (recorded && typeof recorded.model === "string" && typeof recorded.dimension === "number") {
+		// Registros sem prefixos/pooling (versão anterior do registro) usam os valores conhecidos do modelo
+		const resolved = resolveEmbeddingModel({
+			...config.embeddings,
+			provider: recorded.provider,
+			model: recorded.model,
+			dimensions: recorded.dimension,
+			queryPrefix: undefined,
+			passagePrefix: undefined,
+			pooling: undefined,
+		});
+		model = { ...resolved, ...recorded } as EmbeddingModelSpec;
+	} else {
+		const vectors = info.config.params.vectors as { size?: number } | undefined;
+		model = resolveEmbeddingModel({
+			...config.embeddings,
+			provider: "transformers",
+			model: LEGACY_EMBEDDING_MODEL,
+			dimensions: vectors?.size,
+			queryPrefix: undefined,
+			passagePrefix: undefined,
+			pooling: undefined,
+		});
+		await qdrantClient.updateCollection(realName, { metadata: { embedding: { ...model } } });
+		console.log(`📝 Collection "${realName}" registrada com o modelo ${model.model}`);
+	}
+
+	collectionModels.set(realName, model);
+	return model;
+}
+
+/**
+ * Passa a usar nas perguntas e nas indexações o modelo com que a collection foi criada
+ * Um modelo configurado diferente só gera aviso (EMBEDDING_FOLLOW_COLLECTION_MODEL=true)
+ *
+ * @param collectionName - Nome ou alias da collection (padrão: collection principal)
+ */
+export async function useCollectionEmbeddingModel(
+	collectionName: string = config.qdrant.collectionName
+): Promise<EmbeddingModelSpec> {
+	const model = await getCollectionModel(collectionName);
+
+	if (model.model !== embeddingModel.model || model.dimension !== embeddingModel.dimension) {
+		console.warn(
+			`⚠️  A collection "${collectionName}" usa o modelo ${model.model} (${model.dimension} dimensões); ` +
+				`o modelo configurado (${embeddingModel.model}) é ignorado`,
+		);
+	}
+
+	useEmbeddingModel(model);
+	return model;
+}
+
+/**
+ * Provider, modelo e dimensão com que a collection foi criada
+ *
+ * @param collectionName - Nome ou alias da collection (padrão: collection principal)
+ */
+export async function getCollectionEmbedding(
+	collectionName: string = config.qdrant.collectionName
+): Promise<CollectionEmbedding> {
+	const { provider, model, dimension } = await getCollectionModel(collectionName);
+	return { provider, model, dimension };
+}
+
+/**
+ * Garante que a collection foi criada com o mesmo modelo (e dimensão) configurado
+ *
+ * @param collectionName - Nome ou alias da collection (padrão: collection principal)
+ * @throws EmbeddingModelMismatchError se o modelo ou a dimensão forem diferentes
+ */
+export async function assertCollectionEmbedding(
+	collectionName: string = config.qdrant.collectionName,
+	model: EmbeddingModelSpec = embeddingModel
+): Promise<void> {
+	const embedding = await getCollectionEmbedding(collectionName);
+
+	if (embedding.model !== model.model || embedding.dimension !== model.dimension) {
+		throw new EmbeddingModelMismatchError(collectionName, embedding, {
+			provider: model.provider,
+			model: model.model,
+			dimension: model.dimension,
+		});
+	}
+}
+
+// Garante os índices de payload (operação idempotente no Qdrant)
+async function ensurePayloadIndexes(collectionName: string): Promise<void> {
+	for (const index of PAYLOAD_INDEXES) {
+		await qdrantClient.createPayloadIndex(collectionName, {
+			field_name: index.field,
+			field_schema: index.schema,
+			wait: true,
+		});
+	}
+}
+
+/**
+ * Remove os pontos de um documento que não pertencem à indexação mais recente
+ * Usado no re-index: a nova versão é inserida antes de apagar a anterior
+ *
+ * @param documentId - ID do documento
+ * @param uploadAt - Timestamp (payload uploadAt) da indexação atual
+ * @param collectionName - Nome da collection (padrão: collection principal)
+ */
+export async function deleteStaleDocumentPoints(
+	documentId: string,
+	uploadAt: string,
+	collectionName: string = config.qdrant.collectionName
+): Promise<void> {
+	await qdrantClient.delete(collectionName, {
+		filter: {
+			must: [{ key: "documentId", match: { value: documentId } }],
+			must_not: [{ key: "uploadAt", match: { value: uploadAt } }],
+		},
+		wait: true,
+	});
+}
@@ -0,0 +1,84 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+// O config exige a chave do LLM, mas estes testes não chamam o modelo
+process.env.DEEPSEEK_API_KEY ??= "test";
+const { fuseRankings, selectMmr } = await import("./query.js");
+
+const point = (id: string, score: number) => ({ id, version: 0, score, payload: { text: id, documentId: "doc", chunkIndex: 0 } });
+
+describe("fuseRankings", () => {
+	it("soma peso / (k + posição) de cada busca e ordena pelo score fundido", () => {
+		const results = fuseRankings(
+			[
+				{ retriever: "dense", points: [point("a", 0.9), point("b", 0.8)], weight: 1 },
+				{ retriever: "sparse", points: [point("b", 12), point("c", 7)], weight: 1 },
+			],
+			60,
+			10,
+		);
+
+		assert.deepEqual(
+			results.map((result) => result.id),
+			["b", "a", "c"],
+		);
+		assert.equal(results[0]!.score, 1 / 62 + 1 / 61);
+		assert.deepEqual(results[0]!.scores, { dense: 0.8, sparse: 12, fused: 1 / 62 + 1 / 61 });
+		assert.deepEqual(results[1]!.scores, { dense: 0.9, sparse: null, fused: 1 / 61 });
+	});
+
+	it("aplica os pesos e corta no topK", () => {
+		const results = fuseRankings(
+			[
+				{ retriever: "dense", points: [point("a", 0.9)], weight: 1 },
+				{ retriever: "sparse", points: [point("c", 7)], weight: 3 },
+			],
+			60,
+			1,
+		);
+
+		assert.deepEqual(
+			results.map((result) => [result.id, result.score]),
+			[["c", 3 / 61]],
+		);
+	});
+
+	it("ignora a busca com peso 0, inclusive nos scores", () => {
+		const [result] = fuseRankings(
+			[
+				{ retriever: "dense", points: [point("a", 0.9)], weight: 1 },
+				{ retriever: "sparse", points: [point("c", 7)], weight: 0 },
+			],
+			60,
+			10,
+		);
+
+		assert.deepEqual(result!.scores, { dense: 0.9, fused: 1 / 61 });
+	});
+});
+
+describe("selectMmr", () => {
+	// "a" e "b" são quase o mesmo texto; "c" é menos relevante, mas traz outro assunto
+	const candidates = [
+		{ ...point("a", 0.9), vector: [1, 0] },
+		{ ...point("b", 0.89), vector: { "": [0.99, 0.1] } },
+		{ ...point("c", 0.7), vector: [0, 1] },
+	];
+
+	it("troca o candidato repetido por um mais diverso", () => {
+		const results = selectMmr(candidates, 2, 0.5);
+
+		assert.deepEqual(
+			results.map((result) => result.id),
+			["a", "c"],
+		);
+		assert.deepEqual(results[0]!.scores, { dense: 0.9, mmr: 0.45 });
+	});
+
+	it("com lambda 1 mantém a ordem de relevância", () => {
+		assert.deepEqual(
+			selectMmr(candidates, 3, 1).map((result) => result.id),
+			["a", "b", "c"],
+		);
+	});
+});
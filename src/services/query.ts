@@ -1,38 +1,309 @@
+import type { Schemas } from "@qdrant/js-client-rest";
 import { config } from "../config.js";
-import type { QueryRequest, QueryResponse, SearchResponse } from "../types.js";
+import type { DocumentType } from "../loaders/index.js";
+import type {
+	QueryRequest,
+	QueryResponse,
+	RetrievalMode,
+	RetrievalScores,
+	RetrievalWeights,
+	SearchResponse,
+} from "../types.js";
 import { embeddings } from "./providers.js";
-import { qdrantClient } from "./qdrant.js";
+import { collapseAdjacentResults, expandContextWindow } from "./passages.js";
+import { assertCollectionEmbedding, hasSparseVectors, qdrantClient, SparseVectorsUnavailableError } from "./qdrant.js";
+import { rerankTexts } from "./reranker.js";
+import { toQdrantFilter } from "./search-filter.js";
+import { computeQuerySparseVector, SPARSE_VECTOR_NAME } from "./sparse.js";
+
+type QdrantFilter = Schemas["Filter"];
+type ScoredPoint = Schemas["ScoredPoint"];
 
 export async function searchDocuments({
 	question,
 	topK = 3,
+	filter,
+	mode,
+	weights,
+	rerank = config.reranking.enabled,
+	rerankCandidates = config.reranking.candidates,
+	mmrLambda = config.retrieval.mmrLambda,
+	collapseAdjacent = config.retrieval.collapseAdjacent,
+	contextWindow = config.retrieval.contextWindow,
 }: QueryRequest): Promise<QueryResponse> {
-	// Generate embedding for the query question
+	const retrievalMode = await resolveRetrievalMode(mode);
+	// Reranking over-fetches a larger candidate pool and keeps the best topK; collapsing merges
+	// neighbouring hits into fewer passages, so it over-fetches too and keeps the first topK passages
+	const limit = Math.max(
+		topK,
+		rerank ? rerankCandidates : 0,
+		collapseAdjacent ? config.retrieval.collapseCandidates : 0,
+	);
+
+	// The question must be embedded with the same model the collection was built with
+	if (retrievalMode !== "sparse") {
+		await assertCollectionEmbedding(config.qdrant.collectionName);
+	}
+
+	// Every retriever is restricted by the same metadata filter (if any)
+	const qdrantFilter = toQdrantFilter(filter);
+
+	let results: SearchResponse[];
+	if (retrievalMode === "hybrid") {
+		results = await hybridSearch(question, limit, qdrantFilter, weights);
+	} else if (retrievalMode === "mmr") {
+		results = await mmrSearch(question, limit, qdrantFilter, mmrLambda);
+	} else {
+		const points =
+			retrievalMode === "dense"
+				? await denseSearch(question, limit, qdrantFilter)
+				: await sparseSearch(question, limit, qdrantFilter);
+		results = points.map((point) => toSearchResponse(point, point.score, { [retrievalMode]: point.score }));
+	}
+
+	if (rerank) {
+		results = await rerankResults(question, results, collapseAdjacent ? limit : topK);
+	}
+
+	if (collapseAdjacent) {
+		results = collapseAdjacentResults(results).slice(0, topK);
+	}
+
+	// Neighbouring chunks give the prompt the text around each hit
+	if (contextWindow > 0) {
+		results = await expandContextWindow(results, contextWindow);
+	}
+
+	return {
+		question,
+		mode: retrievalMode,
+		reranked: rerank,
+		results,
+		retrievedChunks: results.reduce((count, result) => count + (result.chunkIndices?.length ?? 1), 0),
+	};
+}
+
+// Without an explicit mode, collections created before the BM25 vector fall back to dense search
+async function resolveRetrievalMode(mode: RetrievalMode | undefined): Promise<RetrievalMode> {
+	const requested = mode ?? config.retrieval.mode;
+	if (requested === "dense" || requested === "mmr" || (await hasSparseVectors())) return requested;
+
+	if (mode) throw new SparseVectorsUnavailableError(config.qdrant.collectionName);
+	return "dense";
+}
+
+async function denseSearch(
+	question: string,
+	limit: number,
+	filter: QdrantFilter | undefined,
+	withVector = false,
+): Promise<ScoredPoint[]> {
 	const queryVector = await embeddings.embedQuery(question);
 
-	// Perform vector search in Qdrant
-	const searchResult = await qdrantClient.search(config.qdrant.collectionName, {
+	return qdrantClient.search(config.qdrant.collectionName, {
 		vector: queryVector,
-		limit: topK,
+		limit,
 		with_payload: true,
+		...(withVector && { with_vector: true }),
+		...(filter && { filter }),
 	});
+}
 
-	// Map search results to the SearchResponse format
-	const results: SearchResponse[] = searchResult.map((result) => ({
-		id: result.id as string,
-		text: result.payload?.text as string,
-		score: result.score,
-		metadata: {
-			documentId: result.payload?.documentId as string,
-			fileName: result.payload?.fileName as string,
-			chunkIndex: result.payload?.chunkIndex as number,
-			page: result.payload?.page as number,
-		},
-	}));
+async function sparseSearch(question: string, limit: number, filter: QdrantFilter | undefined): Promise<ScoredPoint[]> {
+	const queryVector = computeQuerySparseVector(question);
+	// Only stopwords or punctuation: nothing to match by keyword
+	if (queryVector.indices.length === 0) return [];
+
+	return qdrantClient.search(config.qdrant.collectionName, {
+		vector: { name: SPARSE_VECTOR_NAME, vector: queryVector },
+		limit,
+		with_payload: true,
+		...(filter && { filter }),
+	});
+}
+
+/**
+ * Runs dense and sparse search over an enlarged candidate pool and merges them with
+ * weighted reciprocal rank fusion: score = Σ weight / (k + rank)
+ */
+async function hybridSearch(
+	question: string,
+	topK: number,
+	filter: QdrantFilter | undefined,
+	weights: RetrievalWeights | undefined,
+): Promise<SearchResponse[]> {
+	const denseWeight = weights?.dense ?? config.retrieval.denseWeight;
+	const sparseWeight = weights?.sparse ?? config.retrieval.sparseWeight;
+	const candidates = Math.max(topK, config.retrieval.hybridCandidates);
+
+	// A zero weight disables the retriever entirely
+	const [densePoints, sparsePoints] = await Promise.all([
+		denseWeight > 0 ? denseSearch(question, candidates, filter) : [],
+		sparseWeight > 0 ? sparseSearch(question, candidates, filter) : [],
+	]);
+
+	return fuseRankings(
+		[
+			{ retriever: "dense", points: densePoints, weight: denseWeight },
+			{ retriever: "sparse", points: sparsePoints, weight: sparseWeight },
+		],
+		config.retrieval.rrfK,
+		topK,
+	);
+}
 
+/**
+ * A ranked list of points from one retriever, with its weight in the fusion
+ */
+export interface Ranking {
+	retriever: "dense" | "sparse";
+	points: ScoredPoint[];
+	weight: number;
+}
+
+/**
+ * Weighted reciprocal rank fusion: score = Σ weight / (k + rank), with 1-based ranks
+ * Each result keeps the raw score of every enabled retriever (null when that retriever missed it);
+ * retrievers with weight 0 are left out of `scores`
+ */
+export function fuseRankings(rankings: Ranking[], rrfK: number, topK: number): SearchResponse[] {
+	const fused = new Map<string, { point: ScoredPoint; fused: number; scores: RetrievalScores }>();
+	const enabled = rankings.filter(({ weight }) => weight > 0);
+
+	for (const { retriever, points, weight } of enabled) {
+		for (const [rank, point] of points.entries()) {
+			const id = String(point.id);
+			const entry = fused.get(id) ?? {
+				point,
+				fused: 0,
+				scores: Object.fromEntries(enabled.map((ranking) => [ranking.retriever, null])),
+			};
+			entry.fused += weight / (rrfK + rank + 1);
+			entry.scores[retriever] = point.score;
+			fused.set(id, entry);
+		}
+	}
+
+	return [...fused.values()]
+		.sort((a, b) => b.fused - a.fused)
+		.slice(0, topK)
+		.map(({ point, fused: score, scores }) => toSearchResponse(point, score, { ...scores, fused: score }));
+}
+
+/**
+ * Maximal marginal relevance: picks, one at a time, the candidate that best balances similarity
+ * to the question against similarity to the results already picked
+ * score = λ · sim(question, chunk) − (1 − λ) · max sim(chunk, picked)
+ */
+async function mmrSearch(
+	question: string,
+	limit: number,
+	filter: QdrantFilter | undefined,
+	lambda: number,
+): Promise<SearchResponse[]> {
+	const candidates = await denseSearch(question, Math.max(limit, config.retrieval.mmrCandidates), filter, true);
+	return selectMmr(candidates, limit, lambda);
+}
+
+/**
+ * Greedy MMR selection over dense candidates (fetched with their vectors), in pick order
+ *
+ * @param lambda - 1 = relevance only, 0 = diversity only
+ */
+export function selectMmr(candidates: ScoredPoint[], limit: number, lambda: number): SearchResponse[] {
+	const vectors = candidates.map(denseVectorOf);
+	const remaining = new Set(candidates.keys());
+	// Highest similarity of each candidate to the picked results, updated after every pick
+	const redundancy = new Array<number>(candidates.length).fill(0);
+	const results: SearchResponse[] = [];
+
+	while (results.length < limit && remaining.size > 0) {
+		let best = -1;
+		let bestScore = -Infinity;
+
+		for (const index of remaining) {
+			const score = lambda * candidates[index]!.score - (1 - lambda) * redundancy[index]!;
+			if (score > bestScore) {
+				best = index;
+				bestScore = score;
+			}
+		}
+
+		const picked = candidates[best]!;
+		remaining.delete(best);
+		results.push(toSearchResponse(picked, bestScore, { dense: picked.score, mmr: bestScore }));
+
+		for (const index of remaining) {
+			redundancy[index] = Math.max(redundancy[index]!, cosineSimilarity(vectors[index]!, vectors[best]!));
+		}
+	}
+
+	return results;
+}
+
+// Dense vector of a point: a plain array, or the unnamed ("") vector next to the BM25 one
+function denseVectorOf(point: ScoredPoint): number[] {
+	const vector = point.vector;
+	if (Array.isArray(vector)) return vector as number[];
+	return ((vector as Record<string, unknown> | null | undefined)?.[""] as number[] | undefined) ?? [];
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+	let dot = 0;
+	let normA = 0;
+	let normB = 0;
+	for (let i = 0; i < a.length; i++) {
+		dot += a[i]! * b[i]!;
+		normA += a[i]! * a[i]!;
+		normB += b[i]! * b[i]!;
+	}
+	return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// Rescore the candidates with the cross-encoder; the retrieval score is kept as `original`
+async function rerankResults(question: string, candidates: SearchResponse[], topK: number): Promise<SearchResponse[]> {
+	if (candidates.length === 0) return candidates;
+
+	const rerankScores = await rerankTexts(question, candidates.map((candidate) => candidate.text));
+
+	return candidates
+		.map((candidate, index) => {
+			const rerankScore = rerankScores[index] ?? 0;
+			return {
+				...candidate,
+				score: rerankScore,
+				scores: { ...candidate.scores, original: candidate.score, rerank: rerankScore },
+			};
+		})
+		.sort((a, b) => b.score - a.score)
+		.slice(0, topK);
+}
+
+// Map a Qdrant point to the SearchResponse format
+function toSearchResponse(point: ScoredPoint, score: number, scores: RetrievalScores): SearchResponse {
 	return {
-		question,
-		results,
-		retrievedChunks: results.length,
+		id: point.id as string,
+		text: point.payload?.text as string,
+		score,
+		scores,
+		metadata: {
+			documentId: point.payload?.documentId as string,
+			fileName: point.payload?.fileName as string,
+			type: point.payload?.type as DocumentType,
+			tags: point.payload?.tags as string[],
+			contentHash: point.payload?.contentHash as string,
+			chunkIndex: point.payload?.chunkIndex as number,
+			page: point.payload?.page as number,
+			title: point.payload?.title as string,
+			author: point.payload?.author as string,
+			chapter: point.payload?.chapter as string,
+			// EPUBs indexados antes da troca de nome gravaram o mesmo valor em chapterIndex
+			sectionIndex: (point.payload?.sectionIndex ?? point.payload?.chapterIndex) as number,
+			columns: point.payload?.columns as string[],
+			rowStart: point.payload?.rowStart as number,
+			rowEnd: point.payload?.rowEnd as number,
+			fields: point.payload?.fields as Record<string, string[]>,
+			breadcrumb: point.payload?.breadcrumb as string,
+		},
 	};
 }
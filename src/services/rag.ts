@@ -1,7 +1,7 @@
 import { StringOutputParser } from "@langchain/core/output_parsers";
 import { ChatPromptTemplate } from "@langchain/core/prompts";
 import type { Response } from "express";
-import type { QueryRequest, RAGResponse } from "../types.js";
+import type { QueryRequest, RAGResponse, RAGSource, SearchResponse } from "../types.js";
 import { llm } from "./providers.js";
 import { searchDocuments } from "./query.js";
 
@@ -14,7 +14,7 @@ const RAG_PROMPT_TEMPLATE = ChatPromptTemplate.fromMessages([
     - Use only the information provided in the context
     - If the context does not contain the answer, respond with "I did not find the information"
     - Keep your answers concise and to the point
-    - Cite the source of your information in the format [source: <document_id>]
+    - Cite the source of your information using the label shown before each excerpt, e.g. [source: Clean Architecture, sec. 24]
     - Answer in Portuguese Brazilian
     `,
 	],
@@ -29,10 +29,46 @@ const RAG_PROMPT_TEMPLATE = ChatPromptTemplate.fromMessages([
 	],
 ]);
 
+// Human-readable citation label, e.g. "Clean Architecture, sec. 24 (The Clean Architecture)"
+// sectionIndex is the position in the EPUB reading order, not the printed chapter number
+function formatCitation({ metadata }: SearchResponse): string {
+	let label = metadata.title || metadata.fileName;
+	if (metadata.sectionIndex !== undefined) label += `, sec. ${metadata.sectionIndex}`;
+	if (metadata.page !== undefined) label += `, p. ${metadata.page}`;
+	if (metadata.chapter) label += ` (${metadata.chapter})`;
+	else if (metadata.breadcrumb) label += ` (${metadata.breadcrumb})`;
+	return label;
+}
+
+// Combine chunks into the prompt context, each prefixed with its citation label
+function buildContext(results: SearchResponse[]): string {
+	return results
+		.map((res, idx) => `[${idx + 1}] ${formatCitation(res)}:\n${res.text}`)
+		.join("\n\n");
+}
+
+// Map search results to the sources list returned to the client
+function buildSources(results: SearchResponse[]): RAGSource[] {
+	return results.map((result) => ({
+		fileName: result.metadata.fileName,
+		chunkIndex: result.metadata.chunkIndex,
+		...(result.metadata.page !== undefined && { page: result.metadata.page }),
+		...(result.metadata.title && { title: result.metadata.title }),
+		...(result.metadata.author && { author: result.metadata.author }),
+		...(result.metadata.chapter && { chapter: result.metadata.chapter }),
+		...(result.metadata.sectionIndex !== undefined && { sectionIndex: result.metadata.sectionIndex }),
+		...(result.metadata.breadcrumb && { breadcrumb: result.metadata.breadcrumb }),
+		citation: formatCitation(result),
+		score: result.score,
+		scores: result.scores,
+		...(result.chunkIndices && { chunkIndices: result.chunkIndices }),
+	}));
+}
+
 export async function queryRAG(query: QueryRequest): Promise<RAGResponse> {
 	const { question, topK = 3 } = query;
 	// Search relevant chunks
-	const searchResults = await searchDocuments({ question, topK });
+	const searchResults = await searchDocuments({ ...query, topK });
 
 	if (searchResults.results.length === 0) {
 		return {
@@ -43,9 +79,7 @@ export async function queryRAG(query: QueryRequest): Promise<RAGResponse> {
 	}
 
 	// Combine chunks into context
-	const context = searchResults.results
-		.map((res, idx) => `[${idx + 1}]: ${res.text}`)
-		.join("\n\n");
+	const context = buildContext(searchResults.results);
 
 	// Create LLM chain
 	const chains = RAG_PROMPT_TEMPLATE.pipe(llm).pipe(new StringOutputParser());
@@ -57,11 +91,7 @@ export async function queryRAG(query: QueryRequest): Promise<RAGResponse> {
 	});
 
 	// Extract sources
-	const sources = searchResults.results.map((result) => ({
-		fileName: result.metadata.fileName,
-		chunkIndex: result.metadata.chunkIndex,
-		score: result.score,
-	}));
+	const sources = buildSources(searchResults.results);
 
 	return {
 		question,
@@ -76,7 +106,7 @@ export async function streamRAG(
 ): Promise<void> {
 	const { question, topK = 3 } = query;
 	// Search relevant chunks
-	const searchResults = await searchDocuments({ question, topK });
+	const searchResults = await searchDocuments({ ...query, topK });
 
 	if (searchResults.results.length === 0) {
 		res.write(
@@ -90,11 +120,7 @@ export async function streamRAG(
 		return;
 	}
 
-	const sources = searchResults.results.map((result) => ({
-		fileName: result.metadata.fileName,
-		chunkIndex: result.metadata.chunkIndex,
-		score: result.score,
-	}));
+	const sources = buildSources(searchResults.results);
 
 	res.write(
 		`data: ${JSON.stringify({
@@ -104,9 +130,7 @@ export async function streamRAG(
 	);
 
 	// Combine chunks into context
-	const context = searchResults.results
-		.map((res, idx) => `[${idx + 1}]: ${res.text}`)
-		.join("\n\n");
+	const context = buildContext(searchResults.results);
 
 	// Create LLM chain
 	const chains = RAG_PROMPT_TEMPLATE.pipe(llm).pipe(new StringOutputParser());
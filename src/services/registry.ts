@@ -0,0 +1,71 @@
+import path from "node:path";
+import { config } from "../config.js";
+import type { DocumentRecord } from "../types.js";
+import { JsonStore } from "../utils/json-store.js";
+
+// Registro persistente dos documentos indexados (data/documents.json)
+const documentStore = new JsonStore<DocumentRecord>(
+	path.join(config.storage.directory, "documents.json"),
+);
+
+export function saveDocumentRecord(record: DocumentRecord): DocumentRecord {
+	return documentStore.set(record.id, record);
+}
+
+export function getDocumentRecord(id: string): DocumentRecord | undefined {
+	return documentStore.get(id);
+}
+
+// Lista os documentos do mais recente para o mais antigo
+export function listDocumentRecords(): DocumentRecord[] {
+	return documentStore
+		.list()
+		.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// Documento já indexado com o mesmo conteúdo (deduplicação por hash)
+export function findDocumentRecordByHash(
+	contentHash: string,
+): DocumentRecord | undefined {
+	return documentStore.list().find((record) => record.contentHash === contentHash);
+}
+
+// Páginas indexadas por um crawl
+export function listDocumentRecordsByCrawl(crawlId: string): DocumentRecord[] {
+	return listDocumentRecords().filter((record) => record.crawlId === crawlId);
+}
+
+// Valor exibido no lugar de credenciais gravadas no registro
+const REDACTED = "[redacted]";
+
+/**
+ * Cópia do registro para respostas da API, sem os valores de cookies e headers do Playwright
+ * (sessões de login); o registro gravado mantém os valores para o re-index
+ */
+export function redactDocumentRecord(record: DocumentRecord): DocumentRecord {
+	const playwright = record.loaderOptions?.url?.playwright;
+	if (!playwright?.cookies && !playwright?.headers) return record;
+
+	return {
+		...record,
+		loaderOptions: {
+			...record.loaderOptions,
+			url: {
+				...record.loaderOptions?.url,
+				playwright: {
+					...playwright,
+					...(playwright.cookies && {
+						cookies: playwright.cookies.map((cookie) => ({ ...cookie, value: REDACTED })),
+					}),
+					...(playwright.headers && {
+						headers: Object.fromEntries(Object.keys(playwright.headers).map((name) => [name, REDACTED])),
+					}),
+				},
+			},
+		},
+	};
+}
+
+export function deleteDocumentRecord(id: string): boolean {
+	return documentStore.delete(id);
+}
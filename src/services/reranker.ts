@@ -0,0 +1,63 @@
+import {
+	AutoModelForSequenceClassification,
+	AutoTokenizer,
+	type PreTrainedModel,
+	type PreTrainedTokenizer,
+	type Tensor,
+} from "@huggingface/transformers";
+import { config } from "../config.js";
+
+interface CrossEncoder {
+	tokenizer: PreTrainedTokenizer;
+	model: PreTrainedModel;
+}
+
+// Cross-encoder carregado sob demanda (primeira busca com rerank) e reaproveitado pelo processo
+let crossEncoder: Promise<CrossEncoder> | null = null;
+
+/**
+ * Reavalia a relevância de cada texto para a pergunta com o cross-encoder local (transformers.js)
+ * Diferente do embedding, o modelo lê pergunta e chunk juntos: mais preciso, mas caro demais
+ * para a collection inteira, por isso só reordena os candidatos já recuperados
+ *
+ * @param question - Pergunta original (sem prefixos do modelo de embeddings)
+ * @param texts - Textos dos candidatos
+ * @returns Score de 0 a 1 de cada texto, na mesma ordem
+ */
+export async function rerankTexts(question: string, texts: string[]): Promise<number[]> {
+	const { tokenizer, model } = await loadCrossEncoder();
+	const scores: number[] = [];
+
+	// Pares pergunta/chunk em lotes para limitar a memória da inferência
+	for (let start = 0; start < texts.length; start += config.reranking.batchSize) {
+		const batch = texts.slice(start, start + config.reranking.batchSize);
+		const inputs = tokenizer(new Array(batch.length).fill(question), {
+			text_pair: batch,
+			padding: true,
+			truncation: true,
+		});
+
+		const { logits } = (await model(inputs)) as { logits: Tensor };
+		const batchScores = logits.sigmoid().tolist() as number[][];
+		scores.push(...batchScores.map(([score]) => score ?? 0));
+	}
+
+	return scores;
+}
+
+function loadCrossEncoder(): Promise<CrossEncoder> {
+	crossEncoder ??= (async () => {
+		console.log(`🧮 Carregando o reranker ${config.reranking.model}...`);
+		const [tokenizer, model] = await Promise.all([
+			AutoTokenizer.from_pretrained(config.reranking.model),
+			AutoModelForSequenceClassification.from_pretrained(config.reranking.model),
+		]);
+		return { tokenizer, model };
+	})().catch((error) => {
+		// Permite nova tentativa na próxima busca (ex: falha de rede no download do modelo)
+		crossEncoder = null;
+		throw error;
+	});
+
+	return crossEncoder;
+}
@@ -0,0 +1,36 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+// O config exige a chave do LLM, mas estes testes não chamam o modelo
+process.env.DEEPSEEK_API_KEY ??= "test";
+const { searchFilterSchema } = await import("../schemas/index.js");
+const { toQdrantFilter } = await import("./search-filter.js");
+
+describe("filtro de datas da busca", () => {
+	it("inclui o último dia inteiro quando 'to' não tem horário", () => {
+		const filter = searchFilterSchema.parse({ publishedAt: { from: "2024-01-01", to: "2024-12-31" } });
+
+		assert.deepEqual(toQdrantFilter(filter), {
+			must: [{ key: "publishedAt", range: { gte: "2024-01-01T00:00:00.000Z", lte: "2024-12-31T23:59:59.999Z" } }],
+		});
+	});
+
+	it("inclui o mês ou o ano inteiro em 'to' parcial", () => {
+		const filter = searchFilterSchema.parse({ uploadAt: { to: "2024-02" }, scrapedAt: { to: "2024" } });
+
+		assert.equal(filter.uploadAt?.to, "2024-02-29T23:59:59.999Z");
+		assert.equal(filter.scrapedAt?.to, "2024-12-31T23:59:59.999Z");
+	});
+
+	it("mantém o horário informado em 'to'", () => {
+		const filter = searchFilterSchema.parse({ uploadAt: { to: "2024-12-31T12:00:00Z" } });
+
+		assert.equal(filter.uploadAt?.to, "2024-12-31T12:00:00.000Z");
+	});
+
+	it("aceita o mesmo dia em 'from' e 'to'", () => {
+		const filter = searchFilterSchema.parse({ uploadAt: { from: "2024-12-31", to: "2024-12-31" } });
+
+		assert.deepEqual(filter.uploadAt, { from: "2024-12-31T00:00:00.000Z", to: "2024-12-31T23:59:59.999Z" });
+	});
+});
@@ -0,0 +1,61 @@
+import type { Schemas } from "@qdrant/js-client-rest";
+import type { DateRange, SearchFilter } from "../types.js";
+
+type QdrantFilter = Schemas["Filter"];
+type QdrantCondition = NonNullable<QdrantFilter["must"]>;
+
+/**
+ * Converte o filtro de metadata da busca em um filtro de payload do Qdrant
+ * Campos do mesmo objeto → must; `and` → must, `or` → should (aninhado), `not` → must_not
+ *
+ * @returns Filtro do Qdrant ou undefined se o filtro não tiver condições
+ */
+export function toQdrantFilter(filter: SearchFilter | undefined): QdrantFilter | undefined {
+	if (!filter) return undefined;
+
+	const must: QdrantCondition = [];
+	const mustNot: QdrantCondition = [];
+
+	if (filter.documentIds) must.push({ key: "documentId", match: { any: filter.documentIds } });
+	if (filter.fileName) must.push({ key: "fileName", match: { any: filter.fileName } });
+	if (filter.type) must.push({ key: "type", match: { any: filter.type } });
+	if (filter.tags) must.push({ key: "tags", match: { any: filter.tags } });
+
+	for (const key of ["uploadAt", "scrapedAt", "publishedAt"] as const) {
+		const range = filter[key];
+		if (range) must.push({ key, range: toDatetimeRange(range) });
+	}
+
+	for (const nested of filter.and ?? []) {
+		const condition = toQdrantFilter(nested);
+		if (condition) must.push(condition);
+	}
+
+	if (filter.or) {
+		const should = filter.or.map((nested) => toQdrantFilter(nested));
+		// Um ramo sem condições aceita tudo: o "ou" inteiro não restringe
+		if (should.every((condition) => condition !== undefined)) {
+			must.push({ should: should as QdrantFilter[] });
+		}
+	}
+
+	for (const nested of filter.not ?? []) {
+		const condition = toQdrantFilter(nested);
+		if (condition) mustNot.push(condition);
+	}
+
+	if (must.length === 0 && mustNot.length === 0) return undefined;
+
+	return {
+		...(must.length > 0 && { must }),
+		...(mustNot.length > 0 && { must_not: mustNot }),
+	};
+}
+
+// Limites inclusivos; as datas já chegam normalizadas (ISO 8601 UTC) pelo schema
+function toDatetimeRange({ from, to }: DateRange): Schemas["DatetimeRange"] {
+	return {
+		...(from && { gte: from }),
+		...(to && { lte: to }),
+	};
+}
@@ -0,0 +1,60 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+// O config exige a chave do LLM, mas estes testes não chamam o modelo
+process.env.DEEPSEEK_API_KEY ??= "test";
+const { computeQuerySparseVector, computeSparseVector, tokenize } = await import("./sparse.js");
+
+describe("tokenize", () => {
+	it("normaliza acentos e caixa e remove stopwords e letras soltas", () => {
+		assert.deepEqual(tokenize("A Função de Configuração é x"), ["funcao", "configuracao"]);
+	});
+
+	it("mantém identificadores, siglas e números como termos próprios", () => {
+		assert.deepEqual(tokenize("Erro ERR_CONNECTION_REFUSED (HTTP 404, código E1001) em v2.1"), [
+			"erro",
+			"err_connection_refused",
+			"http",
+			"404",
+			"codigo",
+			"e1001",
+			"v2",
+			"1",
+		]);
+	});
+});
+
+describe("computeSparseVector", () => {
+	it("gera índices únicos e crescentes com um valor por termo distinto", () => {
+		const vector = computeSparseVector("cache cache cache embeddings qdrant");
+
+		assert.equal(vector.indices.length, 3);
+		assert.equal(vector.values.length, 3);
+		assert.deepEqual(vector.indices, [...vector.indices].sort((a, b) => a - b));
+	});
+
+	it("satura a frequência: repetir o termo aumenta o peso cada vez menos, até k1 + 1", () => {
+		const weight = (repetitions: number) => computeSparseVector(Array(repetitions).fill("cache").join(" "), repetitions).values[0]!;
+
+		assert.equal(weight(1), 1);
+		assert.ok(weight(2) > weight(1) && weight(2) - weight(1) > weight(3) - weight(2));
+		assert.ok(weight(1000) < 2.2);
+	});
+
+	it("normaliza pelo tamanho médio: o mesmo termo pesa menos em um chunk mais longo que a média", () => {
+		const text = "cache embeddings qdrant busca vetores";
+		const [atAverage] = computeSparseVector(text, 5).values;
+		const [longerThanAverage] = computeSparseVector(text, 2).values;
+		const [shorterThanAverage] = computeSparseVector(text, 20).values;
+
+		assert.equal(atAverage, 1);
+		assert.ok(longerThanAverage! < atAverage! && atAverage! < shorterThanAverage!);
+	});
+
+	it("usa o mesmo índice para o termo na pergunta e no chunk", () => {
+		const query = computeQuerySparseVector("Qual o código ERR_TIMEOUT?");
+
+		assert.deepEqual(query.values, [1, 1, 1]);
+		assert.ok(computeSparseVector("o erro ERR_TIMEOUT acontece").indices.some((index) => query.indices.includes(index)));
+	});
+});
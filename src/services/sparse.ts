@@ -0,0 +1,96 @@
+import { config } from "../config.js";
+
+/**
+ * Vetores esparsos BM25 calculados localmente (busca por palavra-chave)
+ * O chunk guarda a frequência de cada termo já saturada pelo BM25 (k1/b); o IDF é aplicado
+ * pelo próprio Qdrant na busca (modifier "idf" do vetor esparso), com as estatísticas da collection
+ */
+
+/**
+ * Nome do vetor esparso nas collections (o vetor denso continua sendo o vetor padrão, sem nome)
+ */
+export const SPARSE_VECTOR_NAME = "bm25";
+
+export interface SparseVector {
+	indices: number[];
+	values: number[];
+}
+
+// Parâmetros clássicos do BM25: saturação da frequência e normalização pelo tamanho do chunk
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Palavras muito frequentes (português e inglês, já sem acentos) que só adicionam ruído ao índice
+const STOPWORDS = new Set([
+	"a", "o", "as", "os", "um", "uma", "uns", "umas", "de", "do", "da", "dos", "das", "em", "no", "na", "nos", "nas",
+	"por", "para", "com", "sem", "que", "se", "e", "ou", "ao", "aos", "ser", "sao", "foi", "como", "mais", "mas",
+	"seu", "sua", "seus", "suas", "ele", "ela", "eles", "elas", "isso", "este", "esta", "esse", "essa", "ja", "nao",
+	"the", "an", "of", "in", "on", "at", "to", "for", "with", "and", "or", "is", "are", "was", "were", "be", "been",
+	"by", "as", "it", "its", "this", "that", "these", "those", "from", "but", "not", "do", "does", "did",
+]);
+
+/**
+ * Quebra o texto em termos: minúsculas, sem acentos, letras/dígitos/underscore
+ * Identificadores (ERR_CONNECTION_REFUSED), siglas e números (404, E1001) viram termos próprios
+ */
+export function tokenize(text: string): string[] {
+	const normalized = text
+		.normalize("NFKD")
+		.replace(/\p{M}/gu, "")
+		.toLowerCase();
+
+	return (normalized.match(/[\p{L}\p{N}_]+/gu) ?? []).filter(
+		(term) => (term.length > 1 || /\d/.test(term)) && !STOPWORDS.has(term),
+	);
+}
+
+/**
+ * Vetor esparso de um chunk: frequência de cada termo com saturação e normalização do BM25
+ *
+ * @param averageTerms - Tamanho médio de um chunk da collection em termos (padrão: BM25_AVERAGE_CHUNK_TERMS)
+ */
+export function computeSparseVector(
+	text: string,
+	averageTerms: number = config.retrieval.bm25AverageChunkTerms,
+): SparseVector {
+	const terms = tokenize(text);
+	const frequencies = countTerms(terms);
+	const lengthNorm = 1 - BM25_B + BM25_B * (terms.length / averageTerms);
+
+	return toSparseVector(frequencies, (tf) => (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * lengthNorm));
+}
+
+/**
+ * Vetor esparso da pergunta: peso 1 por termo distinto (o score vira a soma de IDF × peso BM25 no chunk)
+ */
+export function computeQuerySparseVector(text: string): SparseVector {
+	return toSparseVector(countTerms(tokenize(text)), () => 1);
+}
+
+function countTerms(terms: string[]): Map<number, number> {
+	const frequencies = new Map<number, number>();
+	for (const term of terms) {
+		const index = hashTerm(term);
+		frequencies.set(index, (frequencies.get(index) ?? 0) + 1);
+	}
+	return frequencies;
+}
+
+// O Qdrant exige índices únicos; a ordem crescente evita reordenação no servidor
+function toSparseVector(frequencies: Map<number, number>, weight: (tf: number) => number): SparseVector {
+	const indices = [...frequencies.keys()].sort((a, b) => a - b);
+	return {
+		indices,
+		values: indices.map((index) => weight(frequencies.get(index)!)),
+	};
+}
+
+// FNV-1a de 32 bits: índice estável do termo sem precisar de vocabulário (colisões são raras e toleráveis)
+function hashTerm(term: string): number {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < term.length; i++) {
+		hash ^= term.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return hash >>> 0;
+}
@@ -0,0 +1,276 @@
+import path from "node:path";
+import { v4 as uuidv4 } from "uuid";
+import { config } from "../config.js";
+import { scrapedContentToDocuments } from "../loaders/index.js";
+import type { DocumentRecord, TrackedUrl, UrlRevision } from "../types.js";
+import { hashText } from "../utils/hash.js";
+import { JsonStore } from "../utils/json-store.js";
+import { isDue, startPeriodicTask } from "../utils/scheduler.js";
+import { NotModifiedError, type ScrapedContent, scrapeUrl } from "../utils/scraper.js";
+import { deleteDocument, processDocument } from "./document.js";
+
+// URLs acompanhadas persistidas em data/tracked-urls.json (com o histórico de revisões)
+const trackedUrlStore = new JsonStore<TrackedUrl>(
+	path.join(config.storage.directory, "tracked-urls.json"),
+);
+
+// O agendador verifica a cada minuto quais URLs estão com a verificação vencida
+const SCHEDULER_TICK = 60 * 1000;
+// Revisões mantidas por URL (o arquivo inteiro é regravado a cada verificação)
+const MAX_REVISIONS = 50;
+
+// URLs em verificação (evita duas verificações simultâneas da mesma URL)
+const checking = new Set<string>();
+let stopScheduler: (() => void) | null = null;
+
+export interface TrackedUrlSettings {
+	url: string;
+	scraperEngine?: TrackedUrl["scraperEngine"];
+	chunking?: TrackedUrl["chunking"];
+	intervalMinutes?: number | undefined;
+	enabled?: boolean | undefined;
+}
+
+export interface TrackedUrlCheckResult {
+	/** true quando o conteúdo mudou e os chunks foram substituídos */
+	changed: boolean;
+	/** true quando o servidor respondeu 304 (requisição condicional) */
+	notModified: boolean;
+	revision?: UrlRevision;
+}
+
+/**
+ * Passa a acompanhar uma URL: faz o scraping, indexa a versão atual e agenda as verificações
+ * Se o conteúdo já estiver indexado, o documento existente passa a ser acompanhado
+ *
+ * @param settings - URL e configurações opcionais
+ * @returns URL acompanhada com a primeira revisão
+ */
+export async function createTrackedUrl(settings: TrackedUrlSettings): Promise<TrackedUrl> {
+	const scraped = await scrapeUrl(settings.url, settings.scraperEngine);
+	const contentHash = hashText(scraped.content);
+
+	const result = await processDocument({
+		fileName: settings.url,
+		filePath: settings.url,
+		documents: scrapedContentToDocuments(scraped),
+		...(settings.scraperEngine && { loaderOptions: { url: { engine: settings.scraperEngine } } }),
+		...(settings.chunking && { chunking: settings.chunking }),
+	});
+
+	const now = new Date().toISOString();
+	const id = uuidv4();
+
+	return trackedUrlStore.set(id, {
+		id,
+		url: settings.url,
+		documentId: result.documentId,
+		...(settings.scraperEngine && { scraperEngine: settings.scraperEngine }),
+		...(settings.chunking && { chunking: settings.chunking }),
+		intervalMinutes: settings.intervalMinutes ?? config.trackedUrls.defaultIntervalMinutes,
+		enabled: settings.enabled ?? true,
+		...getValidators(scraped),
+		contentHash,
+		revisions: [{ scrapedAt: scraped.scrapedAt, contentHash, chunksCount: result.chunksCount }],
+		lastCheckedAt: now,
+		createdAt: now,
+		updatedAt: now,
+	});
+}
+
+export function getTrackedUrl(id: string): TrackedUrl | undefined {
+	return trackedUrlStore.get(id);
+}
+
+export function findTrackedUrlByUrl(url: string): TrackedUrl | undefined {
+	return trackedUrlStore.list().find((tracked) => tracked.url === url);
+}
+
+// Lista as URLs acompanhadas da mais recente para a mais antiga
+export function listTrackedUrls(): TrackedUrl[] {
+	return trackedUrlStore.list().sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Atualiza engine, chunking, intervalo ou habilita/desabilita o acompanhamento
+ * (a nova configuração de chunking vale a partir da próxima revisão)
+ *
+ * @returns URL atualizada ou undefined se não existir
+ */
+export function updateTrackedUrl(
+	id: string,
+	settings: { [K in Exclude<keyof TrackedUrlSettings, "url">]?: TrackedUrlSettings[K] | undefined },
+): TrackedUrl | undefined {
+	const current = trackedUrlStore.get(id);
+	if (!current) return undefined;
+
+	const defined = Object.fromEntries(
+		Object.entries(settings).filter(([, value]) => value !== undefined),
+	);
+
+	return trackedUrlStore.set(id, {
+		...current,
+		...defined,
+		updatedAt: new Date().toISOString(),
+	});
+}
+
+/**
+ * Para de acompanhar uma URL
+ *
+ * @param id - ID da URL acompanhada
+ * @param removeDocument - Também remove o documento indexado
+ * @returns Documento removido (se solicitado), null se mantido, ou undefined se a URL não existir
+ */
+export async function deleteTrackedUrl(
+	id: string,
+	removeDocument = false,
+): Promise<DocumentRecord | null | undefined> {
+	const tracked = trackedUrlStore.get(id);
+	if (!tracked) return undefined;
+
+	trackedUrlStore.delete(id);
+
+	if (!removeDocument) return null;
+	return (await deleteDocument(tracked.documentId)) ?? null;
+}
+
+export function isTrackedUrlChecking(id: string): boolean {
+	return checking.has(id);
+}
+
+/**
+ * Verifica se a página mudou e, se mudou, substitui os chunks do documento
+ * Cheerio: requisição condicional (ETag/Last-Modified); em ambos os engines o hash do
+ * conteúdo extraído decide se houve mudança real (ex: só o HTML ao redor mudou)
+ *
+ * @param id - ID da URL acompanhada
+ * @returns Resultado da verificação ou undefined se a URL não existir
+ * @throws Error se a URL já estiver em verificação ou se o scraping/processamento falhar
+ */
+export async function checkTrackedUrl(id: string): Promise<TrackedUrlCheckResult | undefined> {
+	const tracked = trackedUrlStore.get(id);
+	if (!tracked) return undefined;
+
+	if (checking.has(id)) {
+		throw new Error(`URL ${tracked.url} já está sendo verificada`);
+	}
+
+	checking.add(id);
+
+	try {
+		let scraped: ScrapedContent;
+		try {
+			scraped = await scrapeUrl(tracked.url, tracked.scraperEngine, {
+				etag: tracked.etag,
+				lastModified: tracked.lastModified,
+			});
+		} catch (error) {
+			if (!(error instanceof NotModifiedError)) throw error;
+
+			saveCheck(id, null);
+			return { changed: false, notModified: true };
+		}
+
+		const contentHash = hashText(scraped.content);
+		if (contentHash === tracked.contentHash) {
+			saveCheck(id, getValidators(scraped));
+			return { changed: false, notModified: false };
+		}
+
+		console.log(`🔄 Conteúdo alterado: ${tracked.url}, reindexando...`);
+
+		// Mesmo documentId: os chunks da versão anterior são removidos após inserir a nova
+		const result = await processDocument({
+			fileName: tracked.url,
+			filePath: tracked.url,
+			documents: scrapedContentToDocuments(scraped),
+			documentId: tracked.documentId,
+			...(tracked.scraperEngine && { loaderOptions: { url: { engine: tracked.scraperEngine } } }),
+			...(tracked.chunking && { chunking: tracked.chunking }),
+		});
+
+		const revision: UrlRevision = {
+			scrapedAt: scraped.scrapedAt,
+			contentHash,
+			chunksCount: result.chunksCount,
+		};
+
+		saveCheck(id, getValidators(scraped), (current) => ({
+			contentHash,
+			revisions: [...current.revisions, revision].slice(-MAX_REVISIONS),
+		}));
+
+		return { changed: true, notModified: false, revision };
+	} catch (error) {
+		const current = trackedUrlStore.get(id);
+		if (current) {
+			trackedUrlStore.set(id, {
+				...current,
+				lastCheckedAt: new Date().toISOString(),
+				lastError: error instanceof Error ? error.message : String(error),
+				updatedAt: new Date().toISOString(),
+			});
+		}
+		throw error;
+	} finally {
+		checking.delete(id);
+	}
+}
+
+/**
+ * Inicia o agendador que verifica as URLs habilitadas conforme o intervalo de cada uma
+ */
+export function startTrackedUrlScheduler(): void {
+	if (stopScheduler) return;
+	stopScheduler = startPeriodicTask("tracked-urls", checkDueTrackedUrls, SCHEDULER_TICK);
+}
+
+async function checkDueTrackedUrls(): Promise<void> {
+	for (const tracked of trackedUrlStore.list()) {
+		if (!tracked.enabled || checking.has(tracked.id)) continue;
+		if (!isDue(tracked.lastCheckedAt, tracked.intervalMinutes)) continue;
+
+		await checkTrackedUrl(tracked.id).catch((error) =>
+			console.error(`❌ Erro ao verificar ${tracked.url}:`, error instanceof Error ? error.message : error),
+		);
+	}
+}
+
+/**
+ * Validadores HTTP da resposta (ausentes no Playwright ou quando o servidor não os envia)
+ */
+function getValidators(
+	scraped: Pick<ScrapedContent, "etag" | "lastModified">,
+): Pick<TrackedUrl, "etag" | "lastModified"> {
+	return {
+		...(scraped.etag && { etag: scraped.etag }),
+		...(scraped.lastModified && { lastModified: scraped.lastModified }),
+	};
+}
+
+/**
+ * Registra uma verificação bem-sucedida
+ *
+ * @param validators - Novos validadores (null em 304: mantém os atuais)
+ * @param patch - Alterações adicionais (nova revisão)
+ */
+function saveCheck(
+	id: string,
+	validators: Pick<TrackedUrl, "etag" | "lastModified"> | null,
+	patch: (current: TrackedUrl) => Partial<TrackedUrl> = () => ({}),
+): void {
+	const current = trackedUrlStore.get(id);
+	if (!current) return;
+
+	const { lastError: _lastError, etag, lastModified, ...rest } = current;
+	const now = new Date().toISOString();
+
+	trackedUrlStore.set(id, {
+		...rest,
+		...(validators ?? getValidators({ etag: etag ?? null, lastModified: lastModified ?? null })),
+		...patch(current),
+		lastCheckedAt: now,
+		updatedAt: now,
+	});
+}
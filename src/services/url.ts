@@ -1,5 +1,11 @@
 import { processDocument } from "./document.js";
-import type { ScraperEngine } from "../utils/scraper.js";
+import type { ChunkingInput, DuplicateStrategy } from "../types.js";
+import {
+  detectScraperEngine,
+  type ExtractionFormat,
+  type PlaywrightOptions,
+  type ScraperEngine,
+} from "../utils/scraper.js";
 
 /**
  * Resposta do processamento de URL
@@ -9,26 +15,50 @@ export interface ProcessUrlResponse {
   documentId: string;
   chunksCount: number;
   message?: string;
+  duplicate?: boolean;
   metadata: {
     title: string | null;
     ogImage: string | null;
+    byline: string | null;
+    publishedAt: string | null;
+    siteName: string | null;
+    language: string | null;
     scrapedAt: string;
     scraperEngine: ScraperEngine;
   };
 }
 
+/**
+ * Opções do processamento de URL
+ */
+export interface ProcessUrlOptions {
+  /** Engine de scraping a usar (auto-detecta se não especificado) */
+  scraperEngine?: ScraperEngine | undefined;
+  /** Texto corrido ou Markdown com código, tabelas, headings e links (padrão: SCRAPER_FORMAT) */
+  format?: ExtractionFormat | undefined;
+  /** Opções de renderização do Playwright (wait selector, autoscroll, cookies, headers...) */
+  playwright?: PlaywrightOptions | undefined;
+  /** Conteúdo já indexado: pular (padrão) ou substituir */
+  onDuplicate?: DuplicateStrategy | undefined;
+  /** Estratégia de chunking e parâmetros (padrão: character) */
+  chunking?: ChunkingInput | undefined;
+  /** Metadata extra gravada no payload de cada chunk (ex: dados do feed) */
+  metadata?: Record<string, unknown> | undefined;
+}
+
 /**
  * Processa uma URL fazendo scraping, gerando embeddings e armazenando no Qdrant
- * Reutiliza o pipeline completo de processDocument()
+ * Reutiliza o pipeline completo de processDocument(): o scraping acontece uma única vez,
+ * no URLDocumentLoader, e a metadata retornada é a do conteúdo efetivamente indexado
  *
  * @param url - URL para processar
- * @param scraperEngine - Engine de scraping a usar (auto-detecta se não especificado)
+ * @param options - Engine de scraping, deduplicação, chunking e metadata extra
  * @returns Informações do documento processado com metadata adicional
  * @throws Error se URL for inválida ou processamento falhar
  */
 export async function processUrl(
   url: string,
-  scraperEngine?: ScraperEngine
+  { scraperEngine, format, playwright, onDuplicate, chunking, metadata }: ProcessUrlOptions = {}
 ): Promise<ProcessUrlResponse> {
   // 1. Validar URL
   try {
@@ -40,29 +70,39 @@ export async function processUrl(
   console.log(`📄 Iniciando scraping de URL: ${url}`);
 
   // 2. REUTILIZAR pipeline existente
-  // URLDocumentLoader será usado automaticamente via factory
-  const result = await processDocument({
+  // URLDocumentLoader será usado automaticamente via factory, com o engine e as opções do Playwright
+  // solicitados (gravados nas loaderOptions do registro, o re-index usa os mesmos valores)
+  const urlLoaderOptions = {
+    ...(scraperEngine && { engine: scraperEngine }),
+    ...(format && { format }),
+    ...(playwright && { playwright }),
+  };
+
+  const { metadata: loaderMetadata = {}, ...result } = await processDocument({
     fileName: url, // detectDocumentType() vai identificar como URL
     filePath: url, // URLLoader aceita URL como filePath
+    ...(Object.keys(urlLoaderOptions).length > 0 && { loaderOptions: { url: urlLoaderOptions } }),
+    ...(onDuplicate && { onDuplicate }),
+    ...(chunking && { chunking }),
+    ...(metadata && { metadata }),
   });
 
-  // 3. Extrair metadata do scraping
-  // Precisamos fazer scraping aqui também para obter metadata
-  // (o loader já fez, mas a metadata está encapsulada)
-  const { scrapeUrl, detectScraperEngine } = await import("../utils/scraper.js");
-  const scraped = await scrapeUrl(url, scraperEngine);
-
-  // Determina qual engine foi usado
-  const usedEngine = scraperEngine || detectScraperEngine(url);
-
-  // 4. Retornar com metadata adicional
+  // 3. Metadata do scraping vem do loader (em duplicatas, do registro do documento já indexado;
+  // registros antigos não têm o engine gravado)
   return {
     ...result,
     metadata: {
-      title: scraped.title,
-      ogImage: scraped.ogImage,
-      scrapedAt: scraped.scrapedAt,
-      scraperEngine: usedEngine,
+      title: typeof loaderMetadata.title === "string" ? loaderMetadata.title : null,
+      ogImage: typeof loaderMetadata.ogImage === "string" ? loaderMetadata.ogImage : null,
+      byline: typeof loaderMetadata.author === "string" ? loaderMetadata.author : null,
+      publishedAt: typeof loaderMetadata.publishedAt === "string" ? loaderMetadata.publishedAt : null,
+      siteName: typeof loaderMetadata.siteName === "string" ? loaderMetadata.siteName : null,
+      language: typeof loaderMetadata.language === "string" ? loaderMetadata.language : null,
+      scrapedAt: typeof loaderMetadata.scrapedAt === "string" ? loaderMetadata.scrapedAt : new Date().toISOString(),
+      scraperEngine:
+        (loaderMetadata.scraperEngine as ScraperEngine | undefined) ||
+        scraperEngine ||
+        (playwright ? "playwright" : detectScraperEngine(url)),
     },
   };
 }
@@ -1,8 +1,132 @@
+import type { DocumentType, LoaderOptions } from "./loaders/index.js";
+
+/**
+ * O que fazer quando o conteúdo enviado já está indexado
+ * - skip: mantém o documento existente e não reprocessa
+ * - replace: reprocessa substituindo os chunks do documento existente (mesmo documentId)
+ */
+export type DuplicateStrategy = "skip" | "replace";
+
+/**
+ * Estratégias de divisão do texto em chunks
+ * - character: RecursiveCharacterTextSplitter por número de caracteres
+ * - token: mesmo splitter, medindo o tamanho em tokens do tokenizer do modelo de embeddings
+ * - sentence: agrupa sentenças inteiras (com sobreposição em sentenças)
+ * - markdown: divide priorizando limites de blocos Markdown (headings, listas, código)
+ * - semantic: quebra onde a similaridade entre sentenças vizinhas cai
+ */
+export type ChunkingStrategy = "character" | "token" | "sentence" | "markdown" | "semantic";
+
+/**
+ * Estratégia de chunking com os parâmetros resolvidos (gravada no registro do documento
+ * para que o re-index gere os mesmos chunks)
+ */
+export type ChunkingOptions =
+	| {
+			strategy: "character" | "token" | "markdown";
+			/** Tamanho máximo do chunk (caracteres, ou tokens na estratégia token) */
+			chunkSize: number;
+			chunkOverlap: number;
+	  }
+	| {
+			strategy: "sentence";
+			sentencesPerChunk: number;
+			/** Sentenças repetidas no início do chunk seguinte */
+			sentenceOverlap: number;
+			/** Tamanho máximo do chunk em caracteres */
+			chunkSize: number;
+	  }
+	| {
+			strategy: "semantic";
+			/** Percentil das distâncias entre sentenças vizinhas acima do qual o chunk é quebrado */
+			breakpointPercentile: number;
+			/** Tamanho máximo do chunk em caracteres */
+			chunkSize: number;
+	  };
+
+/**
+ * Parâmetros de chunking informados no upload (os ausentes usam o padrão da estratégia)
+ */
+export interface ChunkingInput {
+	strategy?: ChunkingStrategy | undefined;
+	chunkSize?: number | undefined;
+	chunkOverlap?: number | undefined;
+	sentencesPerChunk?: number | undefined;
+	sentenceOverlap?: number | undefined;
+	breakpointPercentile?: number | undefined;
+}
+
+/**
+ * Etapas do pipeline de ingestão (load → split → embed/upsert → registro)
+ */
+export type IngestionStage = "loading" | "splitting" | "embedding" | "finalizing";
+
+export interface IngestionProgress {
+	stage: IngestionStage;
+	documentId?: string;
+	contentHash?: string;
+	/** Timestamp da indexação (payload uploadAt), necessário para retomar */
+	uploadAt?: string;
+	batchesDone: number;
+	batchesTotal: number;
+}
+
+export type IngestionJobStatus = "queued" | "running" | "completed" | "failed";
+
+export interface IngestionJob {
+	id: string;
+	status: IngestionJobStatus;
+	stage?: IngestionStage;
+	input: {
+		fileName: string;
+		filePath: string;
+		fileSize?: number;
+		loaderOptions?: LoaderOptions;
+		chunking?: ChunkingInput;
+		onDuplicate?: DuplicateStrategy;
+		/** Metadata extra aplicada a todos os chunks (ex: tags) */
+		metadata?: Record<string, unknown>;
+	};
+	progress: Omit<IngestionProgress, "stage">;
+	errors: string[];
+	result?: UploadResponse;
+	/** Número de execuções (incrementa quando o job é retomado após um restart) */
+	attempts: number;
+	createdAt: string;
+	updatedAt: string;
+	startedAt?: string;
+	finishedAt?: string;
+}
+
 export interface UploadResponse {
 	success: boolean;
 	documentId: string;
 	chunksCount: number;
 	message: string;
+	duplicate?: boolean;
+	/** Metadata do documento extraída pelo loader (título, autor, dados do scraping...) */
+	metadata?: Record<string, unknown>;
+}
+
+export interface DocumentRecord {
+	id: string;
+	fileName: string;
+	type: DocumentType;
+	filePath: string;
+	fileSize?: number;
+	sourceUrl?: string;
+	contentHash: string;
+	chunksCount: number;
+	/** Crawl que gerou o documento (páginas de um site indexadas em conjunto) */
+	crawlId?: string;
+	loaderOptions?: LoaderOptions;
+	/** Ausente em registros criados antes da escolha de estratégia (usa o padrão do tipo) */
+	chunking?: ChunkingOptions;
+	metadata: Record<string, unknown>;
+	/** Metadata extra informada na ingestão (ex: dados do feed), reaplicada no re-index */
+	extraMetadata?: Record<string, unknown>;
+	createdAt: string;
+	updatedAt: string;
 }
 
 export interface DocumentChunk {
@@ -16,37 +140,143 @@ export interface DocumentChunk {
 	};
 }
 
+/**
+ * Intervalo de datas (ISO 8601, limites inclusivos)
+ */
+export interface DateRange {
+	from?: string | undefined;
+	to?: string | undefined;
+}
+
+/**
+ * Filtro de metadata da busca
+ * Os campos de um mesmo objeto são combinados com E; listas de valores aceitam qualquer um deles
+ * `and`, `or` e `not` combinam filtros aninhados
+ */
+export interface SearchFilter {
+	documentIds?: string[] | undefined;
+	fileName?: string[] | undefined;
+	type?: DocumentType[] | undefined;
+	/** Chunks com pelo menos uma das tags */
+	tags?: string[] | undefined;
+	uploadAt?: DateRange | undefined;
+	/** Data do scraping (páginas web) */
+	scrapedAt?: DateRange | undefined;
+	/** Data de publicação do artigo ou da entrada do feed */
+	publishedAt?: DateRange | undefined;
+	and?: SearchFilter[] | undefined;
+	or?: SearchFilter[] | undefined;
+	not?: SearchFilter[] | undefined;
+}
+
+/**
+ * Modo da busca: "dense" (embeddings), "sparse" (palavra-chave, BM25), "hybrid" (os dois, fundidos com RRF)
+ * ou "mmr" (embeddings, evitando resultados redundantes entre si)
+ */
+export type RetrievalMode = "dense" | "sparse" | "hybrid" | "mmr";
+
+/**
+ * Peso de cada busca na fusão híbrida (reciprocal rank fusion)
+ */
+export interface RetrievalWeights {
+	dense?: number | undefined;
+	sparse?: number | undefined;
+}
+
+/**
+ * Score do resultado em cada busca executada
+ * null: a busca rodou, mas o chunk não ficou entre os candidatos dela; ausente: a busca não rodou
+ */
+export interface RetrievalScores {
+	dense?: number | null;
+	sparse?: number | null;
+	/** Score da fusão (modo hybrid) */
+	fused?: number;
+	/** Score MMR no momento da seleção (modo mmr) */
+	mmr?: number;
+	/** Score da busca antes do rerank */
+	original?: number;
+	/** Score do cross-encoder (0 a 1) */
+	rerank?: number;
+}
+
 export interface QueryRequest {
 	question: string;
 	topK: number;
+	filter?: SearchFilter | undefined;
+	/** Padrão: RETRIEVAL_MODE (hybrid; dense em collections sem o vetor BM25) */
+	mode?: RetrievalMode | undefined;
+	weights?: RetrievalWeights | undefined;
+	/** Reordena os candidatos com o cross-encoder (padrão: RERANK) */
+	rerank?: boolean | undefined;
+	/** Candidatos buscados para o rerank (padrão: RERANK_CANDIDATES) */
+	rerankCandidates?: number | undefined;
+	/** Modo mmr: 1 = só relevância, 0 = só diversidade (padrão: MMR_LAMBDA) */
+	mmrLambda?: number | undefined;
+	/** Junta chunks vizinhos do mesmo documento em uma passagem (padrão: RETRIEVAL_COLLAPSE_ADJACENT) */
+	collapseAdjacent?: boolean | undefined;
+	/** Inclui os ±N chunks vizinhos de cada resultado na passagem (padrão: RETRIEVAL_CONTEXT_WINDOW) */
+	contextWindow?: number | undefined;
 }
 
 export interface SearchResponse {
 	id: string;
 	text: string;
 	score: number;
+	scores: RetrievalScores;
+	/** Chunks (chunkIndex, em ordem) que compõem a passagem, quando chunks vizinhos foram juntados ou incluídos */
+	chunkIndices?: number[];
 	metadata: {
 		documentId: string;
 		fileName: string;
+		type?: DocumentType;
+		tags?: string[];
+		/** Versão do conteúdo indexada (os chunks vizinhos são buscados na mesma versão) */
+		contentHash?: string;
 		chunkIndex: number;
 		page?: number;
+		title?: string;
+		author?: string;
+		publishedAt?: string;
+		siteName?: string;
+		language?: string;
+		chapter?: string;
+		sectionIndex?: number;
+		columns?: string[];
+		rowStart?: number;
+		rowEnd?: number;
+		fields?: Record<string, string[]>;
+		breadcrumb?: string;
 	};
 }
 
 export interface QueryResponse {
 	question: string;
+	mode: RetrievalMode;
+	reranked: boolean;
 	results: SearchResponse[];
 	retrievedChunks: number;
 }
 
+export interface RAGSource {
+	fileName: string;
+	chunkIndex: number;
+	page?: number;
+	title?: string;
+	author?: string;
+	chapter?: string;
+	sectionIndex?: number;
+	breadcrumb?: string;
+	citation: string;
+	score: number;
+	scores: RetrievalScores;
+	chunkIndices?: number[];
+}
+
 export interface RAGResponse {
 	question: string;
 	answer: string;
-	sources: Array<{
-		fileName: string;
-		chunkIndex: number;
-		score: number;
-	}>;
+	sources: RAGSource[];
 	tokensUsed?: number;
 }
 
@@ -56,3 +286,178 @@ export interface StreamEvent {
 	type: StreamEventType;
 	content?: any;
 }
+
+export type CrawlStatus = "running" | "completed" | "failed";
+
+export interface CrawlOptions {
+	/** URL inicial ou sitemap.xml */
+	url: string;
+	/** Trata a URL como sitemap (padrão: detecta por terminar em .xml) */
+	sitemap?: boolean | undefined;
+	/** Profundidade máxima de links a partir da URL inicial (0 = só a inicial/sitemap) */
+	maxDepth: number;
+	maxPages: number;
+	/** Padrões de caminho (ex: "/docs/**") que as páginas devem seguir / não podem seguir */
+	include?: string[] | undefined;
+	exclude?: string[] | undefined;
+	sameOrigin: boolean;
+	/** Páginas processadas em paralelo */
+	concurrency: number;
+	scraperEngine?: "cheerio" | "playwright" | undefined;
+	/** Texto corrido ou Markdown (padrão: SCRAPER_FORMAT) */
+	format?: "text" | "markdown" | undefined;
+	chunking?: ChunkingInput | undefined;
+	onDuplicate?: DuplicateStrategy | undefined;
+	/** Tags aplicadas a todas as páginas (filtro na busca) */
+	tags?: string[] | undefined;
+}
+
+export interface CrawlRecord {
+	id: string;
+	status: CrawlStatus;
+	options: CrawlOptions;
+	/** Páginas indexadas neste crawl (os documentos ficam no registro com o crawlId) */
+	pagesIndexed: number;
+	/** Páginas com conteúdo idêntico a um documento já indexado */
+	pagesDuplicate: number;
+	/** Páginas bloqueadas pelo robots.txt */
+	pagesBlocked: number;
+	errors: Array<{ url: string; message: string }>;
+	createdAt: string;
+	updatedAt: string;
+	finishedAt?: string;
+}
+
+export interface FeedSubscription {
+	id: string;
+	/** Nome do feed (padrão: título do canal RSS/Atom) */
+	name: string;
+	url: string;
+	/** Intervalo entre verificações, em minutos */
+	intervalMinutes: number;
+	enabled: boolean;
+	scraperEngine?: "cheerio" | "playwright" | undefined;
+	chunking?: ChunkingInput | undefined;
+	/** GUIDs/links das entradas já processadas (ou abandonadas após falhas repetidas) */
+	seenEntries: string[];
+	/** Falhas consecutivas das entradas ainda não processadas, por GUID/link */
+	failedEntries?: Record<string, number>;
+	lastPolledAt?: string;
+	/** Erros da última verificação (feed inacessível ou entradas que falharam) */
+	lastErrors: Array<{ url: string; message: string }>;
+	createdAt: string;
+	updatedAt: string;
+}
+
+/**
+ * Versão indexada de uma URL acompanhada
+ */
+export interface UrlRevision {
+	scrapedAt: string;
+	contentHash: string;
+	chunksCount: number;
+}
+
+export interface TrackedUrl {
+	id: string;
+	url: string;
+	/** Documento que recebe os chunks da versão atual (mesmo documentId entre revisões) */
+	documentId: string;
+	scraperEngine?: "cheerio" | "playwright" | undefined;
+	chunking?: ChunkingInput | undefined;
+	/** Intervalo entre verificações, em minutos */
+	intervalMinutes: number;
+	enabled: boolean;
+	/** Validadores HTTP da versão atual (requisição condicional no Cheerio) */
+	etag?: string;
+	lastModified?: string;
+	contentHash: string;
+	/**
+	 * Revisões indexadas, da mais antiga para a mais recente (no máximo as 50 últimas)
+	 * Fica na URL acompanhada, não no ScrapedContent: o ScrapedContent é o resultado de um único
+	 * scraping e não é persistido, enquanto o histórico precisa sobreviver entre verificações
+	 */
+	revisions: UrlRevision[];
+	lastCheckedAt?: string;
+	lastError?: string;
+	createdAt: string;
+	updatedAt: string;
+}
+
+/**
+ * Modelo de embeddings de uma migração (valores ausentes usam o registro de modelos conhecidos)
+ */
+export interface EmbeddingModelInput {
+	model: string;
+	provider?: string | undefined;
+	dimensions?: number | undefined;
+	queryPrefix?: string | undefined;
+	passagePrefix?: string | undefined;
+	pooling?: "mean" | "cls" | undefined;
+}
+
+export type MigrationStatus =
+	| "building"
+	| "validating"
+	| "ready"
+	| "invalid"
+	| "swapped"
+	| "rolled_back"
+	| "failed";
+
+export interface MigrationOptions {
+	/** Modelo da nova collection (padrão: o configurado) */
+	embedding?: EmbeddingModelInput | undefined;
+	/** Chunking aplicado a todos os documentos (padrão: o registrado em cada documento) */
+	chunking?: ChunkingInput | undefined;
+	/** Perguntas de validação: cada uma precisa de um resultado com score >= minScore */
+	validationQueries?: string[] | undefined;
+	minScore: number;
+	/** Permite validar/trocar mesmo com documentos que falharam na reindexação */
+	allowFailures: boolean;
+	/** Troca o alias automaticamente quando a validação passa */
+	autoSwap: boolean;
+}
+
+export interface MigrationValidation {
+	/** Pontos na nova collection x chunks dos novos registros */
+	pointsCount: number;
+	expectedPoints: number;
+	/** Chunks de amostra que, usados como pergunta, recuperam o próprio documento no top 5 */
+	selfRetrieval: { samples: number; hits: number };
+	queries: Array<{ query: string; topScore: number | null; topDocumentId: string | null; passed: boolean }>;
+	passed: boolean;
+	checkedAt: string;
+}
+
+/**
+ * Migração blue-green: nova collection indexada a partir dos documentos originais,
+ * validada e então colocada no alias (config.qdrant.collectionName)
+ */
+export interface CollectionMigration {
+	id: string;
+	status: MigrationStatus;
+	alias: string;
+	/** Collection para a qual o alias apontava no início (destino do rollback) */
+	sourceCollection: string;
+	targetCollection: string;
+	sourceEmbedding: { provider: string; model: string; dimension: number };
+	targetEmbedding: { provider: string; model: string; dimension: number };
+	options: MigrationOptions;
+	documentsTotal: number;
+	documentsDone: number;
+	/** Documentos que falharam na última tentativa de reindexação */
+	documentsFailed: number;
+	currentDocument?: string | undefined;
+	errors: Array<{ documentId: string; fileName: string; message: string }>;
+	/** Registros dos documentos na nova collection (aplicados ao registro no swap) */
+	records: Record<string, DocumentRecord>;
+	/** Registros substituídos no swap (restaurados no rollback) */
+	previousRecords?: Record<string, DocumentRecord>;
+	validation?: MigrationValidation;
+	createdAt: string;
+	updatedAt: string;
+	finishedAt?: string;
+	swappedAt?: string;
+	rolledBackAt?: string;
+}
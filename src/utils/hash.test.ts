@@ -0,0 +1,42 @@
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { describe, it } from "node:test";
+import { chunkPointId, hashFile, hashText } from "./hash.js";
+
+describe("hash do conteúdo", () => {
+  it("dá o mesmo hash para o arquivo e para o seu texto", () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), "hash-"));
+    const filePath = path.join(directory, "livro.txt");
+    fs.writeFileSync(filePath, "Conteúdo com acentuação", "utf-8");
+
+    try {
+      assert.equal(hashFile(filePath), hashText("Conteúdo com acentuação"));
+      assert.match(hashFile(filePath), /^[0-9a-f]{64}$/);
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it("muda o hash com qualquer alteração do texto", () => {
+    assert.notEqual(hashText("versão 1"), hashText("versão 2"));
+  });
+});
+
+describe("chunkPointId", () => {
+  const contentHash = hashText("mesmo conteúdo");
+
+  it("é determinístico para o mesmo documento, conteúdo e chunk", () => {
+    assert.equal(chunkPointId("doc-a", contentHash, 0), chunkPointId("doc-a", contentHash, 0));
+  });
+
+  it("separa documentos diferentes com conteúdo idêntico", () => {
+    assert.notEqual(chunkPointId("doc-a", contentHash, 0), chunkPointId("doc-b", contentHash, 0));
+  });
+
+  it("separa chunks e versões do conteúdo", () => {
+    assert.notEqual(chunkPointId("doc-a", contentHash, 0), chunkPointId("doc-a", contentHash, 1));
+    assert.notEqual(chunkPointId("doc-a", contentHash, 0), chunkPointId("doc-a", hashText("outro"), 0));
+  });
+});
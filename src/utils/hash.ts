@@ -0,0 +1,29 @@
+import { createHash } from "node:crypto";
+import fs from "node:fs";
+import { v5 as uuidv5 } from "uuid";
+
+// Namespace dos IDs determinísticos de pontos (uuid v5 de "<documentId>:<hash>:<chunkIndex>")
+const POINT_ID_NAMESPACE = "6f1c4b52-2f0e-4d7a-9c3b-8a5e1d2f7b90";
+
+/**
+ * Hash SHA-256 (hex) do conteúdo de um arquivo
+ */
+export function hashFile(filePath: string): string {
+  return createHash("sha256").update(fs.readFileSync(filePath)).digest("hex");
+}
+
+/**
+ * Hash SHA-256 (hex) de um texto
+ */
+export function hashText(text: string): string {
+  return createHash("sha256").update(text, "utf-8").digest("hex");
+}
+
+/**
+ * ID determinístico do ponto de um chunk no Qdrant
+ * Reprocessar o mesmo conteúdo no mesmo documento sobrescreve os mesmos pontos; o documentId
+ * no nome impede que dois documentos com conteúdo idêntico compartilhem (e sobrescrevam) pontos
+ */
+export function chunkPointId(documentId: string, contentHash: string, chunkIndex: number): string {
+  return uuidv5(`${documentId}:${contentHash}:${chunkIndex}`, POINT_ID_NAMESPACE);
+}
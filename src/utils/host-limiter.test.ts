@@ -0,0 +1,66 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { HostLimiter } from "./host-limiter.js";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("HostLimiter", () => {
+  it("limita as tarefas simultâneas por host", async () => {
+    const limiter = new HostLimiter(2, 0);
+    let active = 0;
+    let peak = 0;
+
+    await Promise.all(
+      Array.from({ length: 6 }, () =>
+        limiter.run("https://a.example.com/page", async () => {
+          peak = Math.max(peak, ++active);
+          await sleep(10);
+          active--;
+        })
+      )
+    );
+
+    assert.equal(peak, 2);
+  });
+
+  it("espaça o início das requisições ao mesmo host por minDelayMs", async () => {
+    const limiter = new HostLimiter(5, 40);
+    const starts: number[] = [];
+
+    await Promise.all(
+      Array.from({ length: 3 }, () => limiter.run("https://a.example.com/", async () => starts.push(Date.now())))
+    );
+
+    assert.ok(starts[1]! - starts[0]! >= 35);
+    assert.ok(starts[2]! - starts[1]! >= 35);
+  });
+
+  it("hosts diferentes não esperam um pelo outro", async () => {
+    const limiter = new HostLimiter(1, 200);
+    const startedAt = Date.now();
+
+    await Promise.all([
+      limiter.run("https://a.example.com/", async () => undefined),
+      limiter.run("https://b.example.com/", async () => undefined),
+    ]);
+
+    assert.ok(Date.now() - startedAt < 150);
+  });
+
+  it("pause adia a próxima requisição ao host", async () => {
+    const limiter = new HostLimiter(1, 0);
+    const startedAt = Date.now();
+
+    limiter.pause("https://a.example.com/x", 60);
+    await limiter.run("https://a.example.com/y", async () => undefined);
+
+    assert.ok(Date.now() - startedAt >= 55);
+  });
+
+  it("libera a vaga quando a tarefa falha", async () => {
+    const limiter = new HostLimiter(1, 0);
+
+    await assert.rejects(limiter.run("https://a.example.com/", async () => Promise.reject(new Error("falhou"))));
+    assert.equal(await limiter.run("https://a.example.com/", async () => "ok"), "ok");
+  });
+});
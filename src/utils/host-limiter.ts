@@ -0,0 +1,85 @@
+/**
+ * Limita as requisições por host: no máximo `concurrency` simultâneas e um intervalo
+ * mínimo de `minDelayMs` entre o início de duas requisições ao mesmo host
+ *
+ * As tarefas esperam em fila (FIFO) por host; hosts diferentes não se bloqueiam
+ */
+export class HostLimiter {
+  private readonly hosts = new Map<string, HostState>();
+
+  constructor(
+    private readonly concurrency: number,
+    private readonly minDelayMs: number
+  ) {}
+
+  /**
+   * Executa a tarefa quando houver vaga para o host da URL
+   */
+  async run<T>(url: string, task: () => Promise<T>): Promise<T> {
+    const host = new URL(url).host;
+    const state = this.getState(host);
+
+    await this.acquire(state);
+    try {
+      return await task();
+    } finally {
+      this.release(host, state);
+    }
+  }
+
+  /**
+   * Adia as próximas requisições ao host (ex: Retry-After de um 429/503)
+   */
+  pause(url: string, delayMs: number): void {
+    const state = this.getState(new URL(url).host);
+    state.nextStartAt = Math.max(state.nextStartAt, Date.now() + delayMs);
+  }
+
+  private getState(host: string): HostState {
+    let state = this.hosts.get(host);
+    if (!state) {
+      state = { active: 0, nextStartAt: 0, waiting: [] };
+      this.hosts.set(host, state);
+    }
+    return state;
+  }
+
+  private async acquire(state: HostState): Promise<void> {
+    if (state.active < this.concurrency) {
+      state.active++;
+    } else {
+      // A vaga é repassada diretamente por release() (active não muda)
+      await new Promise<void>((resolve) => state.waiting.push(resolve));
+    }
+
+    // Reserva o próximo horário de início antes de esperar (tarefas concorrentes ficam espaçadas)
+    const now = Date.now();
+    const startAt = Math.max(now, state.nextStartAt);
+    state.nextStartAt = startAt + this.minDelayMs;
+
+    if (startAt > now) {
+      await new Promise((resolve) => setTimeout(resolve, startAt - now));
+    }
+  }
+
+  private release(host: string, state: HostState): void {
+    const next = state.waiting.shift();
+    if (next) {
+      next();
+      return;
+    }
+
+    state.active--;
+    // Host ocioso e sem atraso pendente: descarta o estado
+    if (state.active === 0 && state.nextStartAt <= Date.now()) {
+      this.hosts.delete(host);
+    }
+  }
+}
+
+interface HostState {
+  active: number;
+  /** Horário (ms) a partir do qual a próxima requisição pode começar */
+  nextStartAt: number;
+  waiting: Array<() => void>;
+}
@@ -0,0 +1,57 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { htmlToMarkdown } from "./html-to-markdown.js";
+
+describe("htmlToMarkdown", () => {
+  it("cerca blocos de código com a linguagem da classe", () => {
+    const markdown = htmlToMarkdown('<pre><code class="language-ts">const a = 1;\nconst b = 2;</code></pre>');
+
+    assert.equal(markdown, "```ts\nconst a = 1;\nconst b = 2;\n```");
+  });
+
+  it("usa uma cerca maior que as crases do código", () => {
+    const markdown = htmlToMarkdown("<pre>```md\ntexto\n```</pre>");
+
+    assert.equal(markdown, "````\n```md\ntexto\n```\n````");
+  });
+
+  it("detecta a linguagem no container do bloco (highlight-source do GitHub)", () => {
+    const markdown = htmlToMarkdown('<div class="highlight highlight-source-python"><pre>print("oi")</pre></div>');
+
+    assert.equal(markdown, '```python\nprint("oi")\n```');
+  });
+
+  it("converte tabelas, escapando pipes e ignorando tabelas aninhadas", () => {
+    const markdown = htmlToMarkdown(
+      "<table><thead><tr><th>Opção</th><th>Descrição</th></tr></thead>" +
+        "<tbody><tr><td><code>a|b</code></td><td>Usa <strong>pipe</strong></td></tr>" +
+        "<tr><td>x</td><td><table><tr><td>interna</td></tr></table></td></tr></tbody></table>"
+    );
+
+    assert.equal(
+      markdown.split("\n").slice(0, 3).join("\n"),
+      "| Opção | Descrição |\n| --- | --- |\n| `a\\|b` | Usa **pipe** |"
+    );
+    assert.equal(markdown.split("\n").filter((line) => line.startsWith("| ---")).length, 1);
+  });
+
+  it("mantém código inline, ênfase e links absolutos no mesmo parágrafo", () => {
+    const markdown = htmlToMarkdown('<p>Use <code>npm i</code> e veja <a href="/docs">a <em>doc</em></a>.</p>', "https://exemplo.com/guia");
+
+    assert.equal(markdown, "Use `npm i` e veja [a *doc*](https://exemplo.com/docs).");
+  });
+
+  it("indenta sublistas e remove âncoras de permalink dos headings", () => {
+    const markdown = htmlToMarkdown(
+      '<h2>Instalação <a href="#instalacao">¶</a></h2><ol><li>Baixe<ul><li>Linux</li></ul></li><li>Instale</li></ol>'
+    );
+
+    assert.equal(markdown, "## Instalação\n\n1. Baixe\n   - Linux\n2. Instale");
+  });
+
+  it("descarta scripts, imagens e links javascript:", () => {
+    const markdown = htmlToMarkdown('<p>Texto<img src="x.png"><script>alert(1)</script> <a href="javascript:void(0)">ação</a></p>');
+
+    assert.equal(markdown, "Texto ação");
+  });
+});
@@ -0,0 +1,316 @@
+import * as cheerio from "cheerio";
+import type { AnyNode, Element } from "domhandler";
+import { formatMarkdownTable } from "./markdown.js";
+
+/**
+ * Elementos de bloco (encerram o parágrafo corrente)
+ */
+const BLOCK_TAGS = new Set([
+  "address",
+  "article",
+  "aside",
+  "blockquote",
+  "details",
+  "dd",
+  "div",
+  "dl",
+  "dt",
+  "figcaption",
+  "figure",
+  "footer",
+  "form",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "header",
+  "hr",
+  "li",
+  "main",
+  "nav",
+  "ol",
+  "p",
+  "pre",
+  "section",
+  "summary",
+  "table",
+  "ul",
+]);
+
+/**
+ * Elementos sem texto útil para o conteúdo
+ */
+const SKIPPED_TAGS = new Set([
+  "script",
+  "style",
+  "noscript",
+  "template",
+  "img",
+  "svg",
+  "canvas",
+  "iframe",
+  "video",
+  "audio",
+  "button",
+  "input",
+  "select",
+  "textarea",
+]);
+
+// Linguagem do bloco de código: classes "language-ts", "lang-ts", "highlight-source-ts" (GitHub)
+const CODE_LANGUAGE_REGEX = /(?:^|\s)(?:language|lang|highlight-source)-([\w+#.-]+)/;
+
+interface ConversionContext {
+  $: cheerio.CheerioAPI;
+  /** URL da página (resolve links relativos) */
+  baseUrl: string | undefined;
+}
+
+/**
+ * Converte HTML em Markdown preservando a estrutura relevante para RAG:
+ * headings (#), blocos de código cercados com a linguagem, tabelas Markdown,
+ * listas (inclusive aninhadas), citações e links absolutos
+ * Imagens, formulários e scripts são descartados
+ *
+ * @param html - HTML do conteúdo (documento completo ou fragmento)
+ * @param baseUrl - URL da página, usada para tornar os links absolutos
+ * @returns Texto Markdown
+ */
+export function htmlToMarkdown(html: string, baseUrl?: string): string {
+  const $ = cheerio.load(html);
+  const root = $("body").get(0) ?? $.root().get(0);
+  const blocks = renderBlocks(root?.children ?? [], { $, baseUrl });
+
+  return blocks
+    .join("\n\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Renderiza uma sequência de nós como blocos Markdown
+ * Nós inline consecutivos formam um parágrafo
+ */
+function renderBlocks(nodes: AnyNode[], context: ConversionContext): string[] {
+  const blocks: string[] = [];
+  let inline: AnyNode[] = [];
+
+  const flushInline = () => {
+    const text = renderInline(inline, context);
+    if (text) blocks.push(text);
+    inline = [];
+  };
+
+  for (const node of nodes) {
+    if (node.type === "tag" && BLOCK_TAGS.has(node.name.toLowerCase())) {
+      flushInline();
+      blocks.push(...renderBlock(node, context));
+    } else {
+      inline.push(node);
+    }
+  }
+
+  flushInline();
+  return blocks;
+}
+
+function renderBlock(element: Element, context: ConversionContext): string[] {
+  const tag = element.name.toLowerCase();
+  const headingMatch = tag.match(/^h([1-6])$/);
+
+  if (headingMatch) {
+    // Remove âncoras de permalink comuns no fim do heading (¶, #, 🔗)
+    const text = renderInline(element.children, context, false)
+      .replace(/\s+/g, " ")
+      .replace(/\s*[¶#🔗]$/u, "");
+    return text ? [`${"#".repeat(Number(headingMatch[1]))} ${text}`] : [];
+  }
+
+  switch (tag) {
+    case "pre":
+      return renderCodeBlock(element, context);
+    case "ul":
+    case "ol":
+      return [renderList(element, "", context)].filter(Boolean);
+    case "table":
+      return [renderTable(element, context)].filter(Boolean);
+    case "blockquote": {
+      const quoted = renderBlocks(element.children, context).join("\n\n");
+      return quoted ? [quoted.replace(/^/gm, "> ")] : [];
+    }
+    case "hr":
+      return ["---"];
+    case "dt": {
+      const term = renderInline(element.children, context);
+      return term ? [`**${term}**`] : [];
+    }
+    default:
+      return renderBlocks(element.children, context);
+  }
+}
+
+/**
+ * Bloco de código cercado, com a linguagem detectada nas classes do <pre>, do <code> ou do container
+ */
+function renderCodeBlock(element: Element, { $ }: ConversionContext): string[] {
+  const pre = $(element);
+  const code = pre.text().replace(/^\n+|\n+$/g, "");
+  if (!code.trim()) return [];
+
+  const candidates = [pre, pre.children("code").first(), pre.parent()];
+  let language = "";
+  for (const candidate of candidates) {
+    const match = (candidate.attr("class") ?? "").match(CODE_LANGUAGE_REGEX);
+    language = match?.[1] ?? candidate.attr("data-lang") ?? candidate.attr("data-language") ?? "";
+    if (language) break;
+  }
+
+  // A cerca precisa ser maior que qualquer sequência de crases dentro do código
+  const longestRun = Math.max(0, ...(code.match(/`+/g) ?? []).map((run) => run.length));
+  const fence = "`".repeat(Math.max(3, longestRun + 1));
+
+  return [`${fence}${language.toLowerCase()}\n${code}\n${fence}`];
+}
+
+/**
+ * Lista Markdown; sublistas são indentadas na coluna do conteúdo do item pai
+ */
+function renderList(element: Element, indent: string, context: ConversionContext): string {
+  const { $ } = context;
+  const ordered = element.name.toLowerCase() === "ol";
+  let number = Number($(element).attr("start")) || 1;
+  const lines: string[] = [];
+
+  for (const item of $(element).children("li").get()) {
+    const marker = ordered ? `${number++}.` : "-";
+    const childIndent = indent + " ".repeat(marker.length + 1);
+
+    const nested = item.children.filter(
+      (child): child is Element => child.type === "tag" && ["ul", "ol"].includes(child.name.toLowerCase())
+    );
+    const content = renderBlocks(
+      item.children.filter((child) => !nested.includes(child as Element)),
+      context
+    ).join("\n");
+
+    const [first = "", ...rest] = content.split("\n");
+    lines.push(`${indent}${marker} ${first}`.trimEnd());
+    for (const line of rest) {
+      lines.push(line ? `${childIndent}${line}` : "");
+    }
+
+    for (const list of nested) {
+      const rendered = renderList(list, childIndent, context);
+      if (rendered) lines.push(rendered);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Tabela Markdown a partir das linhas da tabela (ignora tabelas aninhadas)
+ */
+function renderTable(element: Element, context: ConversionContext): string {
+  const { $ } = context;
+
+  const rows = $(element)
+    .find("tr")
+    .filter((_, row) => $(row).closest("table").get(0) === element)
+    .get()
+    .map((row) =>
+      $(row)
+        .children("th, td")
+        .get()
+        .map((cell) => renderInline(cell.children, context))
+    );
+
+  return formatMarkdownTable(rows);
+}
+
+/**
+ * Renderiza nós inline: links, ênfase, código inline e quebras de linha
+ *
+ * @param withLinks - false para headings (só o texto do link)
+ */
+function renderInline(nodes: AnyNode[], context: ConversionContext, withLinks = true): string {
+  const text = nodes.map((node) => renderInlineNode(node, context, withLinks)).join("");
+
+  return text
+    .split("\n")
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .filter((line, index, lines) => line || (index > 0 && lines[index - 1]))
+    .join("\n")
+    .trim();
+}
+
+function renderInlineNode(node: AnyNode, context: ConversionContext, withLinks: boolean): string {
+  if (node.type === "text") {
+    return node.data.replace(/\s+/g, " ");
+  }
+
+  if (node.type !== "tag") return "";
+
+  const tag = node.name.toLowerCase();
+  if (SKIPPED_TAGS.has(tag)) return "";
+
+  const inner = () => node.children.map((child) => renderInlineNode(child, context, withLinks)).join("");
+
+  switch (tag) {
+    case "br":
+      return "\n";
+    case "code":
+    case "kbd":
+    case "samp": {
+      const code = context.$(node).text().replace(/\s+/g, " ").trim();
+      if (!code) return "";
+      const fence = code.includes("`") ? "``" : "`";
+      return `${fence}${code}${fence}`;
+    }
+    case "strong":
+    case "b":
+      return wrapInline(inner(), "**");
+    case "em":
+    case "i":
+      return wrapInline(inner(), "*");
+    case "del":
+    case "s":
+      return wrapInline(inner(), "~~");
+    case "a": {
+      const text = inner();
+      const href = withLinks ? resolveHref(node.attribs.href, context.baseUrl) : null;
+      return href && text.trim() ? `[${text.trim()}](${href})` : text;
+    }
+    default: {
+      // Bloco dentro de conteúdo inline (ex: <div> dentro de <span>): separa com espaço
+      const content = inner();
+      return BLOCK_TAGS.has(tag) ? ` ${content} ` : content;
+    }
+  }
+}
+
+/**
+ * Aplica o marcador de ênfase mantendo os espaços das bordas fora dele
+ */
+function wrapInline(text: string, marker: string): string {
+  const match = text.match(/^(\s*)([\s\S]*?)(\s*)$/);
+  if (!match || !match[2]) return text;
+  return `${match[1]}${marker}${match[2]}${marker}${match[3]}`;
+}
+
+/**
+ * Link absoluto (http/https/mailto); âncoras internas e javascript: viram texto
+ */
+function resolveHref(href: string | undefined, baseUrl: string | undefined): string | null {
+  if (!href || href.startsWith("#") || /^javascript:/i.test(href)) return null;
+
+  try {
+    const url = new URL(href, baseUrl);
+    if (!["http:", "https:", "mailto:"].includes(url.protocol)) return null;
+    return url.href.replace(/[()]/g, (char) => encodeURIComponent(char));
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,64 @@
+import fs from "node:fs";
+import path from "node:path";
+
+/**
+ * Armazenamento chave → registro persistido em um arquivo JSON
+ * Mantém os registros em memória e regrava o arquivo inteiro a cada alteração
+ * (escrita atômica via arquivo temporário + rename)
+ *
+ * Adequado para volumes pequenos (registro de documentos, jobs, assinaturas)
+ */
+export class JsonStore<T> {
+  private records: Map<string, T> | null = null;
+
+  constructor(private readonly filePath: string) {}
+
+  get(id: string): T | undefined {
+    return this.load().get(id);
+  }
+
+  list(): T[] {
+    return Array.from(this.load().values());
+  }
+
+  has(id: string): boolean {
+    return this.load().has(id);
+  }
+
+  set(id: string, record: T): T {
+    this.load().set(id, record);
+    this.persist();
+    return record;
+  }
+
+  delete(id: string): boolean {
+    const deleted = this.load().delete(id);
+    if (deleted) this.persist();
+    return deleted;
+  }
+
+  private load(): Map<string, T> {
+    if (this.records) return this.records;
+
+    if (fs.existsSync(this.filePath)) {
+      const raw = fs.readFileSync(this.filePath, "utf-8");
+      const data = JSON.parse(raw) as Record<string, T>;
+      this.records = new Map(Object.entries(data));
+    } else {
+      this.records = new Map();
+    }
+
+    return this.records;
+  }
+
+  private persist(): void {
+    const directory = path.dirname(this.filePath);
+    if (!fs.existsSync(directory)) {
+      fs.mkdirSync(directory, { recursive: true });
+    }
+
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(Object.fromEntries(this.load()), null, 2));
+    fs.renameSync(tempPath, this.filePath);
+  }
+}
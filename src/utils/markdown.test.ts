@@ -0,0 +1,41 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { buildBreadcrumb, splitMarkdownByHeadings } from "./markdown.js";
+
+describe("splitMarkdownByHeadings", () => {
+  it("divide por heading mantendo a hierarquia de cada seção", () => {
+    const sections = splitMarkdownByHeadings(
+      ["# Livro", "Introdução.", "## Capítulo 1", "Texto 1.", "### Seção 1.1", "Texto 1.1.", "## Capítulo 2", "Texto 2."].join("\n")
+    );
+
+    assert.deepEqual(
+      sections.map((section) => section.headings),
+      [["Livro"], ["Livro", "Capítulo 1"], ["Livro", "Capítulo 1", "Seção 1.1"], ["Livro", "Capítulo 2"]]
+    );
+    assert.equal(sections[2]!.content, "### Seção 1.1\nTexto 1.1.");
+  });
+
+  it("descarta seções só com o heading", () => {
+    const sections = splitMarkdownByHeadings("# Título\n\n## Vazio\n\n## Cheio\nConteúdo");
+
+    assert.deepEqual(sections.map((section) => section.headings), [["Título", "Cheio"]]);
+  });
+
+  it("ignora headings dentro de blocos de código", () => {
+    const sections = splitMarkdownByHeadings("# Shell\n```bash\n# comentário\necho oi\n```");
+
+    assert.equal(sections.length, 1);
+    assert.deepEqual(sections[0]!.headings, ["Shell"]);
+    assert.match(sections[0]!.content, /# comentário/);
+  });
+
+  it("mantém o texto antes do primeiro heading sem hierarquia", () => {
+    const sections = splitMarkdownByHeadings("Prefácio solto.\n# Capítulo\nTexto.");
+
+    assert.deepEqual(sections.map((section) => section.headings), [[], ["Capítulo"]]);
+  });
+
+  it("monta o breadcrumb com o separador padrão", () => {
+    assert.equal(buildBreadcrumb(["Capítulo 3", "Repository Pattern"]), "Capítulo 3 > Repository Pattern");
+  });
+});
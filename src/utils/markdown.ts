@@ -0,0 +1,170 @@
+/**
+ * Seção de um documento Markdown delimitada por headings
+ */
+export interface MarkdownSection {
+  /** Hierarquia de headings até a seção (ex: ["Capítulo 3", "Repository Pattern"]) */
+  headings: string[];
+  /** Conteúdo da seção, incluindo a linha do heading */
+  content: string;
+}
+
+const HEADING_REGEX = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const FENCE_REGEX = /^\s*(```|~~~)/;
+
+/**
+ * Separador usado para montar o breadcrumb de headings
+ */
+export const BREADCRUMB_SEPARATOR = " > ";
+
+/**
+ * Monta o breadcrumb a partir da hierarquia de headings
+ * Ex: ["Chapter 3", "Repository Pattern", "Trade-offs"] → "Chapter 3 > Repository Pattern > Trade-offs"
+ */
+export function buildBreadcrumb(headings: string[]): string {
+  return headings.join(BREADCRUMB_SEPARATOR);
+}
+
+/**
+ * Divide um texto Markdown em seções seguindo a hierarquia de headings (ATX: # a ######)
+ * Headings dentro de blocos de código cercados (``` ou ~~~) são ignorados
+ * Seções sem conteúdo além do próprio heading são descartadas
+ *
+ * @param markdown - Texto Markdown
+ * @returns Seções na ordem do documento
+ */
+export function splitMarkdownByHeadings(markdown: string): MarkdownSection[] {
+  const sections: MarkdownSection[] = [];
+  // stack[n] guarda o heading ativo de nível n + 1
+  const stack: Array<string | undefined> = [];
+  let headings: string[] = [];
+  let lines: string[] = [];
+  let hasBody = false;
+  let fence: string | null = null;
+
+  const flush = () => {
+    if (hasBody) {
+      sections.push({ headings, content: lines.join("\n").trim() });
+    }
+    lines = [];
+    hasBody = false;
+  };
+
+  for (const line of markdown.split(/\r?\n/)) {
+    const fenceMatch = line.match(FENCE_REGEX);
+    if (fenceMatch) {
+      const marker = fenceMatch[1]!;
+      fence = fence === null ? marker : fence === marker ? null : fence;
+    }
+
+    const headingMatch = fence === null ? line.match(HEADING_REGEX) : null;
+
+    if (headingMatch) {
+      flush();
+
+      const level = headingMatch[1]!.length;
+      stack[level - 1] = headingMatch[2]!.trim();
+      stack.length = level;
+      headings = stack.filter((heading): heading is string => heading !== undefined);
+      lines.push(line);
+      continue;
+    }
+
+    lines.push(line);
+    if (line.trim().length > 0) {
+      hasBody = true;
+    }
+  }
+
+  flush();
+
+  return sections;
+}
+
+/**
+ * Bloco de um texto Markdown: código cercado e tabelas são indivisíveis no chunking
+ */
+export interface MarkdownBlock {
+  type: "text" | "code" | "table";
+  content: string;
+}
+
+const TABLE_ROW_REGEX = /^\s*\|.*\|\s*$/;
+
+/**
+ * Separa blocos de código cercados (``` ou ~~~) e tabelas (2+ linhas "| ... |") do texto corrido
+ * Um bloco de código sem fechamento vai até o fim do texto
+ *
+ * @param markdown - Texto Markdown
+ * @returns Blocos na ordem do texto (texto corrido pode conter várias linhas e parágrafos)
+ */
+export function splitMarkdownBlocks(markdown: string): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  const lines = markdown.split(/\r?\n/);
+  let text: string[] = [];
+
+  const push = (type: MarkdownBlock["type"], blockLines: string[]) => {
+    const content = blockLines.join("\n");
+    if (content.trim()) blocks.push({ type, content: type === "text" ? content.trim() : content });
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]!;
+    const fenceMatch = line.match(/^\s*(`{3,}|~{3,})/);
+
+    if (fenceMatch) {
+      const marker = fenceMatch[1]!;
+      let end = i + 1;
+      // Fecha com o mesmo caractere e pelo menos o mesmo tamanho
+      while (end < lines.length && !lines[end]!.trim().startsWith(marker)) end++;
+
+      push("text", text);
+      text = [];
+      push("code", lines.slice(i, end + 1));
+      i = end;
+      continue;
+    }
+
+    if (TABLE_ROW_REGEX.test(line) && TABLE_ROW_REGEX.test(lines[i + 1] ?? "")) {
+      let end = i;
+      while (end + 1 < lines.length && TABLE_ROW_REGEX.test(lines[end + 1]!)) end++;
+
+      push("text", text);
+      text = [];
+      push("table", lines.slice(i, end + 1));
+      i = end;
+      continue;
+    }
+
+    text.push(line);
+  }
+
+  push("text", text);
+  return blocks;
+}
+
+/**
+ * Formata linhas de células como tabela Markdown (primeira linha como cabeçalho)
+ * Pipes e quebras de linha dentro das células são escapados/normalizados
+ *
+ * @param rows - Linhas da tabela, cada uma com o texto das células
+ * @returns Tabela Markdown ou string vazia se não houver conteúdo
+ */
+export function formatMarkdownTable(rows: string[][]): string {
+  const nonEmptyRows = rows.filter((row) => row.some((cell) => cell.trim().length > 0));
+  if (nonEmptyRows.length === 0) return "";
+
+  const columnCount = Math.max(...nonEmptyRows.map((row) => row.length));
+  const formatRow = (row: string[]) => {
+    const cells = Array.from({ length: columnCount }, (_, i) =>
+      (row[i] ?? "").replace(/\s*\n\s*/g, " ").replace(/\|/g, "\\|").trim()
+    );
+    return `| ${cells.join(" | ")} |`;
+  };
+
+  const [header, ...body] = nonEmptyRows;
+  return [
+    formatRow(header!),
+    `| ${Array(columnCount).fill("---").join(" | ")} |`,
+    ...body.map(formatRow),
+  ].join("\n");
+}
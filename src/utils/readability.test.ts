@@ -0,0 +1,97 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import * as cheerio from "cheerio";
+import { extractArticle, extractArticleMetadata } from "./readability.js";
+
+const paragraph = (text: string) => `<p>${text} ${"Texto corrido do artigo, com frases longas e vírgulas, ".repeat(4)}</p>`;
+
+describe("extractArticle", () => {
+  it("escolhe o bloco de conteúdo em vez do menu e da barra lateral", () => {
+    const $ = cheerio.load(`
+      <html><body>
+        <nav><a href="/">Início</a><a href="/blog">Blog</a></nav>
+        <div class="sidebar"><p>Assine a newsletter, receba novidades, promoções e muito mais todos os dias.</p></div>
+        <div class="post-content">${paragraph("Primeiro parágrafo.")}${paragraph("Segundo parágrafo.")}</div>
+      </body></html>
+    `);
+
+    const { html, debug } = extractArticle($);
+
+    assert.match(debug.selected!.node, /post-content/);
+    assert.match(html, /Primeiro parágrafo\./);
+    assert.doesNotMatch(html, /newsletter|Início/);
+  });
+
+  it("penaliza blocos formados quase só por links", () => {
+    const links = Array.from({ length: 8 }, (_, i) => `<a href="/p/${i}">Leia também o artigo relacionado número ${i}</a>`).join(", ");
+    const $ = cheerio.load(`
+      <html><body>
+        <div id="lista"><p>${links}</p><p>${links}</p></div>
+        <div id="story">${paragraph("Conteúdo do artigo.")}</div>
+      </body></html>
+    `);
+
+    const { debug } = extractArticle($);
+
+    assert.match(debug.selected!.node, /#story/);
+    const related = debug.candidates.find((candidate) => candidate.node.includes("#lista"));
+    assert.ok(related && related.linkDensity > 0.5 && related.score < debug.selected!.score);
+  });
+});
+
+describe("extractArticleMetadata", () => {
+  it("prefere as meta tags e normaliza data e idioma", () => {
+    const $ = cheerio.load(`
+      <html lang="pt_BR"><head>
+        <meta name="author" content="Ana Souza">
+        <meta property="article:published_time" content="2024-03-05T10:00:00Z">
+        <meta property="og:site_name" content="Blog da Ana">
+      </head><body></body></html>
+    `);
+
+    assert.deepEqual(extractArticleMetadata($), {
+      byline: "Ana Souza",
+      publishedAt: "2024-03-05T10:00:00.000Z",
+      siteName: "Blog da Ana",
+      language: "pt-BR",
+    });
+  });
+
+  it("lê autor, data, publisher e idioma do JSON-LD dentro de @graph", () => {
+    const jsonLd = {
+      "@context": "https://schema.org",
+      "@graph": [
+        { "@type": "WebSite", name: "Ignorado" },
+        {
+          "@type": ["NewsArticle"],
+          author: [{ "@type": "Person", name: "Ana" }, "Bruno", { url: "https://exemplo.com/sem-nome" }],
+          datePublished: "2024-01-02",
+          publisher: { "@type": "Organization", name: "Jornal" },
+          inLanguage: "en-US",
+        },
+      ],
+    };
+    const $ = cheerio.load(`
+      <html><head>
+        <script type="application/ld+json">{ inválido</script>
+        <script type="application/ld+json">${JSON.stringify(jsonLd)}</script>
+      </head><body></body></html>
+    `);
+
+    assert.deepEqual(extractArticleMetadata($), {
+      byline: "Ana, Bruno",
+      publishedAt: "2024-01-02T00:00:00.000Z",
+      siteName: "Jornal",
+      language: "en-US",
+    });
+  });
+
+  it("ignora article:author com URL e usa o byline visível", () => {
+    const $ = cheerio.load(`
+      <html><head><meta property="article:author" content="https://exemplo.com/ana"></head>
+      <body><span class="byline">Por Carla Lima</span></body></html>
+    `);
+
+    assert.equal(extractArticleMetadata($).byline, "Carla Lima");
+  });
+});
@@ -0,0 +1,498 @@
+import type * as cheerio from "cheerio";
+import type { AnyNode, Element } from "domhandler";
+
+/**
+ * Metadata do artigo (autor, data de publicação, site e idioma)
+ */
+export interface ArticleMetadata {
+  byline: string | null;
+  /** Data de publicação em ISO 8601 */
+  publishedAt: string | null;
+  siteName: string | null;
+  /** Código de idioma BCP 47 (ex: "pt-BR") */
+  language: string | null;
+}
+
+/**
+ * Nó avaliado como possível conteúdo principal
+ */
+export interface ContentCandidate {
+  /** Descrição do nó: tag#id.classes */
+  node: string;
+  /** Caminho a partir do <body> */
+  path: string;
+  /** Pontuação final (pontuação de texto × (1 - densidade de links)) */
+  score: number;
+  /** Parágrafos que contribuíram para a pontuação */
+  paragraphs: number;
+  textLength: number;
+  linkDensity: number;
+  /** Peso de class/id (+25 positivo, -25 negativo) */
+  classWeight: number;
+}
+
+/**
+ * Como o conteúdo principal foi escolhido (endpoint de debug)
+ */
+export interface ContentExtractionDebug {
+  /** Nó escolhido (null: nenhum candidato, usou o <body>) */
+  selected: ContentCandidate | null;
+  reason: string;
+  /** Melhores candidatos, do maior para o menor score */
+  candidates: ContentCandidate[];
+  /** Irmãos do nó escolhido incluídos no conteúdo */
+  siblingsIncluded: string[];
+  /** Nós removidos antes da pontuação (class/id/role típicos de banners, menus, comentários...) */
+  removedUnlikely: string[];
+  /** Nós removidos do conteúdo escolhido (muitos links, formulários, pouco texto) */
+  removedFromContent: string[];
+}
+
+export interface ExtractedArticle {
+  /** HTML do conteúdo principal */
+  html: string;
+  metadata: ArticleMetadata;
+  debug: ContentExtractionDebug;
+}
+
+/**
+ * Elementos removidos antes da pontuação (sem conteúdo textual do artigo)
+ */
+const REMOVED_TAGS = "script, style, noscript, template, iframe, svg, canvas, object, embed, link, meta";
+
+/**
+ * Estrutura de página que nunca é conteúdo principal
+ */
+const STRUCTURAL_SELECTORS = "nav, footer, aside, header:not(article header, main header)";
+
+// Heurísticas de class/id no estilo do Mozilla Readability
+const UNLIKELY_CANDIDATES =
+  /-ad-|ai2html|banner|breadcrumb|combx|comment|community|consent|cookie|cover-wrap|disqus|extra|footer|gdpr|header|legends|menu|newsletter|popup|related|remark|replies|rss|share|shoutbox|sidebar|skyscraper|social|sponsor|subscribe|supplemental|ad-break|agegate|pagination|pager|promo|yom-remote|author-bio|about-author/i;
+const MAYBE_CANDIDATE = /and|article|body|column|content|main|shadow/i;
+const POSITIVE_CLASS = /article|body|content|entry|hentry|h-entry|main|page|pagination|post|text|blog|story|prose|markdown/i;
+const NEGATIVE_CLASS =
+  /-ad-|hidden|^hid$| hid$| hid |^hid |banner|combx|comment|com-|contact|cookie|consent|footer|gdpr|masthead|media|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|widget|newsletter|subscribe|author-bio/i;
+const UNLIKELY_ROLES = new Set(["menu", "menubar", "complementary", "navigation", "alert", "alertdialog", "dialog", "banner", "contentinfo"]);
+
+// Elementos cujo texto é pontuado como parágrafo
+const SCORED_TAGS = new Set(["p", "pre", "td", "blockquote", "section", "h2", "h3", "h4", "h5", "h6"]);
+// <div> sem estes filhos é tratado como parágrafo
+const BLOCK_CHILD_TAGS = new Set(["blockquote", "dl", "div", "img", "ol", "p", "pre", "table", "ul", "section", "article"]);
+
+const MIN_PARAGRAPH_LENGTH = 25;
+const MAX_DEBUG_CANDIDATES = 5;
+const MAX_DEBUG_REMOVED = 30;
+
+interface NodeScore {
+  score: number;
+  paragraphs: number;
+}
+
+/**
+ * Encontra o conteúdo principal da página por pontuação, no estilo do Mozilla Readability:
+ * parágrafos pontuam pelo tamanho do texto e vírgulas e propagam a pontuação aos ancestrais;
+ * class/id e a tag ajustam a pontuação; a densidade de links penaliza menus e listas de posts
+ * O documento é alterado (elementos removidos)
+ *
+ * @param $ - Documento carregado com Cheerio
+ * @returns HTML do conteúdo principal, metadata do artigo e o motivo da escolha
+ */
+export function extractArticle($: cheerio.CheerioAPI): ExtractedArticle {
+  // Metadata antes da limpeza (JSON-LD fica em <script>, autor costuma estar no <header>)
+  const metadata = extractArticleMetadata($);
+
+  const removedUnlikely: string[] = [];
+  $(REMOVED_TAGS).remove();
+  $("[hidden], [aria-hidden='true']").remove();
+  $("[style]")
+    .filter((_, el) => /display\s*:\s*none|visibility\s*:\s*hidden/i.test(el.attribs.style ?? ""))
+    .remove();
+
+  $(STRUCTURAL_SELECTORS).each((_, el) => {
+    removedUnlikely.push(describe(el));
+    $(el).remove();
+  });
+
+  $("body *").each((_, el) => {
+    if (isUnlikelyCandidate(el)) {
+      removedUnlikely.push(describe(el));
+      $(el).remove();
+    }
+  });
+
+  const body = $("body").get(0) ?? $.root().get(0);
+  const scores = scoreParagraphs($);
+
+  const candidates = Array.from(scores.entries())
+    .map(([el, { score, paragraphs }]) => {
+      const linkDensity = getLinkDensity($, el);
+      return { el, paragraphs, linkDensity, score: score * (1 - linkDensity) };
+    })
+    .sort((a, b) => b.score - a.score);
+
+  const top = candidates[0];
+
+  if (!top || !body || top.el === body) {
+    return {
+      html: (body && $(body).html()) || "",
+      metadata,
+      debug: {
+        selected: null,
+        reason: top ? "O próprio <body> teve a maior pontuação" : "Nenhum parágrafo pontuado: usando o <body> inteiro",
+        candidates: candidates.slice(0, MAX_DEBUG_CANDIDATES).map((c) => toCandidate($, c)),
+        siblingsIncluded: [],
+        removedUnlikely: removedUnlikely.slice(0, MAX_DEBUG_REMOVED),
+        removedFromContent: [],
+      },
+    };
+  }
+
+  // Irmãos com pontuação próxima (ex: artigo dividido em vários <div>) ou parágrafos soltos
+  const finalScores = new Map(candidates.map((c) => [c.el, c.score]));
+  const threshold = Math.max(10, top.score * 0.2);
+  const siblings = top.el.parent
+    ? top.el.parent.children.filter((node): node is Element => node.type === "tag")
+    : [top.el];
+  const included = siblings.filter((sibling) => {
+    if (sibling === top.el) return true;
+
+    const bonus = sibling.attribs.class && sibling.attribs.class === top.el.attribs.class ? top.score * 0.2 : 0;
+    if ((finalScores.get(sibling) ?? 0) + bonus >= threshold) return true;
+
+    if (sibling.name === "p") {
+      const text = normalizeText($(sibling).text());
+      const linkDensity = getLinkDensity($, sibling);
+      return (text.length > 80 && linkDensity < 0.25) || (text.length > 0 && linkDensity === 0 && /\.( |$)/.test(text));
+    }
+
+    return false;
+  });
+
+  const removedFromContent: string[] = [];
+  for (const el of included) {
+    cleanConditionally($, el, removedFromContent);
+  }
+
+  const selected = toCandidate($, top);
+  const classWeightText = selected.classWeight !== 0 ? `, class/id ${selected.classWeight > 0 ? "+" : ""}${selected.classWeight}` : "";
+
+  return {
+    html: included.map((el) => $.html(el)).join("\n"),
+    metadata,
+    debug: {
+      selected,
+      reason:
+        `Maior pontuação entre ${candidates.length} candidatos: ${top.paragraphs} parágrafos, ` +
+        `score ${selected.score}${classWeightText}, densidade de links ${selected.linkDensity}`,
+      candidates: candidates.slice(0, MAX_DEBUG_CANDIDATES).map((c) => toCandidate($, c)),
+      siblingsIncluded: included.filter((el) => el !== top.el).map(describe),
+      removedUnlikely: removedUnlikely.slice(0, MAX_DEBUG_REMOVED),
+      removedFromContent: removedFromContent.slice(0, MAX_DEBUG_REMOVED),
+    },
+  };
+}
+
+/**
+ * Autor, data de publicação, nome do site e idioma a partir de meta tags, JSON-LD e microdados
+ */
+export function extractArticleMetadata($: cheerio.CheerioAPI): ArticleMetadata {
+  const meta = (...selectors: string[]): string | null => {
+    for (const selector of selectors) {
+      const value = $(selector).first().attr("content")?.trim();
+      if (value) return value;
+    }
+    return null;
+  };
+
+  const jsonLd = readJsonLdArticle($);
+  const jsonLdAuthor = jsonLd?.author;
+  const authorFromJsonLd = (Array.isArray(jsonLdAuthor) ? jsonLdAuthor : [jsonLdAuthor])
+    .map((author) => (typeof author === "string" ? author : isRecord(author) ? author.name : null))
+    .filter((name): name is string => typeof name === "string" && name.trim().length > 0)
+    .join(", ");
+
+  // article:author às vezes é a URL do perfil: ignora
+  const metaAuthor = meta('meta[name="author"]', 'meta[property="article:author"]', 'meta[name="byl"]', 'meta[name="dc.creator" i]');
+  const visibleByline = normalizeText(
+    $('[rel="author"], [itemprop="author"], .byline, .author, .post-author').first().text()
+  );
+  const byline =
+    (metaAuthor && !/^https?:\/\//.test(metaAuthor) ? metaAuthor : null) ||
+    authorFromJsonLd ||
+    (visibleByline.length > 0 && visibleByline.length < 100 ? visibleByline.replace(/^(by|por)\s+/i, "") : null);
+
+  const publishedAt = toIsoDate(
+    meta(
+      'meta[property="article:published_time"]',
+      'meta[name="article:published_time"]',
+      'meta[itemprop="datePublished"]',
+      'meta[name="date"]',
+      'meta[name="pubdate"]',
+      'meta[name="publish-date"]',
+      'meta[name="dc.date.issued" i]',
+      'meta[name="dc.date" i]'
+    ) ||
+      (typeof jsonLd?.datePublished === "string" ? jsonLd.datePublished : null) ||
+      $("time[datetime]").first().attr("datetime") ||
+      null
+  );
+
+  const publisher = jsonLd?.publisher;
+  const siteName =
+    meta('meta[property="og:site_name"]', 'meta[name="application-name"]') ||
+    (isRecord(publisher) && typeof publisher.name === "string" ? publisher.name : null);
+
+  const rawLanguage =
+    $("html").attr("lang")?.trim() ||
+    meta('meta[http-equiv="content-language" i]', 'meta[property="og:locale"]') ||
+    (typeof jsonLd?.inLanguage === "string" ? jsonLd.inLanguage : null);
+
+  return {
+    byline: byline || null,
+    publishedAt,
+    siteName,
+    language: rawLanguage ? rawLanguage.split(",")[0]!.trim().replace("_", "-") : null,
+  };
+}
+
+/**
+ * Primeiro objeto JSON-LD de artigo/página (segue @graph e arrays)
+ */
+function readJsonLdArticle($: cheerio.CheerioAPI): Record<string, unknown> | null {
+  const isArticle = (item: unknown): item is Record<string, unknown> =>
+    isRecord(item) &&
+    [item["@type"]].flat().some((type) => typeof type === "string" && /Article|BlogPosting|Posting|WebPage|Report/.test(type));
+
+  for (const script of $('script[type="application/ld+json"]').get()) {
+    try {
+      const data: unknown = JSON.parse($(script).text());
+      const graph = isRecord(data) && Array.isArray(data["@graph"]) ? data["@graph"] : [];
+      const items: unknown[] = [data, ...(Array.isArray(data) ? data : []), ...graph].flat();
+      const article = items.find(isArticle);
+      if (article) return article;
+    } catch {
+      // JSON-LD inválido: ignora
+    }
+  }
+
+  return null;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isUnlikelyCandidate(el: Element): boolean {
+  const tag = el.name.toLowerCase();
+  if (tag === "body" || tag === "article" || tag === "main" || tag === "a") return false;
+
+  const role = el.attribs.role?.toLowerCase();
+  if (role && UNLIKELY_ROLES.has(role)) return true;
+
+  const matchString = `${el.attribs.class ?? ""} ${el.attribs.id ?? ""}`;
+  return UNLIKELY_CANDIDATES.test(matchString) && !MAYBE_CANDIDATE.test(matchString);
+}
+
+/**
+ * Pontua cada parágrafo e propaga a pontuação aos ancestrais
+ * (pai: integral, avô: metade, demais: dividida por nível × 3)
+ */
+function scoreParagraphs($: cheerio.CheerioAPI): Map<Element, NodeScore> {
+  const scores = new Map<Element, NodeScore>();
+
+  const initialize = (el: Element): NodeScore => {
+    let node = scores.get(el);
+    if (!node) {
+      node = { score: getTagWeight(el.name.toLowerCase()) + getClassWeight(el), paragraphs: 0 };
+      scores.set(el, node);
+    }
+    return node;
+  };
+
+  $("body *").each((_, el) => {
+    const tag = el.name.toLowerCase();
+    const isParagraph =
+      SCORED_TAGS.has(tag) ||
+      (tag === "div" && !el.children.some((child) => child.type === "tag" && BLOCK_CHILD_TAGS.has(child.name.toLowerCase())));
+    if (!isParagraph) return;
+
+    const text = normalizeText($(el).text());
+    if (text.length < MIN_PARAGRAPH_LENGTH) return;
+
+    // 1 ponto base + 1 por vírgula + 1 a cada 100 caracteres (máx. 3)
+    const contentScore = 1 + text.split(/[,，、]/).length - 1 + Math.min(Math.floor(text.length / 100), 3);
+
+    let ancestor = el.parent;
+    for (let level = 0; ancestor && ancestor.type === "tag" && ancestor.name !== "html" && level < 5; level++) {
+      const divider = level === 0 ? 1 : level === 1 ? 2 : level * 3;
+      const node = initialize(ancestor);
+      node.score += contentScore / divider;
+      if (level === 0) node.paragraphs++;
+      ancestor = ancestor.parent;
+    }
+  });
+
+  return scores;
+}
+
+function getTagWeight(tag: string): number {
+  switch (tag) {
+    case "article":
+    case "main":
+      return 10;
+    case "div":
+      return 5;
+    case "pre":
+    case "td":
+    case "blockquote":
+      return 3;
+    case "address":
+    case "ol":
+    case "ul":
+    case "dl":
+    case "dd":
+    case "dt":
+    case "li":
+    case "form":
+      return -3;
+    case "h1":
+    case "h2":
+    case "h3":
+    case "h4":
+    case "h5":
+    case "h6":
+    case "th":
+      return -5;
+    default:
+      return 0;
+  }
+}
+
+function getClassWeight(el: Element): number {
+  let weight = 0;
+
+  for (const value of [el.attribs.class, el.attribs.id]) {
+    if (!value) continue;
+    if (NEGATIVE_CLASS.test(value)) weight -= 25;
+    if (POSITIVE_CLASS.test(value)) weight += 25;
+  }
+
+  return weight;
+}
+
+/**
+ * Fração do texto que está dentro de links
+ */
+function getLinkDensity($: cheerio.CheerioAPI, el: Element): number {
+  const textLength = normalizeText($(el).text()).length;
+  if (textLength === 0) return 0;
+
+  const linkLength = $(el)
+    .find("a")
+    .get()
+    .reduce((total, link) => total + normalizeText($(link).text()).length, 0);
+
+  return Math.min(1, linkLength / textLength);
+}
+
+/**
+ * Remove do conteúdo escolhido blocos com cara de "lixo": class/id negativos, listas de links
+ * (posts relacionados), formulários e blocos quase sem texto
+ * Código (<pre>) e tabelas de dados (com <th>) são preservados
+ */
+function cleanConditionally($: cheerio.CheerioAPI, root: Element, removed: string[]): void {
+  const nodes = $(root).find("div, section, aside, form, ul, ol, table").get().reverse();
+
+  for (const el of nodes) {
+    if (!el.parent) continue;
+
+    const node = $(el);
+    if (node.is("pre, table:has(th)") || node.find("pre, table:has(th)").length > 0) continue;
+
+    const tag = el.name.toLowerCase();
+    const weight = getClassWeight(el);
+    const text = normalizeText(node.text());
+    const linkDensity = getLinkDensity($, el);
+    const commas = text.split(",").length - 1;
+
+    let remove = weight < 0 || tag === "form";
+
+    if (!remove && commas < 10) {
+      const paragraphs = node.find("p").length;
+      const images = node.find("img").length;
+      // Como no Readability: só conta quando a lista é muito longa em relação aos parágrafos
+      const items = node.find("li").length - 100;
+      const inputs = node.find("input").length;
+      const isList = tag === "ul" || tag === "ol";
+
+      remove =
+        (images > 1 && paragraphs / images < 0.5) ||
+        (!isList && items > paragraphs) ||
+        inputs > Math.floor(paragraphs / 3) ||
+        (!isList && text.length < MIN_PARAGRAPH_LENGTH && (images === 0 || images > 2)) ||
+        (weight < 25 && linkDensity > 0.2 && text.length < 500) ||
+        (weight >= 25 && linkDensity > 0.5);
+    }
+
+    if (remove) {
+      removed.push(describe(el));
+      node.remove();
+    }
+  }
+}
+
+function toCandidate(
+  $: cheerio.CheerioAPI,
+  { el, score, paragraphs, linkDensity }: { el: Element; score: number; paragraphs: number; linkDensity: number }
+): ContentCandidate {
+  return {
+    node: describe(el),
+    path: describePath(el),
+    score: round(score),
+    paragraphs,
+    textLength: normalizeText($(el).text()).length,
+    linkDensity: round(linkDensity),
+    classWeight: getClassWeight(el),
+  };
+}
+
+/**
+ * tag#id.classe1.classe2 (até 3 classes)
+ */
+function describe(el: Element): string {
+  const id = el.attribs.id ? `#${el.attribs.id}` : "";
+  const classes = (el.attribs.class ?? "")
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 3)
+    .map((name) => `.${name}`)
+    .join("");
+
+  return `${el.name.toLowerCase()}${id}${classes}`;
+}
+
+function describePath(el: Element): string {
+  const parts: string[] = [];
+  let node: AnyNode | null = el;
+
+  while (node && node.type === "tag" && (node as Element).name.toLowerCase() !== "html") {
+    parts.unshift(describe(node as Element));
+    node = node.parent;
+  }
+
+  return parts.join(" > ");
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+function toIsoDate(value: string | null): string | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,51 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { isPathAllowed, parseRobots } from "./robots.js";
+
+describe("robots.txt", () => {
+  const rules = parseRobots(
+    [
+      "User-agent: googlebot",
+      "Disallow: /",
+      "",
+      "User-agent: other",
+      "User-agent: *",
+      "Disallow: /private # comentário",
+      "Allow: /private/public",
+      "Disallow: /*.pdf$",
+      "Disallow: /search?q=",
+      "",
+      "User-agent: bingbot",
+      "Disallow: /docs",
+    ].join("\n")
+  );
+
+  it("usa só as regras do grupo User-agent: * (inclusive em grupo com vários agentes)", () => {
+    assert.equal(rules.length, 4);
+    assert.equal(isPathAllowed(rules, "/docs/intro"), true);
+  });
+
+  it("bloqueia por prefixo e libera a regra Allow mais específica", () => {
+    assert.equal(isPathAllowed(rules, "/private/data"), false);
+    assert.equal(isPathAllowed(rules, "/private/public/page"), true);
+  });
+
+  it("suporta * como curinga e $ como fim do caminho", () => {
+    assert.equal(isPathAllowed(rules, "/files/manual.pdf"), false);
+    assert.equal(isPathAllowed(rules, "/files/manual.pdf?download=1"), true);
+  });
+
+  it("compara a query string", () => {
+    assert.equal(isPathAllowed(rules, "/search?q=rag"), false);
+    assert.equal(isPathAllowed(rules, "/search"), true);
+  });
+
+  it("Disallow vazio libera tudo", () => {
+    assert.equal(isPathAllowed(parseRobots("User-agent: *\nDisallow:"), "/qualquer"), true);
+  });
+
+  it("em empate de tamanho, Allow vence", () => {
+    const tied = parseRobots("User-agent: *\nDisallow: /page\nAllow: /page");
+    assert.equal(isPathAllowed(tied, "/page"), true);
+  });
+});
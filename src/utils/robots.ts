@@ -0,0 +1,129 @@
+import axios from "axios";
+
+/**
+ * Regra Allow/Disallow do robots.txt
+ */
+export interface RobotsRule {
+  allow: boolean;
+  pattern: RegExp;
+  /** Tamanho do caminho da regra (a regra mais específica vence) */
+  length: number;
+}
+
+interface CachedRobots {
+  rules: Promise<RobotsRule[]>;
+  expiresAt: number;
+}
+
+// Regras do grupo "User-agent: *" por origem; expiram para que crawls longos e verificações
+// agendadas vejam mudanças no robots.txt
+const robotsCache = new Map<string, CachedRobots>();
+
+const ROBOTS_TIMEOUT = 10000;
+const ROBOTS_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Verifica se o robots.txt da origem permite acessar a URL
+ * Usa o grupo "User-agent: *"; robots.txt ausente ou inacessível libera tudo
+ *
+ * @param url - URL absoluta a verificar
+ * @returns true se o acesso é permitido
+ */
+export async function isAllowedByRobots(url: string): Promise<boolean> {
+  const { origin, pathname, search } = new URL(url);
+
+  let cached = robotsCache.get(origin);
+  if (!cached || cached.expiresAt <= Date.now()) {
+    cached = { rules: fetchRobotsRules(origin), expiresAt: Date.now() + ROBOTS_CACHE_TTL_MS };
+    robotsCache.set(origin, cached);
+  }
+
+  return isPathAllowed(await cached.rules, `${pathname}${search}`);
+}
+
+/**
+ * Aplica as regras a um caminho (com query string): a regra mais específica vence
+ *
+ * @returns true se nenhuma regra bloqueia o caminho
+ */
+export function isPathAllowed(rules: RobotsRule[], path: string): boolean {
+  let match: RobotsRule | undefined;
+
+  for (const rule of rules) {
+    if (!rule.pattern.test(path)) continue;
+    // Mais específica vence; em empate, Allow vence
+    if (!match || rule.length > match.length || (rule.length === match.length && rule.allow)) {
+      match = rule;
+    }
+  }
+
+  return match ? match.allow : true;
+}
+
+async function fetchRobotsRules(origin: string): Promise<RobotsRule[]> {
+  try {
+    const response = await axios.get<string>(`${origin}/robots.txt`, {
+      timeout: ROBOTS_TIMEOUT,
+      responseType: "text",
+      validateStatus: (status) => status === 200,
+    });
+    return parseRobots(String(response.data));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Extrai as regras do grupo "User-agent: *"
+ * Linhas User-agent consecutivas formam um grupo; o grupo termina no próximo User-agent após regras
+ */
+export function parseRobots(content: string): RobotsRule[] {
+  const rules: RobotsRule[] = [];
+  let groupAgents: string[] = [];
+  let groupHasRules = false;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const separator = line.indexOf(":");
+    if (separator === -1) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === "user-agent") {
+      if (groupHasRules) {
+        groupAgents = [];
+        groupHasRules = false;
+      }
+      groupAgents.push(value.toLowerCase());
+      continue;
+    }
+
+    if (field !== "allow" && field !== "disallow") continue;
+    groupHasRules = true;
+
+    // "Disallow:" vazio libera tudo; só interessa o grupo genérico
+    if (!groupAgents.includes("*") || value.length === 0) continue;
+
+    rules.push({
+      allow: field === "allow",
+      pattern: robotsPatternToRegExp(value),
+      length: value.length,
+    });
+  }
+
+  return rules;
+}
+
+/**
+ * Converte o caminho de uma regra em RegExp (prefixo, com * como curinga e $ como fim)
+ */
+function robotsPatternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.endsWith("$");
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+
+  return new RegExp(`^${body}${anchored ? "$" : ""}`);
+}
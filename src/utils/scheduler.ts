@@ -0,0 +1,38 @@
+/**
+ * Executa uma tarefa periodicamente (e imediatamente ao iniciar), sem sobrepor execuções:
+ * se a execução anterior ainda não terminou, o ciclo é pulado
+ *
+ * @param name - Nome usado nos logs de erro
+ * @param task - Tarefa a executar
+ * @param intervalMs - Intervalo entre execuções
+ * @returns Função que para o agendamento
+ */
+export function startPeriodicTask(name: string, task: () => Promise<void>, intervalMs: number): () => void {
+  let running = false;
+
+  const run = async () => {
+    if (running) return;
+    running = true;
+
+    try {
+      await task();
+    } catch (error) {
+      console.error(`❌ Erro na tarefa agendada "${name}":`, error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(() => void run(), intervalMs);
+  void run();
+
+  return () => clearInterval(timer);
+}
+
+/**
+ * Indica se uma verificação com intervalo em minutos está vencida
+ * (nunca executada conta como vencida)
+ */
+export function isDue(lastRunAt: string | undefined, intervalMinutes: number, now = Date.now()): boolean {
+  return !lastRunAt || now >= Date.parse(lastRunAt) + intervalMinutes * 60 * 1000;
+}
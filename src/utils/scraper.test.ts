@@ -0,0 +1,112 @@
+import assert from "node:assert/strict";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { after, before, describe, it } from "node:test";
+
+// O config exige a chave do LLM; retries rápidos e sem intervalo por host nem fallback para o Playwright
+process.env.DEEPSEEK_API_KEY ??= "test";
+process.env.SCRAPER_MIN_DELAY_MS = "0";
+process.env.SCRAPER_RETRY_BASE_DELAY_MS = "10";
+process.env.SCRAPER_PLAYWRIGHT_FALLBACK = "false";
+const {
+  CheerioScraper,
+  ContentTooShortError,
+  HttpStatusError,
+  NotModifiedError,
+  ScrapeNetworkError,
+  ScrapeTimeoutError,
+  scrapeUrl,
+} = await import("./scraper.js");
+
+const ARTICLE = `<html><body><article><h1>Título</h1><p>${"Conteúdo do artigo com texto suficiente, ".repeat(10)}</p></article></body></html>`;
+
+// Respostas por caminho; /flaky falha com 503 na primeira requisição
+let flakyRequests = 0;
+const server = http.createServer((req, res) => {
+  switch (req.url) {
+    case "/missing":
+      res.writeHead(404).end();
+      break;
+    case "/busy":
+      res.writeHead(503, { "Retry-After": "2" }).end();
+      break;
+    case "/cached":
+      res.writeHead(req.headers["if-none-match"] === '"v1"' ? 304 : 200, { ETag: '"v1"' }).end(ARTICLE);
+      break;
+    case "/flaky":
+      if (flakyRequests++ === 0) res.writeHead(503).end();
+      else res.writeHead(200, { "Content-Type": "text/html" }).end(ARTICLE);
+      break;
+    default:
+      res.writeHead(200, { "Content-Type": "text/html" }).end(ARTICLE);
+  }
+});
+
+let baseUrl = "";
+before(async () => {
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+after(() => server.close());
+
+describe("classificação das falhas de scraping", () => {
+  it("repete timeout, rede, 408, 429 e 5xx, mas não 4xx nem conteúdo curto", () => {
+    assert.equal(new HttpStatusError("u", 404).retryable, false);
+    assert.equal(new HttpStatusError("u", 403).retryable, false);
+    assert.equal(new HttpStatusError("u", 408).retryable, true);
+    assert.equal(new HttpStatusError("u", 429).retryable, true);
+    assert.equal(new HttpStatusError("u", 503).retryable, true);
+    assert.equal(new ScrapeTimeoutError("u", 1000).retryable, true);
+    assert.equal(new ScrapeNetworkError("u", "ECONNRESET").retryable, true);
+    assert.equal(new ContentTooShortError("u", "cheerio", 10).retryable, false);
+  });
+
+  it("CheerioScraper converte status HTTP e o Retry-After em HttpStatusError", async () => {
+    const scraper = new CheerioScraper();
+
+    await assert.rejects(scraper.scrape(`${baseUrl}/missing`), (error: unknown) => {
+      assert.ok(error instanceof HttpStatusError);
+      assert.equal(error.status, 404);
+      assert.equal(error.retryable, false);
+      return true;
+    });
+
+    await assert.rejects(scraper.scrape(`${baseUrl}/busy`), (error: unknown) => {
+      assert.ok(error instanceof HttpStatusError);
+      assert.equal(error.retryable, true);
+      assert.equal(error.retryAfterMs, 2000);
+      return true;
+    });
+  });
+
+  it("CheerioScraper converte conexão recusada em ScrapeNetworkError", async () => {
+    const closed = http.createServer();
+    await new Promise<void>((resolve) => closed.listen(0, "127.0.0.1", resolve));
+    const { port } = closed.address() as AddressInfo;
+    await new Promise((resolve) => closed.close(resolve));
+
+    await assert.rejects(new CheerioScraper().scrape(`http://127.0.0.1:${port}/`), ScrapeNetworkError);
+  });
+
+  it("CheerioScraper envia os validadores e trata 304 como NotModifiedError", async () => {
+    const scraper = new CheerioScraper();
+
+    const page = await scraper.scrape(`${baseUrl}/cached`);
+    assert.equal(page.etag, '"v1"');
+
+    await assert.rejects(scraper.scrape(`${baseUrl}/cached`, { etag: page.etag! }), NotModifiedError);
+  });
+});
+
+describe("scrapeUrl", () => {
+  it("tenta de novo uma falha transitória", async () => {
+    const page = await scrapeUrl(`${baseUrl}/flaky`, "cheerio");
+
+    assert.equal(flakyRequests, 2);
+    assert.match(page.content, /Conteúdo do artigo/);
+  });
+
+  it("não repete falhas definitivas", async () => {
+    await assert.rejects(scrapeUrl(`${baseUrl}/missing`, "cheerio"), HttpStatusError);
+  });
+});
@@ -1,7 +1,11 @@
 import axios, { AxiosError } from "axios";
 import * as cheerio from "cheerio";
 import { convert } from "html-to-text";
-import { PlaywrightWebBaseLoader } from "@langchain/community/document_loaders/web/playwright";
+import { type Browser, type BrowserContext, type Page, chromium, errors as playwrightErrors } from "playwright";
+import { config } from "../config.js";
+import { HostLimiter } from "./host-limiter.js";
+import { htmlToMarkdown } from "./html-to-markdown.js";
+import { type ContentExtractionDebug, extractArticle } from "./readability.js";
 
 /**
  * Interface para conteúdo extraído de uma URL
@@ -11,14 +15,92 @@ export interface ScrapedContent {
   title: string | null;
   ogImage: string | null;
   url: string;
+  /** Engine que efetivamente fez o scraping */
+  engine: ScraperEngine;
+  /** Formato de `content` */
+  format: ExtractionFormat;
+  /** Links absolutos (http/https, sem fragmento) encontrados na página, incluindo menus */
+  links: string[];
+  /** Metadata do artigo (meta tags, JSON-LD, microdados e <html lang>) */
+  byline: string | null;
+  /** Data de publicação em ISO 8601 */
+  publishedAt: string | null;
+  siteName: string | null;
+  language: string | null;
+  /** Como o conteúdo principal foi escolhido (apenas com ScrapeOptions.debug) */
+  extraction?: ContentExtractionDebug | undefined;
+  /** Validadores HTTP da resposta (Cheerio), usados na próxima requisição condicional */
+  etag: string | null;
+  lastModified: string | null;
   scrapedAt: string;
 }
 
+/**
+ * Opções de scraping
+ */
+export interface ScrapeOptions {
+  /** Validadores da última versão conhecida: envia If-None-Match / If-Modified-Since (Cheerio) */
+  etag?: string | null | undefined;
+  lastModified?: string | null | undefined;
+  /** Texto corrido ou Markdown com código, tabelas, headings e links (padrão: config.scraping.format) */
+  format?: ExtractionFormat | undefined;
+  /** Opções de renderização (usadas apenas pelo Playwright, inclusive no fallback do Cheerio) */
+  playwright?: PlaywrightOptions | undefined;
+  /** Inclui em `extraction` os candidatos avaliados e o motivo da escolha do conteúdo principal */
+  debug?: boolean | undefined;
+}
+
+/**
+ * Recursos que podem ser bloqueados no Playwright (acelera páginas pesadas)
+ */
+export type PlaywrightResourceType = "image" | "font" | "media" | "stylesheet";
+
+/**
+ * Cookie enviado pelo Playwright (sem domain, vale para a URL do scraping)
+ */
+export interface PlaywrightCookie {
+  name: string;
+  value: string;
+  domain?: string | undefined;
+  path?: string | undefined;
+}
+
+/**
+ * Opções por requisição do PlaywrightScraper
+ */
+export interface PlaywrightOptions {
+  /** Seletor CSS aguardado antes da extração (padrão: espera a rede ficar ociosa) */
+  waitForSelector?: string | undefined;
+  /** Rola a página até o fim para carregar conteúdo de scroll infinito */
+  autoScroll?: boolean | undefined;
+  /** Máximo de rolagens com autoScroll (padrão: 20) */
+  maxScrolls?: number | undefined;
+  /** Cookies (ex: sessão de páginas que exigem login) */
+  cookies?: PlaywrightCookie[] | undefined;
+  /** Headers extras enviados nas requisições à origem da URL (outros sites não os recebem) */
+  headers?: Record<string, string> | undefined;
+  viewport?: { width: number; height: number } | undefined;
+  /** Tipos de recurso não carregados */
+  blockResources?: PlaywrightResourceType[] | undefined;
+  /** Timeout de navegação e espera em ms (padrão: PLAYWRIGHT_TIMEOUT) */
+  timeoutMs?: number | undefined;
+}
+
 /**
  * Interface base para scrapers
  */
 export interface IScraper {
-  scrape(url: string): Promise<ScrapedContent>;
+  scrape(url: string, options?: ScrapeOptions): Promise<ScrapedContent>;
+}
+
+/**
+ * Página não modificada desde a última versão (HTTP 304 em requisição condicional)
+ */
+export class NotModifiedError extends Error {
+  constructor(public readonly url: string) {
+    super(`Conteúdo não modificado: ${url}`);
+    this.name = "NotModifiedError";
+  }
 }
 
 /**
@@ -26,11 +108,96 @@ export interface IScraper {
  */
 export type ScraperEngine = "cheerio" | "playwright";
 
+/**
+ * Formato do conteúdo extraído
+ * - text: texto corrido (estrutura descartada)
+ * - markdown: preserva headings, blocos de código com a linguagem, tabelas, listas e links
+ */
+export type ExtractionFormat = "text" | "markdown";
+
+/**
+ * Falha de scraping
+ * `retryable` indica falhas transitórias (timeout, rede, 5xx, 429) que scrapeUrl() tenta de novo
+ */
+export class ScrapeError extends Error {
+  constructor(
+    message: string,
+    public readonly url: string,
+    public readonly retryable: boolean
+  ) {
+    super(message);
+    this.name = "ScrapeError";
+  }
+}
+
+/**
+ * Resposta HTTP com status de erro
+ */
+export class HttpStatusError extends ScrapeError {
+  constructor(
+    url: string,
+    public readonly status: number,
+    /** Espera pedida pelo servidor no header Retry-After (ms) */
+    public readonly retryAfterMs: number | null = null
+  ) {
+    super(
+      `Erro HTTP ${status} ao acessar URL: ${url}`,
+      url,
+      status === 408 || status === 429 || status >= 500
+    );
+    this.name = "HttpStatusError";
+  }
+}
+
+/**
+ * Tempo limite excedido (requisição HTTP ou navegação do Playwright)
+ */
+export class ScrapeTimeoutError extends ScrapeError {
+  constructor(
+    url: string,
+    public readonly timeoutMs: number
+  ) {
+    super(`Timeout ao acessar URL (${timeoutMs}ms): ${url}`, url, true);
+    this.name = "ScrapeTimeoutError";
+  }
+}
+
+/**
+ * Falha de rede (DNS, conexão recusada/resetada, TLS)
+ */
+export class ScrapeNetworkError extends ScrapeError {
+  constructor(url: string, detail: string) {
+    super(`Falha de rede ao acessar URL: ${url} (${detail})`, url, true);
+    this.name = "ScrapeNetworkError";
+  }
+}
+
+/**
+ * Conteúdo extraído abaixo do mínimo (página bloqueada, vazia ou que depende de JavaScript)
+ */
+export class ContentTooShortError extends ScrapeError {
+  constructor(
+    url: string,
+    public readonly engine: ScraperEngine,
+    public readonly contentLength: number
+  ) {
+    super(
+      `Conteúdo muito curto (${contentLength} caracteres, engine ${engine}). URL pode estar bloqueada, não ter conteúdo suficiente ou depender de JavaScript.`,
+      url,
+      false
+    );
+    this.name = "ContentTooShortError";
+  }
+}
+
 // ===== CONFIGURAÇÕES =====
 
 /**
  * Configurações do Axios para scraping
  */
+// Mínimo de caracteres extraídos para considerar o scraping bem-sucedido
+const MIN_CONTENT_LENGTH = 100;
+
 const SCRAPER_CONFIG = {
   timeout: 20000, // 20 segundos
   maxContentLength: 10 * 1024 * 1024, // 10MB
@@ -44,42 +211,6 @@ const SCRAPER_CONFIG = {
   },
 };
 
-/**
- * Elementos HTML a serem removidos durante o scraping
- */
-const UNWANTED_SELECTORS = [
-  "script",
-  "style",
-  "nav",
-  "footer",
-  "header",
-  "aside",
-  ".ad",
-  ".advertisement",
-  ".sidebar",
-  ".social-share",
-  ".comments",
-  ".related-posts",
-  "#comments",
-  "[role='complementary']",
-  "[aria-label='advertisement']",
-];
-
-/**
- * Seletores para encontrar conteúdo principal (em ordem de prioridade)
- */
-const CONTENT_SELECTORS = [
-  "article",
-  "main",
-  '[role="main"]',
-  ".content",
-  ".post-content",
-  ".article-content",
-  ".entry-content",
-  "#content",
-  "body",
-];
-
 /**
  * Domínios conhecidos que requerem Playwright (JavaScript pesado)
  */
@@ -92,246 +223,378 @@ const PLAYWRIGHT_REQUIRED_DOMAINS = [
   "medium.com", // Algumas páginas do Medium
 ];
 
-// ===== CHEERIO SCRAPER =====
+// ===== EXTRAÇÃO DE CONTEÚDO =====
 
 /**
- * Scraper usando Cheerio (rápido, leve, sites estáticos)
+ * Extrai metadata, links e conteúdo principal do HTML (compartilhado pelos dois engines)
+ * O conteúdo principal é escolhido por pontuação (ver extractArticle)
+ *
+ * @throws ContentTooShortError se o conteúdo extraído ficar abaixo do mínimo
  */
-export class CheerioScraper implements IScraper {
-  async scrape(url: string): Promise<ScrapedContent> {
-    try {
-      // 1. Fazer HTTP request
-      const response = await axios.get(url, SCRAPER_CONFIG);
+function extractPage(
+  html: string,
+  url: string,
+  engine: ScraperEngine,
+  options: Pick<ScrapeOptions, "format" | "debug">
+): Omit<ScrapedContent, "url" | "engine" | "etag" | "lastModified" | "scrapedAt"> {
+  const $ = cheerio.load(html);
+
+  const title = extractTitle($);
+  const ogImage = extractOgImage($, url);
+  // Links são extraídos antes da limpeza: menus/sidebars costumam ter a navegação do site
+  const links = normalizeLinks(
+    $("a[href]")
+      .map((_, el) => $(el).attr("href"))
+      .get(),
+    url
+  );
 
-      if (response.status !== 200) {
-        throw new Error(`HTTP ${response.status} ao acessar URL`);
-      }
+  const article = extractArticle($);
+
+  // Converter HTML para texto limpo (ou Markdown)
+  const format = options.format ?? config.scraping.format;
+  const content = format === "markdown" ? htmlToMarkdown(article.html, url) : htmlToCleanText(article.html);
 
-      // 2. Parser HTML com Cheerio
-      const $ = cheerio.load(response.data);
+  // Validar conteúdo mínimo
+  if (content.length < MIN_CONTENT_LENGTH) {
+    throw new ContentTooShortError(url, engine, content.length);
+  }
 
-      // 3. Extrair metadata
-      const title = this.extractTitle($);
-      const ogImage = this.extractOgImage($, url);
+  return {
+    content,
+    title,
+    ogImage,
+    format,
+    links,
+    ...article.metadata,
+    ...(options.debug && { extraction: article.debug }),
+  };
+}
 
-      // 4. Remover elementos indesejados
-      UNWANTED_SELECTORS.forEach((selector) => {
-        $(selector).remove();
-      });
+function extractTitle($: cheerio.CheerioAPI): string | null {
+  // Tentar Open Graph title
+  const ogTitle = $('meta[property="og:title"]').attr("content");
+  if (ogTitle) return ogTitle.trim();
+
+  // Tentar title tag
+  const titleTag = $("title").text();
+  if (titleTag) return titleTag.trim();
+
+  // Tentar primeiro h1
+  const h1 = $("h1").first().text();
+  if (h1) return h1.trim();
+
+  return null;
+}
+
+function extractOgImage($: cheerio.CheerioAPI, baseUrl: string): string | null {
+  const ogImage = $('meta[property="og:image"]').attr("content");
+  if (!ogImage) return null;
+
+  // Se for URL relativa, converter para absoluta
+  try {
+    return new URL(ogImage, baseUrl).href;
+  } catch {
+    return ogImage; // Retornar original se falhar ao resolver
+  }
+}
 
-      // 5. Extrair conteúdo principal
-      const mainContent = this.extractMainContent($);
+function htmlToCleanText(html: string): string {
+  // Usar html-to-text para conversão inteligente
+  const text = convert(html, {
+    wordwrap: false,
+    preserveNewlines: true,
+    selectors: [
+      { selector: "a", options: { ignoreHref: true } },
+      { selector: "img", format: "skip" },
+    ],
+  });
+
+  // Limpar espaços extras e normalizar quebras de linha
+  return text
+    .replace(/\n\s*\n\s*\n/g, "\n\n") // Máximo 2 quebras de linha
+    .replace(/[ \t]+/g, " ") // Normalizar espaços
+    .trim();
+}
 
-      // 6. Converter HTML para texto limpo
-      const cleanText = this.htmlToCleanText(mainContent);
+// ===== CHEERIO SCRAPER =====
 
-      // 7. Validar conteúdo mínimo
-      if (cleanText.length < 100) {
-        throw new Error(
-          `Conteúdo muito curto (${cleanText.length} caracteres). URL pode estar bloqueada ou não ter conteúdo suficiente.`
-        );
+/**
+ * Scraper usando Cheerio (rápido, leve, sites estáticos)
+ */
+export class CheerioScraper implements IScraper {
+  async scrape(url: string, options: ScrapeOptions = {}): Promise<ScrapedContent> {
+    try {
+      // 1. Fazer HTTP request (condicional quando há validadores da versão anterior)
+      const response = await axios.get(url, {
+        ...SCRAPER_CONFIG,
+        headers: {
+          ...SCRAPER_CONFIG.headers,
+          ...(options.etag && { "If-None-Match": options.etag }),
+          ...(options.lastModified && { "If-Modified-Since": options.lastModified }),
+        },
+        validateStatus: (status) => (status >= 200 && status < 300) || status === 304,
+      });
+
+      if (response.status === 304) {
+        throw new NotModifiedError(url);
       }
 
+      if (response.status !== 200) {
+        throw new HttpStatusError(url, response.status);
+      }
+
+      // 2. Extrair metadata e conteúdo principal
+      const page = extractPage(String(response.data), url, "cheerio", options);
+
       return {
-        content: cleanText,
-        title,
-        ogImage,
+        ...page,
         url,
+        engine: "cheerio",
+        etag: typeof response.headers.etag === "string" ? response.headers.etag : null,
+        lastModified:
+          typeof response.headers["last-modified"] === "string" ? response.headers["last-modified"] : null,
         scrapedAt: new Date().toISOString(),
       };
     } catch (error) {
+      if (error instanceof NotModifiedError || error instanceof ScrapeError) throw error;
+
       // Tratamento específico de erros
       if (axios.isAxiosError(error)) {
         const axiosError = error as AxiosError;
 
-        if (axiosError.code === "ECONNABORTED") {
-          throw new Error(
-            `Timeout ao acessar URL (${SCRAPER_CONFIG.timeout}ms): ${url}`
-          );
+        if (axiosError.code === "ECONNABORTED" || axiosError.code === "ETIMEDOUT") {
+          throw new ScrapeTimeoutError(url, SCRAPER_CONFIG.timeout);
         }
 
         if (axiosError.response) {
-          throw new Error(
-            `Erro HTTP ${axiosError.response.status} ao acessar URL: ${url}`
+          throw new HttpStatusError(
+            url,
+            axiosError.response.status,
+            parseRetryAfter(axiosError.response.headers["retry-after"])
           );
         }
 
         if (axiosError.request) {
-          throw new Error(`Falha de rede ao acessar URL: ${url}`);
+          throw new ScrapeNetworkError(url, axiosError.code || axiosError.message);
         }
       }
 
       // Propagar erro original com contexto
-      throw new Error(
-        `Erro ao fazer scraping da URL: ${error instanceof Error ? error.message : String(error)}`
+      throw new ScrapeError(
+        `Erro ao fazer scraping da URL: ${error instanceof Error ? error.message : String(error)}`,
+        url,
+        false
       );
     }
   }
+}
 
-  private extractTitle($: cheerio.CheerioAPI): string | null {
-    // Tentar Open Graph title
-    const ogTitle = $('meta[property="og:title"]').attr("content");
-    if (ogTitle) return ogTitle.trim();
-
-    // Tentar title tag
-    const titleTag = $("title").text();
-    if (titleTag) return titleTag.trim();
-
-    // Tentar primeiro h1
-    const h1 = $("h1").first().text();
-    if (h1) return h1.trim();
+// ===== PLAYWRIGHT SCRAPER =====
 
-    return null;
-  }
+/**
+ * Configurações do Playwright
+ */
+const PLAYWRIGHT_CONFIG = {
+  headless: config.scraping.playwright.headless,
+  timeout: config.scraping.playwright.timeout,
+  // Sem waitForSelector: espera a rede ficar ociosa por até este tempo
+  idleTimeout: 5000,
+  // Autoscroll: espera entre rolagens e máximo padrão de rolagens
+  scrollDelay: 500,
+  maxScrolls: 20,
+  // Navegador compartilhado é fechado após este tempo sem scraping
+  browserIdleTimeout: 60 * 1000,
+  viewport: { width: 1280, height: 800 },
+};
 
-  private extractOgImage($: cheerio.CheerioAPI, baseUrl: string): string | null {
-    const ogImage = $('meta[property="og:image"]').attr("content");
-    if (!ogImage) return null;
+// Navegador compartilhado entre scrapings (cada scraping usa um contexto isolado)
+let browserPromise: Promise<Browser> | null = null;
+let activePages = 0;
+let idleTimer: NodeJS.Timeout | null = null;
 
-    // Se for URL relativa, converter para absoluta
-    try {
-      return new URL(ogImage, baseUrl).href;
-    } catch {
-      return ogImage; // Retornar original se falhar ao resolver
-    }
+async function acquireBrowser(): Promise<Browser> {
+  if (idleTimer) {
+    clearTimeout(idleTimer);
+    idleTimer = null;
   }
+  activePages++;
 
-  private extractMainContent($: cheerio.CheerioAPI): string {
-    for (const selector of CONTENT_SELECTORS) {
-      const element = $(selector).first();
-      if (element.length > 0) {
-        const html = element.html();
-        if (html && html.trim().length > 0) {
-          return html;
-        }
-      }
-    }
-
-    // Fallback: retornar body completo
-    return $("body").html() || "";
+  if (browserPromise) {
+    const browser = await browserPromise.catch(() => null);
+    if (browser?.isConnected()) return browser;
   }
 
-  private htmlToCleanText(html: string): string {
-    // Usar html-to-text para conversão inteligente
-    const text = convert(html, {
-      wordwrap: false,
-      preserveNewlines: true,
-      selectors: [
-        { selector: "a", options: { ignoreHref: true } },
-        { selector: "img", format: "skip" },
-      ],
-    });
-
-    // Limpar espaços extras e normalizar quebras de linha
-    return text
-      .replace(/\n\s*\n\s*\n/g, "\n\n") // Máximo 2 quebras de linha
-      .replace(/[ \t]+/g, " ") // Normalizar espaços
-      .trim();
+  console.log(`🎭 Iniciando navegador Playwright (headless: ${PLAYWRIGHT_CONFIG.headless})`);
+  browserPromise = chromium.launch({
+    headless: PLAYWRIGHT_CONFIG.headless,
+    timeout: PLAYWRIGHT_CONFIG.timeout,
+  });
+
+  try {
+    return await browserPromise;
+  } catch (error) {
+    browserPromise = null;
+    activePages--;
+    throw error;
   }
 }
 
-// ===== PLAYWRIGHT SCRAPER =====
+function releaseBrowser(): void {
+  activePages--;
+  if (activePages > 0 || !browserPromise) return;
+
+  idleTimer = setTimeout(() => {
+    const closing = browserPromise;
+    browserPromise = null;
+    idleTimer = null;
+    void closing?.then((browser) => browser.close()).catch(() => undefined);
+  }, PLAYWRIGHT_CONFIG.browserIdleTimeout);
+  idleTimer.unref();
+}
 
 /**
  * Scraper usando Playwright (completo, pesado, sites dinâmicos)
  */
 export class PlaywrightScraper implements IScraper {
-  async scrape(url: string): Promise<ScrapedContent> {
+  async scrape(url: string, { playwright: options = {}, ...scrapeOptions }: ScrapeOptions = {}): Promise<ScrapedContent> {
+    const timeout = options.timeoutMs ?? PLAYWRIGHT_CONFIG.timeout;
+    let context: BrowserContext | null = null;
+
     try {
       console.log(`🎭 Usando Playwright para scraping: ${url}`);
 
-      const loader = new PlaywrightWebBaseLoader(url, {
-        launchOptions: {
-          headless: true,
-          timeout: 30000,
-        },
-        gotoOptions: {
-          waitUntil: "domcontentloaded",
-          timeout: 30000,
-        },
-        async evaluate(page, browser) {
-          try {
-            // Espera adicional para JavaScript carregar
-            await page.waitForTimeout(2000);
-
-            // Remove elementos indesejados
-            await page.evaluate((selectors) => {
-              selectors.forEach((sel) => {
-                document.querySelectorAll(sel).forEach((el) => el.remove());
-              });
-            }, UNWANTED_SELECTORS);
-
-            // Extrai title
-            const title = await page.title();
-
-            // Extrai og:image
-            const ogImage = await page
-              .$eval('meta[property="og:image"]', (el: any) => el.content)
-              .catch(() => null);
-
-            // Extrai conteúdo principal
-            const content = await page.evaluate((selectors) => {
-              for (const selector of selectors) {
-                const el = document.querySelector(selector);
-                if (el && el.textContent && el.textContent.trim().length > 0) {
-                  return el.textContent;
-                }
-              }
-              return document.body.textContent || "";
-            }, CONTENT_SELECTORS);
-
-            await browser.close();
-
-            return JSON.stringify({ title, ogImage, content });
-          } catch (error) {
-            await browser.close();
-            throw error;
-          }
-        },
-      });
+      const browser = await acquireBrowser();
+
+      try {
+        context = await browser.newContext({
+          userAgent: SCRAPER_CONFIG.headers["User-Agent"],
+          viewport: options.viewport ?? PLAYWRIGHT_CONFIG.viewport,
+        });
+
+        if (options.cookies?.length) {
+          await context.addCookies(
+            options.cookies.map(({ name, value, domain, path }) =>
+              domain ? { name, value, domain, path: path || "/" } : { name, value, url }
+            )
+          );
+        }
+
+        // Headers extras (ex: Authorization) só vão para a origem da página, nunca para CDNs,
+        // analytics ou outros sites carregados por ela; redirecionamentos não herdam os headers
+        const blocked = new Set<string>(options.blockResources ?? []);
+        const headers = options.headers && Object.keys(options.headers).length > 0 ? options.headers : null;
+        const origin = new URL(url).origin;
+        if (blocked.size > 0 || headers) {
+          await context.route("**/*", (route) => {
+            const request = route.request();
+            if (blocked.has(request.resourceType())) return route.abort();
+            if (headers && new URL(request.url()).origin === origin) {
+              return route.continue({ headers: { ...request.headers(), ...headers } });
+            }
+            return route.continue();
+          });
+        }
+
+        const page = await context.newPage();
+        page.setDefaultTimeout(timeout);
+
+        const response = await page.goto(url, { waitUntil: "domcontentloaded", timeout });
+        if (response && response.status() >= 400) {
+          throw new HttpStatusError(
+            url,
+            response.status(),
+            parseRetryAfter(response.headers()["retry-after"])
+          );
+        }
 
-      const docs = await loader.load();
+        // Espera o conteúdo dinâmico: seletor informado ou rede ociosa (sem falhar se não ficar)
+        if (options.waitForSelector) {
+          await page.waitForSelector(options.waitForSelector, { timeout });
+        } else {
+          await page
+            .waitForLoadState("networkidle", { timeout: PLAYWRIGHT_CONFIG.idleTimeout })
+            .catch(() => undefined);
+        }
 
-      if (!docs || docs.length === 0) {
-        throw new Error("Nenhum documento carregado pelo Playwright");
+        if (options.autoScroll) {
+          await this.autoScroll(page, options.maxScrolls ?? PLAYWRIGHT_CONFIG.maxScrolls);
+        }
+
+        // HTML renderizado: mesma extração do Cheerio
+        const data = extractPage(await page.content(), url, "playwright", scrapeOptions);
+
+        return {
+          ...data,
+          url,
+          engine: "playwright",
+          // Sem requisição condicional: mudanças são detectadas pelo hash do conteúdo
+          etag: null,
+          lastModified: null,
+          scrapedAt: new Date().toISOString(),
+        };
+      } finally {
+        await context?.close().catch(() => undefined);
+        releaseBrowser();
       }
+    } catch (error) {
+      if (error instanceof ScrapeError) throw error;
 
-      const data = JSON.parse(docs[0].pageContent);
+      const message = error instanceof Error ? error.message : String(error);
 
-      // Limpa o conteúdo
-      const cleanText = this.cleanText(data.content);
+      // Erros do Playwright: TimeoutError na navegação/espera, net::ERR_* em falhas de rede
+      if (error instanceof playwrightErrors.TimeoutError) {
+        throw new ScrapeTimeoutError(url, timeout);
+      }
 
-      // Validar conteúdo mínimo
-      if (cleanText.length < 100) {
-        throw new Error(
-          `Conteúdo muito curto (${cleanText.length} caracteres). Site pode não ter carregado corretamente.`
-        );
+      const networkError = message.match(/net::ERR_[A-Z_]+/);
+      if (networkError) {
+        throw new ScrapeNetworkError(url, networkError[0]);
       }
 
-      return {
-        content: cleanText,
-        title: data.title || null,
-        ogImage: data.ogImage || null,
-        url,
-        scrapedAt: new Date().toISOString(),
-      };
-    } catch (error) {
-      throw new Error(
-        `Erro ao fazer scraping com Playwright: ${error instanceof Error ? error.message : String(error)}`
-      );
+      throw new ScrapeError(`Erro ao fazer scraping com Playwright: ${message}`, url, false);
     }
   }
 
-  private cleanText(text: string): string {
-    return text
-      .replace(/\n\s*\n\s*\n/g, "\n\n") // Máximo 2 quebras de linha
-      .replace(/[ \t]+/g, " ") // Normalizar espaços
-      .trim();
+  /**
+   * Rola até o fim da página até a altura parar de crescer (ou atingir maxScrolls)
+   */
+  private async autoScroll(page: Page, maxScrolls: number): Promise<void> {
+    let height = await page.evaluate(() => document.body.scrollHeight);
+
+    for (let i = 0; i < maxScrolls; i++) {
+      await page.evaluate(() => window.scrollTo(0, document.body.scrollHeight));
+      await page.waitForTimeout(PLAYWRIGHT_CONFIG.scrollDelay);
+
+      const newHeight = await page.evaluate(() => document.body.scrollHeight);
+      if (newHeight === height) break;
+      height = newHeight;
+    }
   }
 }
 
 // ===== FACTORY E HELPERS =====
 
+/**
+ * Resolve links relativos, descarta fragmentos (#secao), esquemas não-HTTP e duplicados
+ */
+function normalizeLinks(hrefs: string[], baseUrl: string): string[] {
+  const links = new Set<string>();
+
+  for (const href of hrefs) {
+    try {
+      const link = new URL(href, baseUrl);
+      if (link.protocol !== "http:" && link.protocol !== "https:") continue;
+      link.hash = "";
+      links.add(link.href);
+    } catch {
+      // href inválido: ignora
+    }
+  }
+
+  return Array.from(links);
+}
+
 /**
  * Factory para criar scraper apropriado
  */
@@ -357,23 +620,94 @@ export function detectScraperEngine(url: string): ScraperEngine {
   return needsPlaywright ? "playwright" : "cheerio";
 }
 
+/**
+ * Converte o header Retry-After (segundos ou data HTTP) em milissegundos
+ */
+function parseRetryAfter(value: unknown): number | null {
+  if (typeof value !== "string" || !value.trim()) return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+// Limite por host compartilhado por todos os scrapings (crawl, feeds, URLs acompanhadas, /from-url)
+const hostLimiter = new HostLimiter(config.scraping.hostConcurrency, config.scraping.minDelayMs);
+
+/**
+ * Executa o scraper respeitando o limite do host, tentando de novo falhas transitórias
+ * com backoff exponencial (ou a espera do Retry-After, quando enviada)
+ */
+async function scrapeWithRetry(
+  url: string,
+  engine: ScraperEngine,
+  options?: ScrapeOptions
+): Promise<ScrapedContent> {
+  const scraper = createScraper(engine);
+  const { maxRetries, retryBaseDelayMs, maxRetryDelayMs } = config.scraping;
+  let delay = retryBaseDelayMs;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await hostLimiter.run(url, () => scraper.scrape(url, options));
+    } catch (error) {
+      if (!(error instanceof ScrapeError) || !error.retryable || attempt >= maxRetries) {
+        throw error;
+      }
+
+      const retryAfter = error instanceof HttpStatusError ? error.retryAfterMs : null;
+      // Espera pedida pelo servidor acima do máximo: desiste em vez de segurar a fila
+      if (retryAfter !== null && retryAfter > maxRetryDelayMs) {
+        throw error;
+      }
+
+      const wait = retryAfter ?? delay;
+      if (retryAfter !== null) hostLimiter.pause(url, retryAfter);
+
+      console.warn(`  ⚠️ ${error.message}. Tentando novamente em ${wait}ms... (${maxRetries - attempt} tentativas restantes)`);
+      await new Promise((resolve) => setTimeout(resolve, wait));
+      delay = Math.min(delay * 2, maxRetryDelayMs); // Backoff exponencial
+    }
+  }
+}
+
 /**
  * Faz scraping de uma URL usando engine apropriado
- * Função principal (facade) para scraping
+ * Função principal (facade) para scraping: limite de concorrência e intervalo mínimo por host,
+ * retry de falhas transitórias e fallback para Playwright quando o Cheerio extrai pouco conteúdo
+ * (páginas que dependem de JavaScript)
  *
  * @param url - URL para fazer scraping
  * @param engine - Engine a usar (auto-detecta se não especificado)
- * @returns Conteúdo extraído com metadata
+ * @param options - Validadores para requisição condicional e opções do Playwright
+ * @returns Conteúdo extraído com metadata (`engine` indica o engine que efetivamente extraiu)
+ * @throws NotModifiedError se a página não mudou desde os validadores informados
+ * @throws ScrapeError (HttpStatusError, ScrapeTimeoutError, ScrapeNetworkError, ContentTooShortError) se o scraping falhar
  */
 export async function scrapeUrl(
   url: string,
-  engine?: ScraperEngine
+  engine?: ScraperEngine,
+  options?: ScrapeOptions
 ): Promise<ScrapedContent> {
-  // Auto-detecta engine se não especificado
-  const selectedEngine = engine || detectScraperEngine(url);
+  // Auto-detecta engine se não especificado (opções do Playwright implicam o Playwright)
+  const selectedEngine = engine || (options?.playwright ? "playwright" : detectScraperEngine(url));
 
   console.log(`🔧 Engine selecionado: ${selectedEngine}`);
 
-  const scraper = createScraper(selectedEngine);
-  return scraper.scrape(url);
+  try {
+    return await scrapeWithRetry(url, selectedEngine, options);
+  } catch (error) {
+    if (
+      !(error instanceof ContentTooShortError) ||
+      selectedEngine !== "cheerio" ||
+      !config.scraping.playwrightFallback
+    ) {
+      throw error;
+    }
+
+    console.log(`🔁 ${error.message} Tentando com Playwright...`);
+    return scrapeWithRetry(url, "playwright", options);
+  }
 }